@@ -4,12 +4,14 @@ import { useAppStore } from './store/useAppStore'
 import { Header } from './components/Header'
 import { LeftPanel } from './components/LeftPanel'
 import { MainPanel } from './components/MainPanel'
+import { ComparePanel } from './components/ComparePanel'
 import { MissionControlDialog } from './components/MissionControlDialog'
 import './App.css'
 
 function App() {
   const { 
     leftPanelWidth,
+    isCompareMode,
     setPanelWidths
   } = useAppStore()
   
@@ -51,7 +53,7 @@ function App() {
             defaultSize={75} 
             minSize={55}
           >
-            <MainPanel />
+            {isCompareMode ? <ComparePanel /> : <MainPanel />}
           </Panel>
         </PanelGroup>
       </div>
@@ -0,0 +1,165 @@
+import { useState } from 'react'
+import { useAppStore } from '../store/useAppStore'
+import type { Assertion, AssertionType } from '../store/useAppStore'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Textarea } from './ui/textarea'
+import { Badge } from './ui/badge'
+import { Switch } from './ui/switch'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Plus, Trash2, ListChecks, ChevronDown, ChevronRight } from 'lucide-react'
+import {
+  assertionPlaceholders,
+  assertionTakesValue,
+  assertionTypeLabels
+} from '../utils/assertions'
+
+// Schemas and predicates span lines; every other value fits on one
+const multilineTypes = new Set<AssertionType>(['json_schema', 'javascript'])
+
+interface AssertionRowProps {
+  assertion: Assertion
+  isConfirmingDelete: boolean
+  onChange: (updates: Partial<Omit<Assertion, 'id'>>) => void
+  onDelete: () => void
+}
+
+function AssertionRow({ assertion, isConfirmingDelete, onChange, onDelete }: AssertionRowProps) {
+  return (
+    <div className={`space-y-2 p-2 bg-card rounded border ${assertion.enabled ? '' : 'opacity-60'}`}>
+      <div className="flex items-center gap-2">
+        <Switch
+          checked={assertion.enabled}
+          onCheckedChange={(enabled) => onChange({ enabled })}
+          title={assertion.enabled ? 'Disable check' : 'Enable check'}
+        />
+        <Select
+          value={assertion.type}
+          onValueChange={(type) => onChange({ type: type as AssertionType })}
+        >
+          <SelectTrigger className="h-7 flex-1 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(assertionTypeLabels) as AssertionType[]).map(type => (
+              <SelectItem key={type} value={type}>
+                {assertionTypeLabels[type]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onDelete}
+          className={`h-6 w-6 p-0 ${
+            isConfirmingDelete ? 'text-destructive bg-destructive/10' : 'text-muted-foreground hover:text-destructive'
+          }`}
+          title={isConfirmingDelete ? 'Click again to confirm deletion' : 'Delete check'}
+        >
+          <Trash2 className="h-3 w-3" />
+        </Button>
+      </div>
+
+      {assertionTakesValue(assertion.type) &&
+        (multilineTypes.has(assertion.type) ? (
+          <Textarea
+            value={assertion.value}
+            onChange={(e) => onChange({ value: e.target.value })}
+            placeholder={assertionPlaceholders[assertion.type]}
+            className="min-h-[80px] text-xs font-mono"
+          />
+        ) : (
+          <Input
+            value={assertion.value}
+            onChange={(e) => onChange({ value: e.target.value })}
+            placeholder={assertionPlaceholders[assertion.type]}
+            type={assertion.type === 'max_length' ? 'number' : 'text'}
+            min={assertion.type === 'max_length' ? 0 : undefined}
+            className="h-7 text-xs font-mono"
+          />
+        ))}
+      {assertion.type === 'javascript' && (
+        <p className="text-xs text-muted-foreground">
+          Runs in the tool sandbox with <code>output</code> and <code>toolCalls</code> in scope.
+          A truthy return value passes.
+        </p>
+      )}
+    </div>
+  )
+}
+
+export function AssertionsSection() {
+  const { assertions, addAssertion, updateAssertion, deleteAssertion } = useAppStore()
+
+  const [isCollapsed, setIsCollapsed] = useState(true)
+  const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null)
+
+  const enabledCount = assertions.filter(assertion => assertion.enabled).length
+
+  const handleDelete = (id: string) => {
+    if (deleteConfirmId === id) {
+      deleteAssertion(id)
+      setDeleteConfirmId(null)
+    } else {
+      setDeleteConfirmId(id)
+      // Auto-cancel confirmation after 3 seconds
+      setTimeout(() => {
+        setDeleteConfirmId(null)
+      }, 3000)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      {/* Header */}
+      <div
+        className="flex items-center justify-between cursor-pointer p-2 hover:bg-accent/50 rounded transition-colors"
+        onClick={() => setIsCollapsed(!isCollapsed)}
+      >
+        <div className="flex items-center gap-2">
+          <ListChecks className="h-4 w-4 text-muted-foreground" />
+          <h3 className="text-sm font-medium">Checks</h3>
+          {assertions.length > 0 && (
+            <Badge variant="secondary" className="text-xs">
+              {enabledCount}/{assertions.length}
+            </Badge>
+          )}
+        </div>
+        {isCollapsed ? (
+          <ChevronRight className="h-4 w-4 text-muted-foreground" />
+        ) : (
+          <ChevronDown className="h-4 w-4 text-muted-foreground" />
+        )}
+      </div>
+
+      {!isCollapsed && (
+        <div className="space-y-2">
+          <p className="text-xs text-muted-foreground">
+            Every output of this session, single or batch, is checked against the enabled checks.
+          </p>
+
+          {assertions.map(assertion => (
+            <AssertionRow
+              key={assertion.id}
+              assertion={assertion}
+              isConfirmingDelete={deleteConfirmId === assertion.id}
+              onChange={updates => updateAssertion(assertion.id, updates)}
+              onDelete={() => handleDelete(assertion.id)}
+            />
+          ))}
+
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => addAssertion('contains')}
+            className="w-full h-7"
+          >
+            <Plus className="h-3 w-3 mr-1" />
+            New check
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
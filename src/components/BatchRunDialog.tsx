@@ -0,0 +1,387 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { useAppStore } from '../store/useAppStore'
+import type { AssertionResult, TokenUsage } from '../store/useAppStore'
+import { apiService } from '../services/apiService'
+import { assertionService } from '../services/assertionService'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Badge } from './ui/badge'
+import { ScrollArea } from './ui/scroll-area'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from './ui/dialog'
+import { Download, Loader2, Play, Square, Upload } from 'lucide-react'
+import { formatDataset, parseDataset } from '../utils/dataset'
+import type { Dataset, DatasetFormat } from '../utils/dataset'
+import { runWithConcurrency } from '../utils/concurrency'
+import { formatTokenUsage } from '../utils/tokenCounter'
+import {
+  describeAssertion,
+  formatPassRate,
+  summarizeAssertionResults
+} from '../utils/assertions'
+
+type BatchRowStatus = 'pending' | 'running' | 'done' | 'error' | 'stopped'
+
+interface BatchRowResult {
+  status: BatchRowStatus
+  output: string
+  latencyMs?: number
+  usage?: TokenUsage | null
+  // The session's checks, run on the row's output
+  checks?: AssertionResult[]
+  error?: string
+}
+
+const MAX_CONCURRENCY = 10
+
+const statusVariants: Record<BatchRowStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  pending: 'outline',
+  running: 'secondary',
+  done: 'default',
+  error: 'destructive',
+  stopped: 'outline'
+}
+
+interface BatchRunDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+/**
+ * Runs the session's prompt once per dataset row, with the row's values
+ * layered over the current variable values. Rows run in parallel up to the
+ * concurrency limit; each is a single completion without the agent loop.
+ * Closing the dialog stops the batch.
+ */
+export function BatchRunDialog({ open, onOpenChange }: BatchRunDialogProps) {
+  const {
+    apiConfiguration,
+    tools,
+    toolChoice,
+    assertions,
+    detectedVariables,
+    loopVariables,
+    getProcessedPrompt,
+    getProcessedMessages
+  } = useAppStore()
+
+  const [dataset, setDataset] = useState<Dataset | null>(null)
+  const [fileName, setFileName] = useState('')
+  const [loadError, setLoadError] = useState('')
+  const [concurrency, setConcurrency] = useState(3)
+  const [results, setResults] = useState<BatchRowResult[]>([])
+  const [isRunning, setIsRunning] = useState(false)
+  const abortRef = useRef<AbortController | null>(null)
+
+  // A batch left running would keep spending tokens out of sight
+  useEffect(() => () => abortRef.current?.abort(), [])
+
+  const handleFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (!file) return
+
+    const reader = new FileReader()
+    reader.onload = (e) => {
+      try {
+        setDataset(parseDataset(e.target?.result as string, file.name))
+        setFileName(file.name)
+        setLoadError('')
+        setResults([])
+      } catch (error) {
+        setDataset(null)
+        setLoadError(error instanceof Error ? error.message : String(error))
+      }
+    }
+    reader.readAsText(file)
+    event.target.value = '' // Reset input
+  }
+
+  const updateResult = (index: number, result: Partial<BatchRowResult>) =>
+    setResults(prev => prev.map((r, i) => (i === index ? { ...r, ...result } : r)))
+
+  const handleRun = async () => {
+    if (!dataset) return
+
+    const controller = new AbortController()
+    abortRef.current = controller
+    setIsRunning(true)
+    setResults(dataset.rows.map(() => ({ status: 'pending', output: '' })))
+
+    await runWithConcurrency(dataset.rows, concurrency, async (row, index) => {
+      updateResult(index, { status: 'running' })
+      try {
+        // Template errors surface as the row's error
+        const run = await apiService.complete(
+          getProcessedPrompt(row),
+          getProcessedMessages(row),
+          apiConfiguration,
+          tools,
+          toolChoice,
+          controller.signal
+        )
+        const checks = await assertionService.evaluate(assertions, {
+          output: run.content,
+          toolCalls: run.toolCalls
+        })
+        updateResult(index, {
+          status: 'done',
+          output: run.content || (run.toolCalls.length > 0 ? JSON.stringify(run.toolCalls) : ''),
+          latencyMs: run.latencyMs,
+          usage: run.usage,
+          checks
+        })
+      } catch (error) {
+        if (controller.signal.aborted) {
+          updateResult(index, { status: 'stopped' })
+        } else {
+          updateResult(index, {
+            status: 'error',
+            error: error instanceof Error ? error.message : String(error)
+          })
+        }
+      }
+    }, controller.signal)
+
+    // Rows that never started
+    setResults(prev => prev.map(r => (r.status === 'pending' ? { ...r, status: 'stopped' } : r)))
+    abortRef.current = null
+    setIsRunning(false)
+  }
+
+  const handleStop = () => abortRef.current?.abort()
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) handleStop()
+    onOpenChange(isOpen)
+  }
+
+  const failedCheckNames = (checks: AssertionResult[]) =>
+    checks
+      .filter(check => !check.passed)
+      .map(check => {
+        const assertion = assertions.find(a => a.id === check.assertionId)
+        return assertion ? describeAssertion(assertion) : check.assertionId
+      })
+
+  const handleExport = (format: DatasetFormat) => {
+    if (!dataset) return
+
+    // Result columns are prefixed so they never overwrite the dataset's own
+    const rows = dataset.rows.map((row, index) => ({
+      ...row,
+      result_output: results[index]?.output ?? '',
+      result_latency_ms: results[index]?.latencyMs ?? '',
+      result_input_tokens: results[index]?.usage?.inputTokens ?? '',
+      result_output_tokens: results[index]?.usage?.outputTokens ?? '',
+      result_checks_passed: results[index]?.checks?.length
+        ? `${results[index].checks.filter(check => check.passed).length}/${results[index].checks.length}`
+        : '',
+      result_checks_failed: failedCheckNames(results[index]?.checks ?? []).join('; '),
+      result_error: results[index]?.error ?? ''
+    }))
+    const columns = [
+      ...dataset.columns,
+      'result_output',
+      'result_latency_ms',
+      'result_input_tokens',
+      'result_output_tokens',
+      'result_checks_passed',
+      'result_checks_failed',
+      'result_error'
+    ]
+
+    const blob = new Blob([formatDataset(rows, columns, format)], {
+      type: format === 'csv' ? 'text/csv' : 'application/x-ndjson'
+    })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = `${fileName.replace(/\.[^.]+$/, '') || 'batch'}-results.${format}`
+    a.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const missingColumns = dataset
+    ? detectedVariables.filter(variable => !dataset.columns.includes(variable))
+    : []
+  const unusedColumns = dataset
+    ? dataset.columns.filter(column => !detectedVariables.includes(column) && !loopVariables.includes(column))
+    : []
+  const finished = results.filter(r => r.status === 'done' || r.status === 'error')
+  const errorCount = results.filter(r => r.status === 'error').length
+  const doneResults = results.filter(r => r.status === 'done')
+  const averageLatency = doneResults.length > 0
+    ? Math.round(doneResults.reduce((sum, r) => sum + (r.latencyMs ?? 0), 0) / doneResults.length)
+    : null
+  // Pass rate over every check of every finished row
+  const checkSummary = summarizeAssertionResults(doneResults.flatMap(r => r.checks ?? []))
+  const hasChecks = results.some(r => r.checks?.length)
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-6xl">
+        <DialogHeader>
+          <DialogTitle>Batch Run</DialogTitle>
+          <DialogDescription>
+            Load a CSV file with a header row or a JSONL file of objects. Each row's columns fill
+            the variables of the same name, and the prompt runs once per row.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2 flex-wrap">
+          <label>
+            <input type="file" accept=".csv,.jsonl,.ndjson,.json,text/csv" onChange={handleFile} className="hidden" />
+            <Button variant="outline" size="sm" className="h-8" disabled={isRunning} asChild>
+              <span>
+                <Upload className="h-3 w-3 mr-1" />
+                {dataset ? 'Replace file' : 'Load dataset'}
+              </span>
+            </Button>
+          </label>
+          {dataset && (
+            <span className="text-xs text-muted-foreground">
+              {fileName} · {dataset.rows.length} rows · {dataset.columns.join(', ')}
+            </span>
+          )}
+          <div className="flex items-center gap-1 ml-auto">
+            <label className="text-xs text-muted-foreground">Concurrency</label>
+            <Input
+              type="number"
+              min={1}
+              max={MAX_CONCURRENCY}
+              value={concurrency}
+              onChange={(e) => setConcurrency(Math.min(MAX_CONCURRENCY, Math.max(1, Number(e.target.value) || 1)))}
+              className="h-8 w-16"
+              disabled={isRunning}
+            />
+            {isRunning ? (
+              <Button size="sm" variant="destructive" onClick={handleStop} className="h-8">
+                <Square className="h-3 w-3 mr-1" />
+                Stop
+              </Button>
+            ) : (
+              <Button size="sm" onClick={handleRun} disabled={!dataset} className="h-8">
+                <Play className="h-3 w-3 mr-1" />
+                Run {dataset ? dataset.rows.length : ''} rows
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {loadError && <div className="text-xs text-destructive">{loadError}</div>}
+        {missingColumns.length > 0 && (
+          <div className="text-xs text-muted-foreground">
+            Not in the file, current values are used: {missingColumns.join(', ')}
+          </div>
+        )}
+        {unusedColumns.length > 0 && (
+          <div className="text-xs text-muted-foreground">
+            Columns no prompt uses: {unusedColumns.join(', ')}
+          </div>
+        )}
+
+        {dataset && results.length > 0 && (
+          <>
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-muted-foreground">
+                {finished.length}/{dataset.rows.length} finished
+                {errorCount > 0 && ` · ${errorCount} failed`}
+                {averageLatency !== null && ` · ${averageLatency} ms average latency`}
+                {checkSummary.total > 0 && ` · checks ${formatPassRate(checkSummary)}`}
+              </span>
+              <div className="flex gap-1">
+                <Button variant="outline" size="sm" onClick={() => handleExport('csv')} disabled={isRunning} className="h-7 text-xs">
+                  <Download className="h-3 w-3 mr-1" />
+                  CSV
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => handleExport('jsonl')} disabled={isRunning} className="h-7 text-xs">
+                  <Download className="h-3 w-3 mr-1" />
+                  JSONL
+                </Button>
+              </div>
+            </div>
+
+            <ScrollArea className="h-[50vh] rounded border">
+              <table className="w-full text-xs">
+                <thead className="sticky top-0 bg-card">
+                  <tr className="text-left text-muted-foreground">
+                    <th className="p-2 font-medium">#</th>
+                    {dataset.columns.map(column => (
+                      <th key={column} className="p-2 font-medium font-mono">{column}</th>
+                    ))}
+                    <th className="p-2 font-medium w-1/3">Output</th>
+                    <th className="p-2 font-medium">Latency</th>
+                    <th className="p-2 font-medium">Tokens</th>
+                    {hasChecks && <th className="p-2 font-medium">Checks</th>}
+                    <th className="p-2 font-medium">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {dataset.rows.map((row, index) => {
+                    const result = results[index]
+                    return (
+                      <tr key={index} className="border-t border-border align-top">
+                        <td className="p-2 text-muted-foreground">{index + 1}</td>
+                        {dataset.columns.map(column => (
+                          <td key={column} className="p-2 max-w-[12rem] truncate" title={row[column]}>
+                            {row[column]}
+                          </td>
+                        ))}
+                        <td className="p-2">
+                          {result?.error ? (
+                            <span className="text-destructive">{result.error}</span>
+                          ) : (
+                            <div className="whitespace-pre-wrap max-h-32 overflow-y-auto">{result?.output}</div>
+                          )}
+                        </td>
+                        <td className="p-2 whitespace-nowrap">
+                          {result?.latencyMs !== undefined && `${result.latencyMs} ms`}
+                        </td>
+                        <td className="p-2 whitespace-nowrap">
+                          {result?.status === 'done' &&
+                            (result.usage ? formatTokenUsage(result.usage) : (
+                              <span className="text-muted-foreground" title="The provider reported no token usage">—</span>
+                            ))}
+                        </td>
+                        {hasChecks && (
+                          <td className="p-2">
+                            {result?.checks && result.checks.length > 0 && (
+                              <Badge
+                                variant="outline"
+                                className={`text-xs whitespace-nowrap ${
+                                  result.checks.every(check => check.passed)
+                                    ? 'border-green-500/50 text-green-400'
+                                    : 'border-red-500/50 text-red-400'
+                                }`}
+                                title={failedCheckNames(result.checks).join('\n') || 'All checks passed'}
+                              >
+                                {result.checks.filter(check => check.passed).length}/{result.checks.length}
+                              </Badge>
+                            )}
+                          </td>
+                        )}
+                        <td className="p-2">
+                          {result && (
+                            <Badge variant={statusVariants[result.status]} className="text-xs">
+                              {result.status === 'running' && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+                              {result.status}
+                            </Badge>
+                          )}
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </ScrollArea>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,402 @@
+import { useRef, useState } from "react";
+import { useAppStore } from "../store/useAppStore";
+import type { ConfigPreset, ToolCall } from "../store/useAppStore";
+import { apiService } from "../services/apiService";
+import { Button } from "./ui/button";
+import { Badge } from "./ui/badge";
+import { ScrollArea } from "./ui/scroll-area";
+import { ArrowLeft, Play, Square } from "lucide-react";
+import {
+  MarkdownOutput,
+  MetricsDisplay,
+  PushToMessageButton,
+  ReasoningBlock,
+  ToolCallCard,
+} from "./OutputBlocks";
+import { validateToolCall } from "../utils/toolSchema";
+
+const MIN_PRESETS = 2;
+const MAX_PRESETS = 6;
+
+// Tailwind only ships classes that appear literally in the source
+const gridColumns: Record<number, string> = {
+  1: "grid-cols-1",
+  2: "grid-cols-2",
+  3: "grid-cols-3",
+  4: "grid-cols-4",
+  5: "grid-cols-5",
+  6: "grid-cols-6",
+};
+
+interface CompareColumn {
+  output: string;
+  reasoning: string;
+  toolCalls: ToolCall[];
+  isGenerating: boolean;
+  error: string | null;
+  metrics: { tokensPerSecond: number; totalTokens: number };
+  latencyMs: number | null;
+}
+
+const emptyColumn: CompareColumn = {
+  output: "",
+  reasoning: "",
+  toolCalls: [],
+  isGenerating: false,
+  error: null,
+  metrics: { tokensPerSecond: 0, totalTokens: 0 },
+  latencyMs: null,
+};
+
+interface CompareColumnViewProps {
+  preset: ConfigPreset;
+  column: CompareColumn;
+  onRun: () => void;
+  onStop: () => void;
+  onPush: () => void;
+}
+
+function CompareColumnView({
+  preset,
+  column,
+  onRun,
+  onStop,
+  onPush,
+}: CompareColumnViewProps) {
+  const tools = useAppStore((state) => state.tools);
+  const hasOutput = Boolean(column.output) || column.toolCalls.length > 0;
+
+  return (
+    <div className="min-w-0 min-h-0 flex flex-col border border-border rounded-lg">
+      <div className="p-3 border-b border-border space-y-2">
+        <div className="flex items-center justify-between gap-2">
+          <div className="min-w-0">
+            <div className="text-sm font-medium truncate">{preset.name}</div>
+            <div className="text-xs text-muted-foreground truncate">
+              {preset.configuration.provider} · {preset.configuration.modelName}
+            </div>
+          </div>
+          {column.isGenerating ? (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={onStop}
+              className="h-7"
+            >
+              <Square className="h-3 w-3 mr-1" />
+              Stop
+            </Button>
+          ) : (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={onRun}
+              className="h-7"
+            >
+              <Play className="h-3 w-3 mr-1" />
+              Run
+            </Button>
+          )}
+        </div>
+        <div className="flex items-center justify-between gap-2 flex-wrap">
+          <MetricsDisplay
+            tokensPerSecond={column.metrics.tokensPerSecond}
+            totalTokens={column.metrics.totalTokens}
+            isGenerating={column.isGenerating}
+          />
+          {column.latencyMs !== null && (
+            <span className="text-xs text-muted-foreground">
+              {(column.latencyMs / 1000).toFixed(1)} s
+            </span>
+          )}
+        </div>
+        {hasOutput && !column.isGenerating && (
+          <PushToMessageButton
+            output={column.output}
+            toolCalls={column.toolCalls}
+            onPush={onPush}
+          />
+        )}
+      </div>
+
+      <ScrollArea className="flex-1">
+        <div className="p-3 space-y-3">
+          {column.error && (
+            <div className="p-2 bg-destructive/10 border border-destructive/20 rounded text-xs text-destructive">
+              {column.error}
+            </div>
+          )}
+          {column.reasoning && (
+            <ReasoningBlock
+              reasoning={column.reasoning}
+              isStreaming={column.isGenerating && !column.output}
+            />
+          )}
+          {(column.output ||
+            (column.isGenerating && column.toolCalls.length === 0)) && (
+            <MarkdownOutput
+              content={column.output}
+              isStreaming={column.isGenerating}
+            />
+          )}
+          {column.toolCalls.map((toolCall) => (
+            <ToolCallCard
+              key={toolCall.id}
+              toolCall={toolCall}
+              violations={
+                column.isGenerating
+                  ? undefined
+                  : validateToolCall(toolCall, tools)
+              }
+            />
+          ))}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+}
+
+/**
+ * Streams the same processed prompt against several configuration presets
+ * at once, one column per preset, each with its own metrics and controls.
+ */
+export function ComparePanel() {
+  const {
+    configPresets,
+    comparePresetIds,
+    tools,
+    toolChoice,
+    setComparePresetIds,
+    setCompareMode,
+    getProcessedPrompt,
+    getProcessedMessages,
+    appendMessages,
+  } = useAppStore();
+
+  const [columns, setColumns] = useState<Record<string, CompareColumn>>({});
+  const [runError, setRunError] = useState<string | null>(null);
+  const controllers = useRef<Record<string, AbortController>>({});
+
+  // Presets deleted since they were picked drop out
+  const selectedPresets = comparePresetIds
+    .map((id) => configPresets.find((preset) => preset.id === id))
+    .filter((preset): preset is ConfigPreset => Boolean(preset));
+  const isAnyGenerating = Object.values(columns).some(
+    (column) => column.isGenerating
+  );
+
+  const updateColumn = (
+    id: string,
+    update: (column: CompareColumn) => Partial<CompareColumn>
+  ) =>
+    setColumns((prev) => {
+      const column = prev[id] ?? emptyColumn;
+      return { ...prev, [id]: { ...column, ...update(column) } };
+    });
+
+  const togglePreset = (id: string) => {
+    if (comparePresetIds.includes(id)) {
+      setComparePresetIds(comparePresetIds.filter((presetId) => presetId !== id));
+    } else if (comparePresetIds.length < MAX_PRESETS) {
+      setComparePresetIds([...comparePresetIds, id]);
+    }
+  };
+
+  const runPreset = async (
+    preset: ConfigPreset,
+    prompt: string,
+    messages: ReturnType<typeof getProcessedMessages>
+  ) => {
+    controllers.current[preset.id]?.abort();
+    const controller = new AbortController();
+    controllers.current[preset.id] = controller;
+    const startTime = Date.now();
+
+    setColumns((prev) => ({
+      ...prev,
+      [preset.id]: { ...emptyColumn, isGenerating: true },
+    }));
+
+    await apiService.streamCompletion(
+      prompt,
+      messages,
+      preset.configuration,
+      tools,
+      toolChoice,
+      {
+        onToken: (token) =>
+          updateColumn(preset.id, (column) => ({
+            output: column.output + token,
+          })),
+        onReasoning: (token) =>
+          updateColumn(preset.id, (column) => ({
+            reasoning: column.reasoning + token,
+          })),
+        onToolCalls: (toolCalls) =>
+          updateColumn(preset.id, () => ({ toolCalls })),
+        onMetrics: (metrics) => updateColumn(preset.id, () => ({ metrics })),
+        onComplete: (output, toolCalls, reasoning) =>
+          updateColumn(preset.id, () => ({
+            output,
+            toolCalls,
+            reasoning,
+            isGenerating: false,
+            latencyMs: Date.now() - startTime,
+          })),
+        onError: (error) =>
+          updateColumn(preset.id, () => ({
+            error: error.message,
+            isGenerating: false,
+          })),
+      },
+      controller.signal
+    );
+
+    // Stopped streams end without a callback
+    if (controller.signal.aborted) {
+      updateColumn(preset.id, () => ({ isGenerating: false }));
+    }
+  };
+
+  // Every column gets the prompt as it is when the run starts
+  const runPresets = (presets: ConfigPreset[]) => {
+    try {
+      const prompt = getProcessedPrompt();
+      const messages = getProcessedMessages();
+      setRunError(null);
+      presets.forEach((preset) => runPreset(preset, prompt, messages));
+    } catch (error) {
+      setRunError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const stopPreset = (id: string) => controllers.current[id]?.abort();
+
+  const stopAll = () => selectedPresets.forEach((preset) => stopPreset(preset.id));
+
+  const pushColumn = (preset: ConfigPreset) => {
+    const column = columns[preset.id];
+    if (!column) return;
+    const content = column.output.trim();
+    const reasoning = column.reasoning.trim();
+
+    appendMessages([
+      {
+        role: "assistant",
+        content,
+        type: column.toolCalls.length > 0 ? "tool_call" : "regular",
+        ...(reasoning && { reasoning }),
+        ...(column.toolCalls.length > 0 && { toolCalls: column.toolCalls }),
+        metadata: {
+          addedFromOutput: true,
+          timestamp: new Date().toISOString(),
+          comparedPreset: preset.name,
+        },
+      },
+    ]);
+  };
+
+  const handleExit = () => {
+    stopAll();
+    setCompareMode(false);
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Header */}
+      <div className="p-4 border-b border-border space-y-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-semibold">Compare</h2>
+            <span className="text-xs text-muted-foreground">
+              Pick {MIN_PRESETS} to {MAX_PRESETS} configuration presets to run
+              the same prompt against
+            </span>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleExit}
+              className="h-8"
+            >
+              <ArrowLeft className="h-3 w-3 mr-1" />
+              Single output
+            </Button>
+            {isAnyGenerating ? (
+              <Button onClick={stopAll} className="h-8">
+                <Square className="h-3 w-3 mr-1" />
+                Stop all
+              </Button>
+            ) : (
+              <Button
+                onClick={() => runPresets(selectedPresets)}
+                disabled={selectedPresets.length < MIN_PRESETS}
+                className="h-8"
+              >
+                <Play className="h-3 w-3 mr-1" />
+                Run {selectedPresets.length || ""}
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {configPresets.length < MIN_PRESETS ? (
+          <div className="text-xs text-muted-foreground">
+            Save at least {MIN_PRESETS} configuration presets in Mission Control
+            to compare them.
+          </div>
+        ) : (
+          <div className="flex flex-wrap gap-1">
+            {configPresets.map((preset) => {
+              const isSelected = comparePresetIds.includes(preset.id);
+              return (
+                <button
+                  key={preset.id}
+                  type="button"
+                  onClick={() => togglePreset(preset.id)}
+                  disabled={
+                    isAnyGenerating ||
+                    (!isSelected && comparePresetIds.length >= MAX_PRESETS)
+                  }
+                  className="disabled:opacity-50"
+                >
+                  <Badge
+                    variant={isSelected ? "default" : "outline"}
+                    className="text-xs cursor-pointer"
+                  >
+                    {preset.name}
+                  </Badge>
+                </button>
+              );
+            })}
+          </div>
+        )}
+
+        {runError && (
+          <div className="text-xs text-destructive">{runError}</div>
+        )}
+      </div>
+
+      {/* Columns */}
+      {selectedPresets.length > 0 && (
+        <div
+          className={`flex-1 min-h-0 grid gap-3 p-4 ${
+            gridColumns[selectedPresets.length]
+          }`}
+        >
+          {selectedPresets.map((preset) => (
+            <CompareColumnView
+              key={preset.id}
+              preset={preset}
+              column={columns[preset.id] ?? emptyColumn}
+              onRun={() => runPresets([preset])}
+              onStop={() => stopPreset(preset.id)}
+              onPush={() => pushColumn(preset)}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
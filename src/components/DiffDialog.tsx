@@ -0,0 +1,234 @@
+import { useState } from "react";
+import { useAppStore } from "../store/useAppStore";
+import type { RunRecord } from "../store/useAppStore";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "./ui/tabs";
+import { ScrollArea } from "./ui/scroll-area";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+import { DiffViewer } from "./DiffViewer";
+import { runOutputText, runRequestText } from "../utils/runHistory";
+
+type RunField = "output" | "request";
+
+const runFieldLabels: Record<RunField, string> = {
+  output: "Output",
+  request: "Request payload",
+};
+
+const runLabel = (run: RunRecord) =>
+  `${new Date(run.createdAt).toLocaleString()} · ${run.configuration.modelName}`;
+
+const runText = (run: RunRecord, field: RunField) =>
+  field === "output" ? runOutputText(run) : runRequestText(run);
+
+interface PairPickerProps {
+  options: { value: string; label: string }[];
+  before: string;
+  after: string;
+  onBeforeChange: (value: string) => void;
+  onAfterChange: (value: string) => void;
+}
+
+function PairPicker({
+  options,
+  before,
+  after,
+  onBeforeChange,
+  onAfterChange,
+}: PairPickerProps) {
+  const picker = (value: string, onChange: (value: string) => void, placeholder: string) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="h-8 flex-1 text-xs">
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        {options.map((option) => (
+          <SelectItem key={option.value} value={option.value}>
+            {option.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="flex items-center gap-2">
+      {picker(before, onBeforeChange, "Before")}
+      <span className="text-xs text-muted-foreground">→</span>
+      {picker(after, onAfterChange, "After")}
+    </div>
+  );
+}
+
+interface DiffDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Diffs two runs from the history, the system prompts of two sessions, or
+ * a template's system prompt against the current one.
+ */
+export function DiffDialog({ open, onOpenChange }: DiffDialogProps) {
+  const {
+    runHistory,
+    templates,
+    systemPrompt,
+    currentSessionId,
+    getAllSessions,
+  } = useAppStore();
+
+  const [beforeRunId, setBeforeRunId] = useState("");
+  const [afterRunId, setAfterRunId] = useState("");
+  const [runField, setRunField] = useState<RunField>("output");
+  const [beforeSessionId, setBeforeSessionId] = useState("");
+  const [afterSessionId, setAfterSessionId] = useState("");
+  const [templateId, setTemplateId] = useState("");
+
+  // The current session's saved prompt may lag behind the editor
+  const sessions = getAllSessions().map((session) =>
+    session.id === currentSessionId ? { ...session, systemPrompt } : session
+  );
+  const beforeRun = runHistory.find((run) => run.id === beforeRunId);
+  const afterRun = runHistory.find((run) => run.id === afterRunId);
+  const beforeSession = sessions.find((session) => session.id === beforeSessionId);
+  const afterSession = sessions.find((session) => session.id === afterSessionId);
+  const template = templates.find((t) => t.id === templateId);
+
+  const emptyHint = (text: string) => (
+    <p className="text-xs text-muted-foreground py-4 text-center">{text}</p>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Diff</DialogTitle>
+          <DialogDescription>
+            See what changed between two outputs or two versions of a prompt.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="runs">
+          <TabsList className="grid w-full grid-cols-3">
+            <TabsTrigger value="runs">Runs</TabsTrigger>
+            <TabsTrigger value="sessions">Session prompts</TabsTrigger>
+            <TabsTrigger value="template">Template vs current</TabsTrigger>
+          </TabsList>
+
+          <ScrollArea className="h-[60vh] mt-3">
+            <div className="pr-3">
+              <TabsContent value="runs" className="space-y-3 mt-0">
+                <div className="flex items-center gap-2">
+                  <div className="flex-1">
+                    <PairPicker
+                      options={runHistory.map((run) => ({
+                        value: run.id,
+                        label: runLabel(run),
+                      }))}
+                      before={beforeRunId}
+                      after={afterRunId}
+                      onBeforeChange={setBeforeRunId}
+                      onAfterChange={setAfterRunId}
+                    />
+                  </div>
+                  <Select
+                    value={runField}
+                    onValueChange={(value) => setRunField(value as RunField)}
+                  >
+                    <SelectTrigger className="h-8 w-40 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(runFieldLabels).map(([field, label]) => (
+                        <SelectItem key={field} value={field}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {beforeRun && afterRun ? (
+                  <DiffViewer
+                    before={runText(beforeRun, runField)}
+                    after={runText(afterRun, runField)}
+                    beforeLabel={runLabel(beforeRun)}
+                    afterLabel={runLabel(afterRun)}
+                  />
+                ) : (
+                  emptyHint(
+                    runHistory.length < 2
+                      ? "Generate at least twice to compare runs."
+                      : "Pick two runs."
+                  )
+                )}
+              </TabsContent>
+
+              <TabsContent value="sessions" className="space-y-3 mt-0">
+                <PairPicker
+                  options={sessions.map((session) => ({
+                    value: session.id,
+                    label: session.name,
+                  }))}
+                  before={beforeSessionId}
+                  after={afterSessionId}
+                  onBeforeChange={setBeforeSessionId}
+                  onAfterChange={setAfterSessionId}
+                />
+                {beforeSession && afterSession ? (
+                  <DiffViewer
+                    before={beforeSession.systemPrompt}
+                    after={afterSession.systemPrompt}
+                    beforeLabel={beforeSession.name}
+                    afterLabel={afterSession.name}
+                  />
+                ) : (
+                  emptyHint(
+                    sessions.length < 2
+                      ? "Save at least two sessions to compare their prompts."
+                      : "Pick two sessions."
+                  )
+                )}
+              </TabsContent>
+
+              <TabsContent value="template" className="space-y-3 mt-0">
+                <Select value={templateId} onValueChange={setTemplateId}>
+                  <SelectTrigger className="h-8 text-xs">
+                    <SelectValue placeholder="Pick a template" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {templates.map((t) => (
+                      <SelectItem key={t.id} value={t.id}>
+                        {t.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {template ? (
+                  <DiffViewer
+                    before={template.systemPrompt}
+                    after={systemPrompt}
+                    beforeLabel={template.name}
+                    afterLabel="Current prompt"
+                  />
+                ) : (
+                  emptyHint(
+                    templates.length === 0
+                      ? "Save a template to compare it with the current prompt."
+                      : "Pick a template."
+                  )
+                )}
+              </TabsContent>
+            </div>
+          </ScrollArea>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
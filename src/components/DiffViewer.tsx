@@ -0,0 +1,231 @@
+import { useMemo, useState } from "react";
+import { Button } from "./ui/button";
+import {
+  countChanges,
+  diffText,
+  toSideBySideRows,
+  type DiffGranularity,
+  type DiffLine,
+  type DiffPart,
+  type DiffPartType,
+} from "../utils/diff";
+
+type DiffLayout = "inline" | "split";
+
+const granularityLabels: Record<DiffGranularity, string> = {
+  word: "Words",
+  line: "Lines",
+};
+
+const layoutLabels: Record<DiffLayout, string> = {
+  inline: "Inline",
+  split: "Side by side",
+};
+
+const partStyles: Record<DiffPartType, string> = {
+  equal: "",
+  added: "bg-green-500/20 text-green-300",
+  removed: "bg-red-500/20 text-red-300 line-through",
+};
+
+// Whole lines are marked by their prefix, so removals stay readable
+const lineStyles: Record<DiffPartType, string> = {
+  equal: "",
+  added: "bg-green-500/20 text-green-300",
+  removed: "bg-red-500/20 text-red-300",
+};
+
+const linePrefixes: Record<DiffPartType, string> = {
+  equal: " ",
+  added: "+",
+  removed: "-",
+};
+
+function InlineWords({ parts }: { parts: DiffPart[] }) {
+  return (
+    <div className="whitespace-pre-wrap break-words">
+      {parts.map((part, index) => (
+        <span key={index} className={partStyles[part.type]}>
+          {part.value}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+function InlineLines({ parts }: { parts: DiffPart[] }) {
+  return (
+    <div>
+      {parts.flatMap((part, index) =>
+        part.value
+          .replace(/\n$/, "")
+          .split("\n")
+          .map((line, lineIndex) => (
+            <div
+              key={`${index}-${lineIndex}`}
+              className={`whitespace-pre-wrap break-words ${lineStyles[part.type]}`}
+            >
+              <span className="select-none text-muted-foreground mr-2">
+                {linePrefixes[part.type]}
+              </span>
+              {line}
+            </div>
+          ))
+      )}
+    </div>
+  );
+}
+
+// Word diffs keep their flow: each side shows its own text with its changes
+function SplitWords({ parts }: { parts: DiffPart[] }) {
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      <InlineWords parts={parts.filter((part) => part.type !== "added")} />
+      <InlineWords parts={parts.filter((part) => part.type !== "removed")} />
+    </div>
+  );
+}
+
+function SplitLineCell({ line }: { line: DiffLine | null }) {
+  if (!line) return <td className="bg-muted/20" colSpan={2} />;
+  return (
+    <>
+      <td className="select-none text-right text-muted-foreground pr-2 align-top w-8">
+        {line.number}
+      </td>
+      <td
+        className={`whitespace-pre-wrap break-words align-top ${lineStyles[line.type]}`}
+      >
+        {line.text}
+      </td>
+    </>
+  );
+}
+
+function SplitLines({ parts }: { parts: DiffPart[] }) {
+  const rows = toSideBySideRows(parts);
+  return (
+    <table className="w-full table-fixed">
+      <tbody>
+        {rows.map((row, index) => (
+          <tr key={index}>
+            <SplitLineCell line={row.before} />
+            <SplitLineCell line={row.after} />
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+interface OptionToggleProps<T extends string> {
+  options: Record<T, string>;
+  value: T;
+  onChange: (value: T) => void;
+}
+
+function OptionToggle<T extends string>({
+  options,
+  value,
+  onChange,
+}: OptionToggleProps<T>) {
+  return (
+    <div className="flex gap-1">
+      {(Object.keys(options) as T[]).map((option) => (
+        <Button
+          key={option}
+          variant={value === option ? "secondary" : "ghost"}
+          size="sm"
+          onClick={() => onChange(option)}
+          className="h-7 text-xs"
+        >
+          {options[option]}
+        </Button>
+      ))}
+    </div>
+  );
+}
+
+interface DiffViewerProps {
+  before: string;
+  after: string;
+  beforeLabel: string;
+  afterLabel: string;
+}
+
+/**
+ * Shows what changed between two texts, by word or by line, either merged
+ * into one view or as two columns.
+ */
+export function DiffViewer({
+  before,
+  after,
+  beforeLabel,
+  afterLabel,
+}: DiffViewerProps) {
+  const [granularity, setGranularity] = useState<DiffGranularity>("word");
+  const [layout, setLayout] = useState<DiffLayout>("inline");
+
+  const parts = useMemo(
+    () => diffText(before, after, granularity),
+    [before, after, granularity]
+  );
+  const changes = countChanges(parts);
+  const isIdentical = parts.every((part) => part.type === "equal");
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2 flex-wrap">
+        <div className="flex items-center gap-3">
+          <OptionToggle
+            options={granularityLabels}
+            value={granularity}
+            onChange={setGranularity}
+          />
+          <OptionToggle
+            options={layoutLabels}
+            value={layout}
+            onChange={setLayout}
+          />
+        </div>
+        <span className="text-xs text-muted-foreground">
+          {isIdentical ? (
+            "No differences"
+          ) : (
+            <>
+              <span className="text-green-300">+{changes.added}</span>{" "}
+              <span className="text-red-300">−{changes.removed}</span> words
+            </>
+          )}
+        </span>
+      </div>
+
+      {layout === "split" && (
+        <div className="grid grid-cols-2 gap-3 text-xs font-medium text-muted-foreground">
+          <span className="truncate">{beforeLabel}</span>
+          <span className="truncate">{afterLabel}</span>
+        </div>
+      )}
+      {layout === "inline" && (
+        <div className="text-xs text-muted-foreground">
+          <span className="text-red-300">{beforeLabel}</span> →{" "}
+          <span className="text-green-300">{afterLabel}</span>
+        </div>
+      )}
+
+      <div className="p-3 bg-muted/30 rounded border text-xs font-mono">
+        {layout === "inline" ? (
+          granularity === "word" ? (
+            <InlineWords parts={parts} />
+          ) : (
+            <InlineLines parts={parts} />
+          )
+        ) : granularity === "word" ? (
+          <SplitWords parts={parts} />
+        ) : (
+          <SplitLines parts={parts} />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+import { useState } from 'react'
+import { useAppStore } from '../store/useAppStore'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Save, Trash2, Upload } from 'lucide-react'
+
+// Radix selects cannot hold an empty value
+const NO_ENVIRONMENT = 'none'
+
+/**
+ * Picks the variable environment for the workspace and, optionally, a
+ * different one for the current session. Values typed into the session
+ * override the environment's.
+ */
+export function EnvironmentSwitcher() {
+  const {
+    variableEnvironments,
+    variableValues,
+    workspaceEnvironmentId,
+    sessionEnvironmentId,
+    saveVariableEnvironment,
+    updateVariableEnvironment,
+    deleteVariableEnvironment,
+    setWorkspaceEnvironment,
+    setSessionEnvironment,
+    getActiveEnvironment
+  } = useAppStore()
+
+  const [newEnvironmentName, setNewEnvironmentName] = useState('')
+  const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null)
+
+  const activeEnvironment = getActiveEnvironment()
+  const workspaceEnvironment = variableEnvironments.find(e => e.id === workspaceEnvironmentId)
+  // Values already saved into the environment are not worth saving again
+  const hasOverrides = Object.entries(variableValues).some(
+    ([name, value]) => value !== '' && value !== activeEnvironment?.values[name]
+  )
+
+  const handleSave = () => {
+    if (newEnvironmentName.trim()) {
+      saveVariableEnvironment(newEnvironmentName.trim())
+      setNewEnvironmentName('')
+    }
+  }
+
+  const handleDelete = (id: string) => {
+    if (deleteConfirmId === id) {
+      deleteVariableEnvironment(id)
+      setDeleteConfirmId(null)
+    } else {
+      setDeleteConfirmId(id)
+      // Auto-cancel confirmation after 3 seconds
+      setTimeout(() => {
+        setDeleteConfirmId(null)
+      }, 3000)
+    }
+  }
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-1 flex-wrap">
+        <label className="text-xs text-muted-foreground">Workspace</label>
+        <Select
+          value={workspaceEnvironmentId ?? NO_ENVIRONMENT}
+          onValueChange={(id) => setWorkspaceEnvironment(id === NO_ENVIRONMENT ? null : id)}
+        >
+          <SelectTrigger className="h-7 w-32 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_ENVIRONMENT}>No environment</SelectItem>
+            {variableEnvironments.map(environment => (
+              <SelectItem key={environment.id} value={environment.id}>{environment.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <label className="text-xs text-muted-foreground ml-2">Session</label>
+        <Select
+          value={sessionEnvironmentId ?? NO_ENVIRONMENT}
+          onValueChange={(id) => setSessionEnvironment(id === NO_ENVIRONMENT ? null : id)}
+        >
+          <SelectTrigger className="h-7 w-40 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_ENVIRONMENT}>
+              Inherit{workspaceEnvironment ? ` (${workspaceEnvironment.name})` : ''}
+            </SelectItem>
+            {variableEnvironments.map(environment => (
+              <SelectItem key={environment.id} value={environment.id}>{environment.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {activeEnvironment && (
+          <>
+            {hasOverrides && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => updateVariableEnvironment(activeEnvironment.id)}
+                className="h-7 text-xs"
+                title={`Save this session's values into ${activeEnvironment.name}`}
+              >
+                <Upload className="h-3 w-3 mr-1" />
+                Save to {activeEnvironment.name}
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => handleDelete(activeEnvironment.id)}
+              className={`h-7 w-7 p-0 ${
+                deleteConfirmId === activeEnvironment.id
+                  ? 'text-destructive bg-destructive/10'
+                  : 'hover:text-destructive'
+              }`}
+              title={
+                deleteConfirmId === activeEnvironment.id
+                  ? 'Click again to confirm deletion'
+                  : `Delete ${activeEnvironment.name}`
+              }
+            >
+              <Trash2 className="h-3 w-3" />
+            </Button>
+          </>
+        )}
+      </div>
+
+      <div className="flex gap-1 max-w-xs">
+        <Input
+          value={newEnvironmentName}
+          onChange={(e) => setNewEnvironmentName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+          placeholder="Save values as environment"
+          className="h-7 text-xs"
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleSave}
+          disabled={!newEnvironmentName.trim()}
+          className="h-7 w-7 p-0"
+          title="Save the current values as a new environment"
+        >
+          <Save className="h-3 w-3" />
+        </Button>
+      </div>
+    </div>
+  )
+}
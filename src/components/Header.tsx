@@ -1,5 +1,6 @@
 import React, { useState } from 'react'
 import { useAppStore } from '../store/useAppStore'
+import { getProvider } from '../services/providers'
 import { Button } from './ui/button'
 import { Input } from './ui/input'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
@@ -7,28 +8,7 @@ import { Slider } from './ui/slider'
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
 import { Settings, Save, Trash2, Plus, X, ChevronDown, ChevronRight, Menu, Zap, Play, Square } from 'lucide-react'
 import { Switch } from './ui/switch'
-
-interface VariableInputProps {
-  variable: string
-  value: string
-  onChange: (value: string) => void
-}
-
-function VariableInput({ variable, value, onChange }: VariableInputProps) {
-  return (
-    <div className="space-y-1">
-      <label className="text-xs font-medium text-muted-foreground">
-        {variable}
-      </label>
-      <Input
-        value={value}
-        onChange={(e) => onChange(e.target.value)}
-        placeholder={`Enter value for ${variable}`}
-        className="h-8"
-      />
-    </div>
-  )
-}
+import { VariablesManager } from './VariablesManager'
 
 interface CustomParameterRowProps {
   paramKey: string
@@ -109,15 +89,12 @@ export function Header() {
   const {
     apiConfiguration,
     configPresets,
-    detectedVariables,
-    variableValues,
     isMissionControlOpen,
     isGenerating,
     setAPIConfiguration,
     saveConfigPreset,
     loadConfigPreset,
     deleteConfigPreset,
-    updateVariableValues,
     setMissionControlOpen
   } = useAppStore()
   
@@ -134,10 +111,6 @@ export function Header() {
     }
   }
   
-  const handleVariableChange = (variable: string, value: string) => {
-    updateVariableValues({ [variable]: value })
-  }
-  
   const addCustomParameter = () => {
     if (newParamKey.trim() && newParamValue.trim()) {
       try {
@@ -179,7 +152,7 @@ export function Header() {
     }
   }
 
-  const hasValidConfig = apiConfiguration.apiKey.trim() && 
+  const hasValidConfig = (!getProvider(apiConfiguration.provider).requiresApiKey || apiConfiguration.apiKey.trim()) && 
                         apiConfiguration.baseURL.trim() && 
                         apiConfiguration.modelName.trim()
   
@@ -388,21 +361,9 @@ export function Header() {
             </div>
             
             {/* Variables Section */}
-            {detectedVariables.length > 0 && (
-              <div className="mt-3 pt-3 border-t border-border">
-                <label className="text-xs font-medium text-muted-foreground mb-2 block">Variables</label>
-                <div className="grid grid-cols-6 gap-2">
-                  {detectedVariables.map(variable => (
-                    <VariableInput
-                      key={variable}
-                      variable={variable}
-                      value={variableValues[variable] || ''}
-                      onChange={(value) => handleVariableChange(variable, value)}
-                    />
-                  ))}
-                </div>
-              </div>
-            )}
+            <div className="mt-3 pt-3 border-t border-border">
+              <VariablesManager className="grid grid-cols-6 gap-2" />
+            </div>
           </div>
         )}
         
@@ -470,21 +431,7 @@ export function Header() {
               </div>
               
               {/* Variables */}
-              {detectedVariables.length > 0 && (
-                <div>
-                  <label className="text-xs font-medium text-muted-foreground mb-2 block">Variables</label>
-                  <div className="grid grid-cols-1 gap-2">
-                    {detectedVariables.map(variable => (
-                      <VariableInput
-                        key={variable}
-                        variable={variable}
-                        value={variableValues[variable] || ''}
-                        onChange={(value) => handleVariableChange(variable, value)}
-                      />
-                    ))}
-                  </div>
-                </div>
-              )}
+              <VariablesManager />
               
               {/* Action Buttons */}
               <div className="flex gap-2">
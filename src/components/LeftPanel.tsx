@@ -19,6 +19,8 @@ import { CSS } from "@dnd-kit/utilities";
 import { useAppStore } from "../store/useAppStore";
 import { Button } from "./ui/button";
 import { Textarea } from "./ui/textarea";
+import { Input } from "./ui/input";
+import { Badge } from "./ui/badge";
 import {
   Select,
   SelectContent,
@@ -50,11 +52,56 @@ import {
   ChevronDown,
   ChevronRight,
   Maximize2,
+  Brain,
+  Puzzle,
+  GitCompare,
 } from "lucide-react";
 import { countTokens } from "../utils/tokenCounter";
 import { ToolsSection } from "./ToolsSection";
+import { SnippetsSection } from "./SnippetsSection";
+import { AssertionsSection } from "./AssertionsSection";
+import { DiffDialog } from "./DiffDialog";
 import { SessionsPanel } from "./SessionsPanel";
-import type { MessageRole, MessageType } from "../store/useAppStore";
+import { parseToolArguments } from "../utils/toolArguments";
+import { findTemplateError } from "../utils/templateEngine";
+import { findSnippetDependencies } from "../utils/snippets";
+import type {
+  Message,
+  MessageRole,
+  MessageType,
+  ToolCall,
+} from "../store/useAppStore";
+
+const generateCallId = () => Math.random().toString(36).substring(2, 11);
+
+// Surfaces template syntax errors while the text is written, not at generation
+function TemplateErrorNotice({ text }: { text: string }) {
+  const error = findTemplateError(text);
+  if (!error) return null;
+  return <div className="text-xs text-destructive">{error.message}</div>;
+}
+
+// Shows which snippets a text pulls in, directly or through other snippets
+function SnippetDependencies({ text }: { text: string }) {
+  const snippets = useAppStore((state) => state.snippets);
+  const dependencies = findSnippetDependencies(text, snippets);
+  if (dependencies.length === 0) return null;
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      <Puzzle className="h-3 w-3 text-muted-foreground" />
+      {dependencies.map((dependency) => (
+        <Badge
+          key={dependency.name}
+          variant={dependency.missing ? "destructive" : "secondary"}
+          className="font-mono text-xs"
+          title={dependency.missing ? "No snippet has this name" : undefined}
+        >
+          {dependency.name}
+        </Badge>
+      ))}
+    </div>
+  );
+}
 
 const roleIcons = {
   user: User,
@@ -70,13 +117,145 @@ const roleColors = {
   tool: "text-gray-300",
 };
 
-interface SortableMessageProps {
-  message: {
-    id: string;
-    role: MessageRole;
-    content: string;
+interface ToolCallsEditorProps {
+  toolCalls: ToolCall[];
+  onChange: (toolCalls: ToolCall[]) => void;
+}
+
+function ToolCallsEditor({ toolCalls, onChange }: ToolCallsEditorProps) {
+  const updateToolCall = (index: number, updates: Partial<ToolCall>) => {
+    onChange(
+      toolCalls.map((call, i) => (i === index ? { ...call, ...updates } : call))
+    );
   };
-  onUpdate: (id: string, updates: any) => void;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <label className="text-xs font-medium text-muted-foreground">
+          Tool Calls
+        </label>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() =>
+            onChange([
+              ...toolCalls,
+              { id: `call_${generateCallId()}`, name: "", arguments: "{}" },
+            ])
+          }
+          className="h-6 text-xs"
+        >
+          <Plus className="h-3 w-3 mr-1" />
+          Tool Call
+        </Button>
+      </div>
+      {toolCalls.map((call, index) => (
+        <div key={index} className="space-y-1 p-2 border border-border rounded">
+          <div className="flex gap-1">
+            <Input
+              value={call.name}
+              onChange={(e) => updateToolCall(index, { name: e.target.value })}
+              placeholder="Function name"
+              className="h-7 flex-1 font-mono text-xs"
+            />
+            <Input
+              value={call.id}
+              onChange={(e) => updateToolCall(index, { id: e.target.value })}
+              placeholder="Call ID"
+              className="h-7 w-32 font-mono text-xs"
+            />
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange(toolCalls.filter((_, i) => i !== index))}
+              className="h-7 w-7 p-0 text-destructive hover:text-destructive"
+              title="Remove tool call"
+            >
+              <Trash2 className="h-3 w-3" />
+            </Button>
+          </div>
+          <Textarea
+            value={call.arguments}
+            onChange={(e) =>
+              updateToolCall(index, { arguments: e.target.value })
+            }
+            placeholder='{"location": "Paris"}'
+            className="min-h-[48px] resize-none font-mono text-xs"
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface ToolResultFieldsEditorProps {
+  toolCallId: string;
+  name: string;
+  availableToolCalls: ToolCall[];
+  onChange: (updates: { toolCallId: string; name: string }) => void;
+}
+
+function ToolResultFieldsEditor({
+  toolCallId,
+  name,
+  availableToolCalls,
+  onChange,
+}: ToolResultFieldsEditorProps) {
+  return (
+    <div className="space-y-1">
+      <label className="text-xs font-medium text-muted-foreground">
+        Answers Tool Call
+      </label>
+      {availableToolCalls.length > 0 && (
+        <Select
+          value={
+            availableToolCalls.some((call) => call.id === toolCallId)
+              ? toolCallId
+              : undefined
+          }
+          onValueChange={(id) => {
+            const call = availableToolCalls.find((c) => c.id === id);
+            onChange({ toolCallId: id, name: call?.name || name });
+          }}
+        >
+          <SelectTrigger className="h-7 text-xs">
+            <SelectValue placeholder="Pick a preceding tool call" />
+          </SelectTrigger>
+          <SelectContent>
+            {availableToolCalls.map((call) => (
+              <SelectItem key={call.id} value={call.id}>
+                <span className="font-mono text-xs">
+                  {call.name} · {call.id}
+                </span>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+      <div className="flex gap-1">
+        <Input
+          value={name}
+          onChange={(e) => onChange({ toolCallId, name: e.target.value })}
+          placeholder="Tool name"
+          className="h-7 flex-1 font-mono text-xs"
+        />
+        <Input
+          value={toolCallId}
+          onChange={(e) => onChange({ toolCallId: e.target.value, name })}
+          placeholder="tool_call_id"
+          className="h-7 w-32 font-mono text-xs"
+        />
+      </div>
+    </div>
+  );
+}
+
+interface SortableMessageProps {
+  message: Message;
+  // Tool calls from earlier assistant messages that a tool message can answer
+  availableToolCalls: ToolCall[];
+  onUpdate: (id: string, updates: Partial<Message>) => void;
   onDelete: (id: string) => void;
   onDuplicate: (id: string) => void;
   onGenerate: () => void;
@@ -84,6 +263,7 @@ interface SortableMessageProps {
 
 function SortableMessage({
   message,
+  availableToolCalls,
   onUpdate,
   onDelete,
   onDuplicate,
@@ -91,6 +271,15 @@ function SortableMessage({
 }: SortableMessageProps) {
   const [isEditing, setIsEditing] = useState(false);
   const [editContent, setEditContent] = useState(message.content);
+  const [editToolCalls, setEditToolCalls] = useState<ToolCall[]>(
+    message.toolCalls || []
+  );
+  const [editToolResult, setEditToolResult] = useState({
+    toolCallId: message.toolCallId || "",
+    name: message.name || "",
+  });
+  const [editError, setEditError] = useState<string | null>(null);
+  const [isReasoningExpanded, setIsReasoningExpanded] = useState(false);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
   const {
@@ -116,12 +305,44 @@ function SortableMessage({
   }, [isEditing]);
 
   const handleSave = () => {
-    onUpdate(message.id, { content: editContent });
+    const updates: Partial<Message> = { content: editContent };
+
+    if (message.role === "assistant") {
+      const invalidCall = editToolCalls.find((call) => {
+        try {
+          parseToolArguments(call.arguments);
+          return !call.name.trim();
+        } catch (error) {
+          return true;
+        }
+      });
+      if (invalidCall) {
+        setEditError(
+          "Each tool call needs a name and a JSON object as arguments"
+        );
+        return;
+      }
+      updates.toolCalls = editToolCalls.length > 0 ? editToolCalls : undefined;
+    }
+
+    if (message.role === "tool") {
+      updates.toolCallId = editToolResult.toolCallId.trim() || undefined;
+      updates.name = editToolResult.name.trim() || undefined;
+    }
+
+    onUpdate(message.id, updates);
+    setEditError(null);
     setIsEditing(false);
   };
 
   const handleCancel = () => {
     setEditContent(message.content);
+    setEditToolCalls(message.toolCalls || []);
+    setEditToolResult({
+      toolCallId: message.toolCallId || "",
+      name: message.name || "",
+    });
+    setEditError(null);
     setIsEditing(false);
   };
 
@@ -154,6 +375,9 @@ function SortableMessage({
 
   const IconComponent = roleIcons[message.role];
   const tokenCount = countTokens(message.content);
+  const isAnsweringKnownCall = availableToolCalls.some(
+    (call) => call.id === message.toolCallId
+  );
 
   return (
     <div
@@ -246,6 +470,30 @@ function SortableMessage({
         </div>
       </div>
 
+      {/* Reasoning (stored for reference, not sent with the message) */}
+      {message.reasoning && (
+        <div className="mb-2 ml-6">
+          <button
+            type="button"
+            onClick={() => setIsReasoningExpanded(!isReasoningExpanded)}
+            className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors"
+          >
+            {isReasoningExpanded ? (
+              <ChevronDown className="h-3 w-3" />
+            ) : (
+              <ChevronRight className="h-3 w-3" />
+            )}
+            <Brain className="h-3 w-3" />
+            Reasoning
+          </button>
+          {isReasoningExpanded && (
+            <div className="mt-1 p-2 text-xs text-muted-foreground whitespace-pre-wrap bg-muted/30 rounded max-h-48 overflow-y-auto">
+              {message.reasoning}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Content */}
       {isEditing ? (
         <div className="space-y-2">
@@ -257,6 +505,25 @@ function SortableMessage({
             className="min-h-[80px] resize-none"
             placeholder="Enter message content... (Ctrl+Enter to save and generate)"
           />
+          {message.role === "assistant" && (
+            <ToolCallsEditor
+              toolCalls={editToolCalls}
+              onChange={setEditToolCalls}
+            />
+          )}
+          {message.role === "tool" && (
+            <ToolResultFieldsEditor
+              toolCallId={editToolResult.toolCallId}
+              name={editToolResult.name}
+              availableToolCalls={availableToolCalls}
+              onChange={setEditToolResult}
+            />
+          )}
+          <TemplateErrorNotice text={editContent} />
+          <SnippetDependencies text={editContent} />
+          {editError && (
+            <div className="text-xs text-destructive">{editError}</div>
+          )}
           <div className="flex justify-end gap-1">
             <Button variant="outline" size="sm" onClick={handleCancel}>
               Cancel
@@ -271,11 +538,42 @@ function SortableMessage({
           className="text-sm whitespace-pre-wrap cursor-pointer hover:bg-accent/50 rounded p-2 transition-colors"
           onClick={() => setIsEditing(true)}
         >
-          {message.content || (
-            <span className="text-muted-foreground italic">
-              Click to add content...
-            </span>
+          {message.role === "tool" && (
+            <div className="flex items-center gap-1 mb-1 flex-wrap">
+              <Badge variant="outline" className="font-mono text-xs">
+                {message.name || "unnamed"} · {message.toolCallId || "no id"}
+              </Badge>
+              {!isAnsweringKnownCall && (
+                <span className="text-xs text-destructive">
+                  {message.toolCallId
+                    ? "No preceding tool call has this id"
+                    : "Missing tool_call_id; sent as plain text"}
+                </span>
+              )}
+            </div>
+          )}
+          {message.content ||
+            (!message.toolCalls?.length && (
+              <span className="text-muted-foreground italic">
+                Click to add content...
+              </span>
+            ))}
+          {message.toolCalls && message.toolCalls.length > 0 && (
+            <div className="flex flex-wrap gap-1 mt-1">
+              {message.toolCalls.map((call) => (
+                <Badge
+                  key={call.id}
+                  variant="secondary"
+                  className="font-mono text-xs"
+                  title={call.arguments}
+                >
+                  {call.name}() · {call.id}
+                </Badge>
+              ))}
+            </div>
           )}
+          <TemplateErrorNotice text={message.content} />
+          <SnippetDependencies text={message.content} />
         </div>
       )}
     </div>
@@ -303,6 +601,7 @@ export function LeftPanel() {
   const [systemPromptEdit, setSystemPromptEdit] = useState(systemPrompt);
   const [isSystemPromptCollapsed, setIsSystemPromptCollapsed] = useState(false);
   const [isSystemPromptModalOpen, setIsSystemPromptModalOpen] = useState(false);
+  const [isDiffOpen, setIsDiffOpen] = useState(false);
   const systemPromptRef = useRef<HTMLTextAreaElement>(null);
   const systemPromptModalRef = useRef<HTMLTextAreaElement>(null);
   const [generateTrigger, setGenerateTrigger] = useState(0);
@@ -469,6 +768,14 @@ export function LeftPanel() {
                       ))}
                     </SelectContent>
                   </Select>
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => setIsDiffOpen(true)}
+                    title="Diff runs, session prompts or a template against the current prompt"
+                  >
+                    <GitCompare className="h-4 w-4" />
+                  </Button>
                 </div>
 
                 <div className="flex gap-2">
@@ -572,13 +879,29 @@ export function LeftPanel() {
                           </div>
                         </div>
                       )}
+                      <TemplateErrorNotice
+                        text={
+                          isSystemPromptEditing ? systemPromptEdit : systemPrompt
+                        }
+                      />
+                      <SnippetDependencies
+                        text={
+                          isSystemPromptEditing ? systemPromptEdit : systemPrompt
+                        }
+                      />
                     </>
                   )}
                 </div>
 
+                {/* Snippets Section */}
+                <SnippetsSection />
+
                 {/* Tools Section */}
                 <ToolsSection />
 
+                {/* Assertions Section */}
+                <AssertionsSection />
+
                 {/* Messages */}
                 <div className="space-y-2">
                   <div className="flex items-center justify-between">
@@ -607,10 +930,13 @@ export function LeftPanel() {
                       items={messages.map((m) => m.id)}
                       strategy={verticalListSortingStrategy}
                     >
-                      {messages.map((message) => (
+                      {messages.map((message, index) => (
                         <SortableMessage
                           key={message.id}
                           message={message}
+                          availableToolCalls={messages
+                            .slice(0, index)
+                            .flatMap((previous) => previous.toolCalls || [])}
                           onUpdate={updateMessage}
                           onDelete={deleteMessage}
                           onDuplicate={duplicateMessage}
@@ -686,6 +1012,8 @@ export function LeftPanel() {
           </div>
         </DialogContent>
       </Dialog>
+
+      <DiffDialog open={isDiffOpen} onOpenChange={setIsDiffOpen} />
     </div>
   );
 }
@@ -0,0 +1,160 @@
+import { useState } from 'react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Badge } from './ui/badge'
+import { Switch } from './ui/switch'
+import { ScrollArea } from './ui/scroll-area'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from './ui/dialog'
+import { Loader2, Plug } from 'lucide-react'
+import type { MCPServer, Tool } from '../store/useAppStore'
+import { mcpService } from '../services/mcpService'
+import type { MCPToolDefinition } from '../services/mcpService'
+
+interface MCPConnectDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onImport: (
+    toolSetName: string,
+    tools: Omit<Tool, 'id'>[],
+    server: MCPServer,
+    addToCurrent: boolean
+  ) => void
+}
+
+export function MCPConnectDialog({ open, onOpenChange, onImport }: MCPConnectDialogProps) {
+  const [url, setUrl] = useState('http://localhost:3000/mcp')
+  const [authToken, setAuthToken] = useState('')
+  const [definitions, setDefinitions] = useState<MCPToolDefinition[]>([])
+  const [toolSetName, setToolSetName] = useState('')
+  const [addToCurrent, setAddToCurrent] = useState(true)
+  const [isConnecting, setIsConnecting] = useState(false)
+  const [error, setError] = useState('')
+
+  const server: MCPServer = {
+    url: url.trim(),
+    ...(authToken.trim() && { authToken: authToken.trim() })
+  }
+
+  const close = () => {
+    setDefinitions([])
+    setError('')
+    onOpenChange(false)
+  }
+
+  const handleConnect = async () => {
+    setIsConnecting(true)
+    setError('')
+    try {
+      const listed = await mcpService.listTools(server)
+      if (listed.length === 0) {
+        throw new Error('The server lists no tools')
+      }
+      setDefinitions(listed)
+      if (!toolSetName.trim()) {
+        setToolSetName(new URL(server.url).host)
+      }
+    } catch (error) {
+      setDefinitions([])
+      setError(error instanceof Error ? error.message : String(error))
+    } finally {
+      setIsConnecting(false)
+    }
+  }
+
+  const handleImport = () => {
+    onImport(toolSetName.trim(), mcpService.toTools(server, definitions), server, addToCurrent)
+    close()
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => (isOpen ? onOpenChange(true) : close())}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Connect MCP Server</DialogTitle>
+          <DialogDescription>
+            Discover tools from a Model Context Protocol server over Streamable HTTP. During
+            generation, calls to these tools are sent to the server with tools/call. The server
+            must allow cross-origin requests from this page.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <div className="flex gap-1">
+            <Input
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              placeholder="http://localhost:3000/mcp"
+              className="h-8 flex-1 font-mono text-xs"
+            />
+            <Button size="sm" onClick={handleConnect} disabled={isConnecting || !url.trim()} className="h-8">
+              {isConnecting ? (
+                <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+              ) : (
+                <Plug className="h-3 w-3 mr-1" />
+              )}
+              List tools
+            </Button>
+          </div>
+          <Input
+            type="password"
+            value={authToken}
+            onChange={(e) => setAuthToken(e.target.value)}
+            placeholder="Bearer token (optional)"
+            className="h-8 text-xs"
+          />
+        </div>
+
+        {error && (
+          <div className="text-xs text-destructive">{error}</div>
+        )}
+
+        {definitions.length > 0 && (
+          <div className="space-y-3">
+            <ScrollArea className="h-56 rounded border">
+              <div className="p-2 space-y-2">
+                {definitions.map(definition => (
+                  <div key={definition.name} className="space-y-0.5">
+                    <Badge variant="secondary" className="text-xs font-mono">{definition.name}</Badge>
+                    {definition.description && (
+                      <div className="text-xs text-muted-foreground">{definition.description}</div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+
+            <div className="space-y-1">
+              <label className="text-xs font-medium">Tool set name</label>
+              <Input
+                value={toolSetName}
+                onChange={(e) => setToolSetName(e.target.value)}
+                placeholder="Tool set name"
+                className="h-8"
+              />
+            </div>
+
+            <div className="flex items-center justify-between">
+              <label className="text-xs font-medium">Also add to current tools</label>
+              <Switch checked={addToCurrent} onCheckedChange={setAddToCurrent} />
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" size="sm" onClick={close}>
+                Cancel
+              </Button>
+              <Button size="sm" onClick={handleImport} disabled={!toolSetName.trim()}>
+                Save {definitions.length} tools
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
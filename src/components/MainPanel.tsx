@@ -1,29 +1,57 @@
 import React, { useState, useRef, useEffect } from "react";
-import ReactMarkdown from "react-markdown";
-import remarkGfm from "remark-gfm";
-import rehypeHighlight from "rehype-highlight";
-import { Prism as SyntaxHighlighter } from "react-syntax-highlighter";
-import { vscDarkPlus } from "react-syntax-highlighter/dist/esm/styles/prism";
 import { useAppStore } from "../store/useAppStore";
 import { apiService } from "../services/apiService";
+import { getProvider } from "../services/providers";
+import type { ProviderHTTPRequest } from "../services/providers";
 import { Button } from "./ui/button";
 import { ScrollArea } from "./ui/scroll-area";
 import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+import { Textarea } from "./ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
 import {
   Play,
   Square,
   Copy,
   RotateCcw,
-  Loader2,
-  Zap,
-  Hash,
-  MessageSquarePlus,
   Brain,
   Wrench,
   MessageCircle,
+  Table,
+  Columns,
+  SlidersHorizontal,
+  History,
 } from "lucide-react";
 import { countPromptTokens } from "../utils/tokenCounter";
-import type { MessageType } from "../store/useAppStore";
+import { findMissingVariables } from "../utils/variables";
+import { toolExecutionService } from "../services/toolExecutionService";
+import { assertionService } from "../services/assertionService";
+import {
+  AssertionResults,
+  MarkdownOutput,
+  MetricsDisplay,
+  PushToMessageButton,
+  ReasoningBlock,
+  ToolCallCard,
+} from "./OutputBlocks";
+import { BatchRunDialog } from "./BatchRunDialog";
+import { SweepDialog } from "./SweepDialog";
+import { RunHistoryDrawer } from "./RunHistoryDrawer";
+import { validateToolCall } from "../utils/toolSchema";
+import type {
+  Message,
+  MessageType,
+  RunRecord,
+  ThinkingBlock,
+  Tool,
+  ToolCall,
+  ToolChoiceSettings,
+} from "../store/useAppStore";
 
 interface OutputWrapperProps {
   children: React.ReactNode;
@@ -68,182 +96,76 @@ function OutputWrapper({ children, outputType }: OutputWrapperProps) {
   );
 }
 
-interface PushToMessageButtonProps {
-  output: string;
-  outputType: MessageType;
-  onPush: () => void;
-  disabled?: boolean;
+interface CompletionResult {
+  content: string;
+  toolCalls: ToolCall[];
+  reasoning: string;
+  thinkingBlocks: ThinkingBlock[];
 }
 
-function PushToMessageButton({
-  output,
-  outputType,
-  onPush,
-  disabled,
-}: PushToMessageButtonProps) {
-  if (!output.trim() || disabled) return null;
-
-  // Check if content should be pushable (has tool calls or regular content)
-  const isPushableContent = (content: string): boolean => {
-    const cleanContent = content.trim();
-
-    // Check for tool call patterns (more comprehensive)
-    if (
-      // Standard tool call patterns
-      (cleanContent.includes("tool_calls") && cleanContent.includes("[")) ||
-      (cleanContent.includes('"function"') &&
-        cleanContent.includes('"name"') &&
-        cleanContent.includes('"arguments"')) ||
-      (cleanContent.startsWith("{") &&
-        cleanContent.includes('"type": "function"')) ||
-      // Additional tool call indicators
-      cleanContent.includes('"tool_calls"') ||
-      cleanContent.includes('"type": "tool_call"') ||
-      cleanContent.includes('"tool_use"') ||
-      // Function call patterns
-      (cleanContent.includes('"function_call"') &&
-        cleanContent.includes('"name"')) ||
-      // Anthropic tool use format
-      (cleanContent.includes('"tool_use"') && cleanContent.includes('"name"'))
-    ) {
-      return true; // Has tool calls
-    }
-
-    // Check if it has regular content (not just reasoning)
-    const hasRegularContent =
-      cleanContent.length > 0 &&
-      !cleanContent.toLowerCase().includes("reasoning_content") &&
-      !cleanContent.includes("<think>") &&
-      !cleanContent.toLowerCase().includes("reasoning:") &&
-      !cleanContent.toLowerCase().includes("let me think") &&
-      !cleanContent.toLowerCase().includes("step by step") &&
-      !cleanContent.toLowerCase().includes("my thoughts:") &&
-      !cleanContent.toLowerCase().includes("thinking:") &&
-      !cleanContent.toLowerCase().includes("i need to think") &&
-      !cleanContent.toLowerCase().includes("let me analyze") &&
-      !cleanContent.toLowerCase().includes("first, let me") &&
-      !cleanContent.toLowerCase().includes("i should consider");
-
-    return hasRegularContent;
-  };
-
-  // Don't show push button if content is not pushable
-  if (!isPushableContent(output)) {
-    return null;
-  }
-
-  // Determine the actual content type for button text
-  const detectContentTypeForPush = (content: string): MessageType => {
-    const cleanContent = content.trim();
-
-    // Check for tool call patterns
-    if (
-      (cleanContent.includes("tool_calls") && cleanContent.includes("[")) ||
-      (cleanContent.includes('"function"') &&
-        cleanContent.includes('"name"') &&
-        cleanContent.includes('"arguments"')) ||
-      (cleanContent.startsWith("{") &&
-        cleanContent.includes('"type": "function"')) ||
-      cleanContent.includes('"tool_calls"') ||
-      cleanContent.includes('"type": "tool_call"') ||
-      cleanContent.includes('"tool_use"') ||
-      (cleanContent.includes('"function_call"') &&
-        cleanContent.includes('"name"')) ||
-      (cleanContent.includes('"tool_use"') && cleanContent.includes('"name"'))
-    ) {
-      return "tool_call";
-    }
-
-    return "regular";
-  };
-
-  const actualType = detectContentTypeForPush(output);
-
-  const getButtonText = () => {
-    switch (actualType) {
-      case "tool_call":
-        return "Push as Tool Call";
-      default:
-        return "Push as Assistant";
-    }
-  };
-
-  const getButtonIcon = () => {
-    switch (actualType) {
-      case "tool_call":
-        return <Wrench className="h-3 w-3 mr-1" />;
-      default:
-        return <MessageSquarePlus className="h-3 w-3 mr-1" />;
-    }
-  };
-
-  return (
-    <Button variant="outline" size="sm" onClick={onPush} className="h-8">
-      {getButtonIcon()}
-      {getButtonText()}
-    </Button>
-  );
+interface ManualToolRequest {
+  toolCall: ToolCall;
+  tool: Tool;
+  resolve: (result: string | null) => void;
 }
 
-interface CodeProps {
-  inline?: boolean;
-  className?: string;
-  children: React.ReactNode;
+interface ManualToolResultDialogProps {
+  request: ManualToolRequest | null;
+  onSubmit: (result: string) => void;
+  onCancel: () => void;
 }
 
-function CodeBlock({ inline, className, children, ...props }: CodeProps) {
-  const match = /language-(\w+)/.exec(className || "");
-  const language = match ? match[1] : "";
-
-  if (!inline && language) {
-    return (
-      <SyntaxHighlighter
-        style={vscDarkPlus}
-        language={language}
-        PreTag="div"
-        className="rounded-md my-2"
-        {...props}
-      >
-        {String(children).replace(/\n$/, "")}
-      </SyntaxHighlighter>
-    );
-  }
+function ManualToolResultDialog({
+  request,
+  onSubmit,
+  onCancel,
+}: ManualToolResultDialogProps) {
+  const [result, setResult] = useState("");
 
-  return (
-    <code className="bg-muted px-1 py-0.5 rounded text-sm font-mono" {...props}>
-      {children}
-    </code>
-  );
-}
-
-interface MetricsDisplayProps {
-  tokensPerSecond: number;
-  totalTokens: number;
-  isGenerating: boolean;
-}
+  useEffect(() => {
+    setResult("");
+  }, [request]);
 
-function MetricsDisplay({
-  tokensPerSecond,
-  totalTokens,
-  isGenerating,
-}: MetricsDisplayProps) {
   return (
-    <div className="flex items-center gap-4 text-xs text-muted-foreground">
-      <div className="flex items-center gap-1">
-        <Zap className="h-3 w-3" />
-        <span>{tokensPerSecond.toFixed(1)} tok/s</span>
-      </div>
-      <div className="flex items-center gap-1">
-        <Hash className="h-3 w-3" />
-        <span>{totalTokens} tokens</span>
-      </div>
-      {isGenerating && (
-        <div className="flex items-center gap-1 text-white">
-          <Loader2 className="h-3 w-3 animate-spin" />
-          <span>Generating...</span>
+    <Dialog open={request !== null} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Tool Result: {request?.toolCall.name}</DialogTitle>
+          <DialogDescription>
+            The model called this tool. Enter the result to send back, or
+            cancel to stop the agent loop.
+          </DialogDescription>
+        </DialogHeader>
+
+        {request && (
+          <ToolCallCard
+            toolCall={request.toolCall}
+            violations={validateToolCall(request.toolCall, [request.tool])}
+          />
+        )}
+
+        <Textarea
+          value={result}
+          onChange={(e) => setResult(e.target.value)}
+          onKeyDown={(e) => {
+            if ((e.ctrlKey || e.metaKey) && e.key === "Enter") {
+              e.preventDefault();
+              onSubmit(result);
+            }
+          }}
+          className="min-h-[120px] font-mono text-sm"
+          placeholder="Tool result (Ctrl+Enter to send)"
+          autoFocus
+        />
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button onClick={() => onSubmit(result)}>Send Result</Button>
         </div>
-      )}
-    </div>
+      </DialogContent>
+    </Dialog>
   );
 }
 
@@ -252,24 +174,55 @@ export function MainPanel() {
     systemPrompt,
     messages,
     tools,
+    agentLoop,
+    toolChoice,
     apiConfiguration,
+    assertions,
+    assertionResults,
     output,
     outputType,
+    outputToolCalls,
+    outputReasoning,
     isGenerating,
     generationMetrics,
+    detectedVariables,
+    variableDefinitions,
+    getVariableValues,
     getProcessedPrompt,
     getProcessedMessages,
     setOutput,
+    setOutputToolCalls,
+    setOutputReasoning,
     setGenerating,
     updateGenerationMetrics,
     resetOutput,
     pushOutputToMessages,
+    appendMessages,
+    recordRun,
+    setAssertionResults,
+    setCompareMode,
   } = useAppStore();
 
   const [error, setError] = useState<string | null>(null);
   const outputRef = useRef<HTMLDivElement>(null);
   const [autoScroll, setAutoScroll] = useState(true);
   const [currentOutput, setCurrentOutput] = useState("");
+  const [manualToolRequest, setManualToolRequest] =
+    useState<ManualToolRequest | null>(null);
+  const [loopIteration, setLoopIteration] = useState(0);
+  const [isBatchRunOpen, setIsBatchRunOpen] = useState(false);
+  const [isSweepOpen, setIsSweepOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  // Each Generate gets its own controller, so a stopped loop never resumes
+  // when the next one starts
+  const loopControllerRef = useRef<AbortController | null>(null);
+  // Checks finish after their output; only the latest completion's count
+  const checkRunRef = useRef(0);
+
+  // Local servers typically run without authentication
+  const isMissingApiKey =
+    getProvider(apiConfiguration.provider).requiresApiKey &&
+    !apiConfiguration.apiKey.trim();
 
   // Auto-scroll to bottom during generation
   useEffect(() => {
@@ -278,148 +231,247 @@ export function MainPanel() {
     }
   }, [output, autoScroll, isGenerating]);
 
-  const handleGenerate = async () => {
-    if (isGenerating) {
-      apiService.stopGeneration();
-      setGenerating(false);
-      return;
-    }
-
-    if (!apiConfiguration.apiKey.trim()) {
-      setError("Please configure your API key in the right panel");
-      return;
-    }
-
-    setError(null);
-    resetOutput();
-    setGenerating(true);
-
-    const processedPrompt = getProcessedPrompt();
-    const processedMessages = getProcessedMessages();
-
-    // Enhanced content type detection during streaming
-    const detectStreamingContentType = (
-      content: string,
-      prompt: string,
-      messages: any[]
-    ): MessageType => {
-      const cleanContent = content.trim().toLowerCase();
-      const combinedInput = (
-        prompt +
-        " " +
-        messages.map((m) => m.content).join(" ")
-      ).toLowerCase();
-
-      // Check for thinking content patterns in output
-      if (
-        cleanContent.includes("<think>") ||
-        cleanContent.includes("</think>")
-      ) {
-        return "thinking";
-      }
-
-      // Check for reasoning patterns in output
-      if (
-        cleanContent.includes("reasoning:") ||
-        cleanContent.includes("let me think") ||
-        cleanContent.includes("step by step") ||
-        cleanContent.includes("my thoughts:") ||
-        cleanContent.includes("thinking:") ||
-        cleanContent.includes("analysis:")
-      ) {
-        return "thinking";
-      }
-
-      // Check for tool call patterns (specific)
-      if (
-        (cleanContent.includes("tool_calls") && cleanContent.includes("[")) ||
-        (cleanContent.includes('"function"') &&
-          cleanContent.includes('"name"') &&
-          cleanContent.includes('"arguments"')) ||
-        (cleanContent.startsWith("{") &&
-          cleanContent.includes('"type": "function"'))
-      ) {
-        return "tool_call";
-      }
-
-      // Check if input suggests thinking/reasoning
-      if (
-        combinedInput.includes("think") ||
-        combinedInput.includes("reasoning") ||
-        combinedInput.includes("step by step")
-      ) {
-        return "thinking";
-      }
-
-      // Check if input suggests tool usage
-      if (
-        combinedInput.includes("tool") ||
-        combinedInput.includes("function") ||
-        combinedInput.includes("call")
-      ) {
-        return "tool_call";
-      }
-
-      return "regular";
-    };
-
-    try {
-      await apiService.streamCompletion(
-        processedPrompt,
-        processedMessages,
-        apiConfiguration,
-        tools,
-        {
+  const requestManualResult = (toolCall: ToolCall, tool: Tool) =>
+    new Promise<string | null>((resolve) => {
+      setManualToolRequest({ toolCall, tool, resolve });
+    });
+
+  // Streams one completion; resolves with null when it fails or is stopped
+  const runCompletion = (
+    prompt: string,
+    messages: Message[],
+    choice: ToolChoiceSettings = toolChoice
+  ) =>
+    new Promise<CompletionResult | null>((resolve) => {
+      // Reasoning arrives on its own channel and is accumulated separately
+      let reasoning = "";
+      // Kept for the run history, so stopped runs are saved as far as they got
+      let request: ProviderHTTPRequest | null = null;
+      let content = "";
+      let streamedToolCalls: ToolCall[] = [];
+      let metrics = { tokensPerSecond: 0, totalTokens: 0 };
+      let isSaved = false;
+      const startTime = Date.now();
+
+      const saveRun = (
+        run: Pick<
+          RunRecord,
+          "output" | "reasoning" | "toolCalls" | "finishReason" | "usage" | "error"
+        >
+      ) => {
+        // Runs that never sent a request have nothing to replay
+        if (!request || isSaved) return;
+        isSaved = true;
+        recordRun({
+          ...run,
+          request,
+          configuration: apiConfiguration,
+          latencyMs: Date.now() - startTime,
+          metrics,
+        });
+      };
+
+      apiService
+        .streamCompletion(prompt, messages, apiConfiguration, tools, choice, {
+          onRequest: (built) => {
+            request = built;
+          },
           onStart: () => {
+            checkRunRef.current++;
             setCurrentOutput("");
             setOutput("", "regular");
+            setOutputReasoning("");
             updateGenerationMetrics({ tokensPerSecond: 0, totalTokens: 0 });
           },
           onToken: (token) => {
+            content += token;
             setCurrentOutput((prev) => {
               const newOutput = prev + token;
-              // Dynamically detect content type as we stream
-              const detectedType = detectStreamingContentType(
-                newOutput,
-                processedPrompt,
-                processedMessages
-              );
-              setOutput(newOutput, detectedType);
+              setOutput(newOutput);
               return newOutput;
             });
           },
-          onComplete: (fullResponse) => {
-            // Final content type detection
-            const finalType = detectStreamingContentType(
-              fullResponse,
-              processedPrompt,
-              processedMessages
-            );
-            setOutput(fullResponse, finalType);
+          onReasoning: (token) => {
+            reasoning += token;
+            setOutputReasoning(reasoning);
+          },
+          onToolCalls: (toolCalls) => {
+            streamedToolCalls = toolCalls;
+            setOutputToolCalls(toolCalls);
+          },
+          onComplete: (fullResponse, toolCalls, fullReasoning, details) => {
+            const { thinkingBlocks, ...runDetails } = details;
+            saveRun({
+              output: fullResponse,
+              reasoning: fullReasoning,
+              toolCalls,
+              ...runDetails,
+            });
+            setOutput(fullResponse);
+            setOutputToolCalls(toolCalls);
+            setOutputReasoning(fullReasoning);
             setCurrentOutput(fullResponse);
-            setGenerating(false);
+            const checkRun = checkRunRef.current;
+            assertionService
+              .evaluate(assertions, { output: fullResponse, toolCalls })
+              .then((results) => {
+                if (checkRun === checkRunRef.current) {
+                  setAssertionResults(results);
+                }
+              });
+            resolve({
+              content: fullResponse,
+              toolCalls,
+              reasoning: fullReasoning,
+              thinkingBlocks,
+            });
           },
           onError: (error) => {
+            saveRun({
+              output: content,
+              reasoning,
+              toolCalls: streamedToolCalls,
+              finishReason: null,
+              usage: null,
+              error: error.message,
+            });
             setError(error.message);
-            setGenerating(false);
+            resolve(null);
           },
-          onMetrics: (metrics) => {
-            updateGenerationMetrics(metrics);
+          onMetrics: (update) => {
+            metrics = update;
+            updateGenerationMetrics(update);
           },
-        }
+        })
+        .then(() => {
+          // Only stopped streams end without a callback
+          saveRun({
+            output: content,
+            reasoning,
+            toolCalls: streamedToolCalls,
+            finishReason: "stopped",
+            usage: null,
+          });
+          resolve(null);
+        });
+    });
+
+  const handleGenerate = async () => {
+    if (isGenerating) {
+      loopControllerRef.current?.abort();
+      loopControllerRef.current = null;
+      apiService.stopGeneration();
+      manualToolRequest?.resolve(null);
+      setManualToolRequest(null);
+      setGenerating(false);
+      return;
+    }
+
+    if (isMissingApiKey) {
+      setError("Please configure your API key in the right panel");
+      return;
+    }
+
+    setError(null);
+    resetOutput();
+    setGenerating(true);
+    const controller = new AbortController();
+    loopControllerRef.current = controller;
+    const { signal } = controller;
+    setLoopIteration(1);
+
+    try {
+      let result = await runCompletion(
+        getProcessedPrompt(),
+        getProcessedMessages()
       );
+      let iteration = 1;
+
+      // Agent loop: answer every tool call, append the exchange to the
+      // conversation and generate again until the model stops calling tools
+      while (
+        agentLoop.enabled &&
+        result &&
+        result.toolCalls.length > 0 &&
+        !signal.aborted
+      ) {
+        if (iteration >= agentLoop.maxIterations) {
+          setError(
+            `Agent loop stopped after ${agentLoop.maxIterations} iterations with tool calls still pending`
+          );
+          break;
+        }
+
+        const toolMessages: Omit<Message, "id">[] = [];
+        for (const toolCall of result.toolCalls) {
+          const toolResult = await toolExecutionService.execute(
+            toolCall,
+            tools,
+            { requestManualResult, signal }
+          );
+          if (toolResult === null) controller.abort();
+          // Stop right after the call in flight; its result is discarded
+          if (signal.aborted) break;
+          toolMessages.push({
+            role: "tool",
+            content: toolResult,
+            type: "regular",
+            toolCallId: toolCall.id,
+            name: toolCall.name,
+          });
+        }
+        if (signal.aborted) break;
+
+        appendMessages([
+          {
+            role: "assistant",
+            content: result.content.trim(),
+            type: "tool_call",
+            toolCalls: result.toolCalls,
+            ...(result.reasoning.trim() && {
+              reasoning: result.reasoning.trim(),
+            }),
+            ...(result.thinkingBlocks.length > 0 && {
+              thinkingBlocks: result.thinkingBlocks,
+            }),
+          },
+          ...toolMessages,
+        ]);
+
+        resetOutput();
+        iteration++;
+        setLoopIteration(iteration);
+        // A forced tool choice applies to the first step only; keeping it
+        // would make the model call tools until the iteration cap
+        result = await runCompletion(
+          getProcessedPrompt(),
+          getProcessedMessages(),
+          toolChoice.mode === "none" ? toolChoice : { ...toolChoice, mode: "auto" }
+        );
+      }
     } catch (error) {
-      setError(
-        error instanceof Error ? error.message : "Unknown error occurred"
-      );
+      if (!signal.aborted) {
+        setError(
+          error instanceof Error ? error.message : "Unknown error occurred"
+        );
+      }
+    }
+    // A stopped run has already handed the panel back, possibly to a new one
+    if (loopControllerRef.current === controller) {
+      loopControllerRef.current = null;
       setGenerating(false);
     }
   };
 
   const handleCopy = async () => {
-    if (output) {
+    const text =
+      output ||
+      (outputToolCalls.length > 0
+        ? JSON.stringify(outputToolCalls, null, 2)
+        : "");
+    if (text) {
       try {
-        await navigator.clipboard.writeText(output);
+        await navigator.clipboard.writeText(text);
         // Could add a toast notification here
       } catch (error) {
         console.error("Failed to copy:", error);
@@ -433,12 +485,30 @@ export function MainPanel() {
     }
   };
 
-  const processedPrompt = getProcessedPrompt();
-  const processedMessages = getProcessedMessages();
+  // Fall back to the raw text for token counts while a template is broken
+  let processedPrompt = systemPrompt;
+  let processedMessages = messages;
+  let templateError: string | null = null;
+  try {
+    processedPrompt = getProcessedPrompt();
+    processedMessages = getProcessedMessages();
+  } catch (error) {
+    templateError = error instanceof Error ? error.message : String(error);
+  }
   const promptTokens = countPromptTokens(processedPrompt, processedMessages);
+  const missingVariables = findMissingVariables(
+    detectedVariables,
+    getVariableValues(),
+    variableDefinitions
+  );
+
+  const hasOutput =
+    Boolean(output) ||
+    outputToolCalls.length > 0 ||
+    Boolean(outputReasoning);
 
   const hasValidConfig =
-    apiConfiguration.apiKey.trim() &&
+    !isMissingApiKey &&
     apiConfiguration.baseURL.trim() &&
     apiConfiguration.modelName.trim();
 
@@ -453,10 +523,29 @@ export function MainPanel() {
               <span className="text-xs text-muted-foreground">
                 Prompt: {promptTokens} tokens
               </span>
-              {(processedPrompt || processedMessages.length > 0) &&
+              {templateError ? (
+                <span className="text-xs text-destructive">
+                  • {templateError}
+                </span>
+              ) : (
+                (processedPrompt || processedMessages.length > 0) &&
                 hasValidConfig && (
                   <span className="text-xs text-white">• Ready</span>
-                )}
+                )
+              )}
+              {!templateError && missingVariables.length > 0 && (
+                <span
+                  className="text-xs text-destructive"
+                  title="Variables without a value render as empty text"
+                >
+                  • No value for {missingVariables.join(", ")}
+                </span>
+              )}
+              {isGenerating && agentLoop.enabled && (
+                <span className="text-xs text-muted-foreground">
+                  • Step {loopIteration}/{agentLoop.maxIterations}
+                </span>
+              )}
             </div>
           </div>
 
@@ -467,11 +556,11 @@ export function MainPanel() {
               isGenerating={isGenerating}
             />
 
-            {output && !isGenerating && (
+            {hasOutput && !isGenerating && (
               <>
                 <PushToMessageButton
                   output={output}
-                  outputType={outputType}
+                  toolCalls={outputToolCalls}
                   onPush={pushOutputToMessages}
                   disabled={isGenerating}
                 />
@@ -496,6 +585,54 @@ export function MainPanel() {
               </>
             )}
 
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsBatchRunOpen(true)}
+              disabled={!hasValidConfig || isGenerating || Boolean(templateError)}
+              className="h-8"
+              title="Run the prompt once per row of a CSV or JSONL file"
+            >
+              <Table className="h-3 w-3 mr-1" />
+              Batch
+            </Button>
+
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsSweepOpen(true)}
+              disabled={!hasValidConfig || isGenerating || Boolean(templateError)}
+              className="h-8"
+              title="Run the prompt over a grid of parameter values"
+            >
+              <SlidersHorizontal className="h-3 w-3 mr-1" />
+              Sweep
+            </Button>
+
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setCompareMode(true)}
+              disabled={isGenerating}
+              className="h-8"
+              title="Run the prompt against several configuration presets side by side"
+            >
+              <Columns className="h-3 w-3 mr-1" />
+              Compare
+            </Button>
+
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsHistoryOpen(true)}
+              disabled={isGenerating}
+              className="h-8"
+              title="Past runs with their requests and outputs"
+            >
+              <History className="h-3 w-3 mr-1" />
+              History
+            </Button>
+
             <Button
               onClick={handleGenerate}
               disabled={
@@ -536,7 +673,7 @@ export function MainPanel() {
 
         <ScrollArea className="h-full" ref={outputRef}>
           <div className="p-4">
-            {!output && !isGenerating && !error && (
+            {!hasOutput && !isGenerating && !error && (
               <div className="h-full flex items-center justify-center">
                 <div className="text-center space-y-3">
                   <Play className="h-12 w-12 mx-auto text-muted-foreground/50" />
@@ -555,7 +692,7 @@ export function MainPanel() {
                         Missing configuration:
                       </p>
                       <ul className="text-xs text-muted-foreground mt-1 space-y-1">
-                        {!apiConfiguration.apiKey.trim() && <li>• API Key</li>}
+                        {isMissingApiKey && <li>• API Key</li>}
                         {!apiConfiguration.baseURL.trim() && (
                           <li>• Base URL</li>
                         )}
@@ -569,28 +706,80 @@ export function MainPanel() {
               </div>
             )}
 
-            {(output || isGenerating) && (
+            {(hasOutput || isGenerating) && (
               <Card className="border-0 shadow-none bg-transparent">
-                <CardContent className="p-0">
-                  <OutputWrapper outputType={outputType}>
-                    <div className="prose prose-invert prose-sm max-w-none">
-                      <ReactMarkdown
-                        remarkPlugins={[remarkGfm]}
-                        rehypePlugins={[rehypeHighlight]}
-                        components={{
-                          code: CodeBlock,
-                        }}
-                      >
-                        {output + (isGenerating ? "▋" : "")}
-                      </ReactMarkdown>
+                <CardContent className="p-0 space-y-3">
+                  {assertionResults && assertionResults.length > 0 && (
+                    <AssertionResults
+                      assertions={assertions}
+                      results={assertionResults}
+                    />
+                  )}
+
+                  {outputReasoning && (
+                    <ReasoningBlock
+                      reasoning={outputReasoning}
+                      isStreaming={isGenerating && !output}
+                    />
+                  )}
+
+                  {(output ||
+                    (isGenerating && outputToolCalls.length === 0)) && (
+                    <OutputWrapper outputType={outputType}>
+                      <MarkdownOutput
+                        content={output}
+                        isStreaming={isGenerating}
+                      />
+                    </OutputWrapper>
+                  )}
+
+                  {outputToolCalls.length > 0 && (
+                    // Parallel calls from one turn sit side by side
+                    <div
+                      className={`grid gap-3 ${
+                        outputToolCalls.length > 1
+                          ? "grid-cols-1 md:grid-cols-2 2xl:grid-cols-3"
+                          : "grid-cols-1"
+                      }`}
+                    >
+                      {outputToolCalls.map((toolCall) => (
+                        <ToolCallCard
+                          key={toolCall.id}
+                          toolCall={toolCall}
+                          violations={
+                            isGenerating
+                              ? undefined
+                              : validateToolCall(toolCall, tools)
+                          }
+                        />
+                      ))}
                     </div>
-                  </OutputWrapper>
+                  )}
                 </CardContent>
               </Card>
             )}
           </div>
         </ScrollArea>
       </div>
+
+      <ManualToolResultDialog
+        request={manualToolRequest}
+        onSubmit={(result) => {
+          manualToolRequest?.resolve(result);
+          setManualToolRequest(null);
+        }}
+        onCancel={() => {
+          manualToolRequest?.resolve(null);
+          setManualToolRequest(null);
+        }}
+      />
+
+      <BatchRunDialog open={isBatchRunOpen} onOpenChange={setIsBatchRunOpen} />
+      <SweepDialog open={isSweepOpen} onOpenChange={setIsSweepOpen} />
+      <RunHistoryDrawer
+        open={isHistoryOpen}
+        onClose={() => setIsHistoryOpen(false)}
+      />
     </div>
   );
 }
@@ -1,5 +1,8 @@
 import React, { useState, useEffect } from "react";
 import { useAppStore } from "../store/useAppStore";
+import { providers } from "../services/providers";
+import { requestsStreamUsage } from "../services/providers/openaiProvider";
+import type { ProviderId } from "../services/providers";
 import {
   Dialog,
   DialogContent,
@@ -18,6 +21,7 @@ import {
   SelectValue,
 } from "./ui/select";
 import { Slider } from "./ui/slider";
+import { Switch } from "./ui/switch";
 import { ScrollArea } from "./ui/scroll-area";
 import {
   Card,
@@ -31,31 +35,61 @@ import { Badge } from "./ui/badge";
 import { Separator } from "./ui/separator";
 import { Save, Trash2, Download, Upload, RotateCcw } from "lucide-react";
 
-const presetModels = [
-  { name: "GPT-4", model: "gpt-4", provider: "OpenAI" },
-  { name: "GPT-4 Turbo", model: "gpt-4-turbo-preview", provider: "OpenAI" },
-  { name: "GPT-3.5 Turbo", model: "gpt-3.5-turbo", provider: "OpenAI" },
+// Each preset names the adapter and endpoint it runs on; models from other
+// vendors go through an OpenAI-compatible API
+const presetModels: {
+  name: string;
+  model: string;
+  vendor: string;
+  provider: ProviderId;
+  baseURL: string;
+}[] = [
+  ...[
+    { name: "GPT-4", model: "gpt-4" },
+    { name: "GPT-4 Turbo", model: "gpt-4-turbo-preview" },
+    { name: "GPT-3.5 Turbo", model: "gpt-3.5-turbo" },
+  ].map((preset) => ({
+    ...preset,
+    vendor: "OpenAI",
+    provider: "openai" as const,
+    baseURL: providers.openai.defaultBaseURL,
+  })),
+  ...[
+    { name: "Claude Sonnet 4", model: "claude-sonnet-4-20250514" },
+    { name: "Claude 3 Sonnet", model: "claude-3-sonnet-20240229" },
+    { name: "Claude 3 Haiku", model: "claude-3-haiku-20240307" },
+  ].map((preset) => ({
+    ...preset,
+    vendor: "Anthropic",
+    provider: "anthropic" as const,
+    baseURL: providers.anthropic.defaultBaseURL,
+  })),
+  ...[
+    { name: "Gemini 2.5 Pro", model: "gemini-2.5-pro" },
+    { name: "Gemini 2.5 Flash", model: "gemini-2.5-flash" },
+  ].map((preset) => ({
+    ...preset,
+    vendor: "Gemini",
+    provider: "gemini" as const,
+    baseURL: providers.gemini.defaultBaseURL,
+  })),
+  // Llama weights are usually served by a local OpenAI-compatible server
   {
-    name: "Claude 3 Sonnet",
-    model: "claude-3-sonnet-20240229",
-    provider: "Anthropic",
+    name: "Llama 2 70B",
+    model: "llama-2-70b-chat",
+    vendor: "Meta",
+    provider: "local",
+    baseURL: providers.local.defaultBaseURL,
   },
   {
-    name: "Claude 3 Haiku",
-    model: "claude-3-haiku-20240307",
-    provider: "Anthropic",
+    name: "Mistral Large",
+    model: "mistral-large-latest",
+    vendor: "Mistral",
+    provider: "openai",
+    baseURL: "https://api.mistral.ai/v1",
   },
-  { name: "Llama 2 70B", model: "llama-2-70b-chat", provider: "Meta" },
-  { name: "Mistral Large", model: "mistral-large-latest", provider: "Mistral" },
 ];
 
-const providerEndpoints = {
-  OpenAI: "https://api.openai.com/v1",
-  Anthropic: "https://api.anthropic.com/v1",
-  Local: "http://localhost:1234/v1",
-  Custom: "",
-};
-
 export function MissionControlDialog() {
   const {
     apiConfiguration,
@@ -119,23 +153,25 @@ export function MissionControlDialog() {
     if (model) {
       setAPIConfiguration({
         modelName: model.model,
-        baseURL:
-          providerEndpoints[model.provider as keyof typeof providerEndpoints] ||
-          apiConfiguration.baseURL,
+        provider: model.provider,
+        baseURL: model.baseURL,
+        streamUsage: undefined,
       });
     }
   };
 
-  const handleProviderSelect = (provider: string) => {
-    const endpoint =
-      providerEndpoints[provider as keyof typeof providerEndpoints];
-    if (endpoint !== undefined) {
-      setAPIConfiguration({ baseURL: endpoint });
-    }
+  const handleProviderSelect = (provider: ProviderId) => {
+    setAPIConfiguration({
+      provider,
+      baseURL: providers[provider].defaultBaseURL,
+      // Custom endpoints opt in to usage reporting themselves
+      streamUsage: undefined,
+    });
   };
 
   const resetToDefaults = () => {
     setAPIConfiguration({
+      provider: "openai",
       modelName: "gpt-4",
       baseURL: "https://api.openai.com/v1",
       temperature: 0.7,
@@ -144,6 +180,7 @@ export function MissionControlDialog() {
       frequencyPenalty: 0,
       presencePenalty: 0,
       customParameters: {},
+      streamUsage: undefined,
     });
   };
 
@@ -226,18 +263,27 @@ export function MissionControlDialog() {
                   <div className="grid grid-cols-2 gap-4">
                     <div className="space-y-2">
                       <label className="text-sm font-medium">Provider</label>
-                      <Select onValueChange={handleProviderSelect}>
+                      <Select
+                        value={apiConfiguration.provider ?? "openai"}
+                        onValueChange={handleProviderSelect}
+                      >
                         <SelectTrigger>
                           <SelectValue placeholder="Select provider" />
                         </SelectTrigger>
                         <SelectContent>
-                          {Object.keys(providerEndpoints).map((provider) => (
-                            <SelectItem key={provider} value={provider}>
-                              {provider}
-                            </SelectItem>
-                          ))}
+                          {(Object.keys(providers) as ProviderId[]).map(
+                            (provider) => (
+                              <SelectItem key={provider} value={provider}>
+                                {providers[provider].label}
+                              </SelectItem>
+                            )
+                          )}
                         </SelectContent>
                       </Select>
+                      <p className="text-xs text-muted-foreground">
+                        For another OpenAI-compatible server, pick OpenAI or
+                        Local and change the Base URL
+                      </p>
                     </div>
 
                     <div className="space-y-2">
@@ -254,7 +300,7 @@ export function MissionControlDialog() {
                               <div className="flex items-center gap-2">
                                 <span>{model.name}</span>
                                 <Badge variant="secondary" className="text-xs">
-                                  {model.provider}
+                                  {model.vendor}
                                 </Badge>
                               </div>
                             </SelectItem>
@@ -300,6 +346,53 @@ export function MissionControlDialog() {
                         placeholder="sk-..."
                       />
                     </div>
+
+                    {(apiConfiguration.provider === "openai" ||
+                      apiConfiguration.provider === "local") && (
+                      <div className="flex items-center justify-between gap-4">
+                        <div>
+                          <label className="text-sm font-medium">
+                            Request Token Usage
+                          </label>
+                          <p className="text-xs text-muted-foreground">
+                            Sends stream_options.include_usage; some
+                            OpenAI-compatible servers reject it
+                          </p>
+                        </div>
+                        <Switch
+                          checked={requestsStreamUsage(apiConfiguration)}
+                          onCheckedChange={(streamUsage) =>
+                            setAPIConfiguration({ streamUsage })
+                          }
+                        />
+                      </div>
+                    )}
+
+                    {apiConfiguration.provider === "gemini" && (
+                      <div className="space-y-2">
+                        <label className="text-sm font-medium">
+                          Send API Key As
+                        </label>
+                        <Select
+                          value={apiConfiguration.apiKeyLocation || "header"}
+                          onValueChange={(value: "header" | "query") =>
+                            setAPIConfiguration({ apiKeyLocation: value })
+                          }
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="header">
+                              x-goog-api-key header
+                            </SelectItem>
+                            <SelectItem value="query">
+                              key query parameter
+                            </SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    )}
                   </div>
                 </CardContent>
               </Card>
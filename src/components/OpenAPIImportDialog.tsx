@@ -0,0 +1,241 @@
+import React, { useState } from 'react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Badge } from './ui/badge'
+import { Switch } from './ui/switch'
+import { ScrollArea } from './ui/scroll-area'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from './ui/dialog'
+import { AlertTriangle, FileJson, Upload } from 'lucide-react'
+import type { Tool } from '../store/useAppStore'
+import { listOpenAPIOperations, parseOpenAPIDocument } from '../utils/openApi'
+import type { OpenAPIOperation, SkippedOpenAPIOperation } from '../utils/openApi'
+import { validateToolParameters } from '../utils/toolSchema'
+
+interface OpenAPIImportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onImport: (toolSetName: string, tools: Omit<Tool, 'id'>[], addToCurrent: boolean) => void
+}
+
+export function OpenAPIImportDialog({ open, onOpenChange, onImport }: OpenAPIImportDialogProps) {
+  const [operations, setOperations] = useState<OpenAPIOperation[]>([])
+  const [skipped, setSkipped] = useState<SkippedOpenAPIOperation[]>([])
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [toolSetName, setToolSetName] = useState('')
+  const [addToCurrent, setAddToCurrent] = useState(true)
+  const [error, setError] = useState('')
+
+  const reset = () => {
+    setOperations([])
+    setSkipped([])
+    setSelected(new Set())
+    setToolSetName('')
+    setError('')
+  }
+
+  const handleFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (!file) return
+
+    const reader = new FileReader()
+    reader.onload = (e) => {
+      try {
+        const document = parseOpenAPIDocument(e.target?.result as string)
+        const { operations: parsed, skipped } = listOpenAPIOperations(document)
+        setSkipped(skipped)
+        if (parsed.length === 0) {
+          throw new Error(
+            skipped.length > 0
+              ? 'None of the operations could be converted'
+              : 'The document defines no operations'
+          )
+        }
+        setOperations(parsed)
+        setSelected(new Set(parsed.map(op => op.key)))
+        setToolSetName(document.info?.title || file.name.replace(/\.(json|ya?ml)$/i, ''))
+        setError('')
+      } catch (error) {
+        setOperations([])
+        setError(error instanceof Error ? error.message : String(error))
+      }
+    }
+    reader.readAsText(file)
+    event.target.value = '' // Reset input
+  }
+
+  const toggleOperation = (key: string) => {
+    const next = new Set(selected)
+    if (next.has(key)) {
+      next.delete(key)
+    } else {
+      next.add(key)
+    }
+    setSelected(next)
+  }
+
+  const handleImport = () => {
+    const tools = operations.filter(op => selected.has(op.key)).map(op => op.tool)
+    onImport(toolSetName.trim(), tools, addToCurrent)
+    reset()
+    onOpenChange(false)
+  }
+
+  const allSelected = operations.length > 0 && selected.size === operations.length
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        if (!isOpen) reset()
+        onOpenChange(isOpen)
+      }}
+    >
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import from OpenAPI</DialogTitle>
+          <DialogDescription>
+            Load an OpenAPI 3 document (JSON or YAML) and pick the operations to turn into tools.
+            Path and query parameters become arguments; a request body becomes a "body" argument.
+            Header and cookie parameters are listed per operation but not imported.
+          </DialogDescription>
+        </DialogHeader>
+
+        <label>
+          <input
+            type="file"
+            accept=".json,.yaml,.yml"
+            onChange={handleFile}
+            className="hidden"
+          />
+          <Button variant="outline" size="sm" className="w-full" asChild>
+            <span>
+              <Upload className="h-3 w-3 mr-1" />
+              Choose specification file
+            </span>
+          </Button>
+        </label>
+
+        {error && (
+          <div className="text-xs text-destructive">{error}</div>
+        )}
+
+        {skipped.length > 0 && (
+          <div className="space-y-1">
+            <div className="text-xs text-muted-foreground">
+              {skipped.length} skipped (not imported):
+            </div>
+            <ul className="max-h-24 overflow-y-auto space-y-1 text-xs text-destructive">
+              {skipped.map(op => (
+                <li key={op.key} className="flex items-start gap-1">
+                  <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" />
+                  <span><span className="font-mono">{op.key}</span>: {op.reason}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {operations.length > 0 && (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-muted-foreground">
+                {selected.size} of {operations.length} operations selected
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 text-xs"
+                onClick={() => setSelected(allSelected ? new Set() : new Set(operations.map(op => op.key)))}
+              >
+                {allSelected ? 'Select none' : 'Select all'}
+              </Button>
+            </div>
+
+            <ScrollArea className="h-64 rounded border">
+              <div className="p-2 space-y-1">
+                {operations.map(op => {
+                  const schemaErrors = validateToolParameters(op.tool.parameters)
+                  return (
+                    <label
+                      key={op.key}
+                      className="flex items-start gap-2 p-2 rounded hover:bg-accent/50 cursor-pointer"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={selected.has(op.key)}
+                        onChange={() => toggleOperation(op.key)}
+                        className="mt-1"
+                      />
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2">
+                          <Badge variant="outline" className="text-xs font-mono">{op.method}</Badge>
+                          <span className="text-xs font-mono truncate">{op.path}</span>
+                        </div>
+                        <div className="flex items-center gap-2 mt-1">
+                          <FileJson className="h-3 w-3 text-muted-foreground" />
+                          <span className="text-xs font-mono">{op.tool.name}</span>
+                          {schemaErrors.length > 0 && (
+                            <Badge variant="destructive" className="text-xs">Invalid schema</Badge>
+                          )}
+                        </div>
+                        {op.summary && (
+                          <div className="text-xs text-muted-foreground truncate">{op.summary}</div>
+                        )}
+                        {op.skippedParameters.length > 0 && (
+                          <div className="text-xs text-muted-foreground">
+                            Skipped parameters: {op.skippedParameters.join(', ')}
+                          </div>
+                        )}
+                      </div>
+                    </label>
+                  )
+                })}
+              </div>
+            </ScrollArea>
+
+            <div className="space-y-1">
+              <label className="text-xs font-medium">Tool set name</label>
+              <Input
+                value={toolSetName}
+                onChange={(e) => setToolSetName(e.target.value)}
+                placeholder="Tool set name"
+                className="h-8"
+              />
+            </div>
+
+            <div className="flex items-center justify-between">
+              <label className="text-xs font-medium">Also add to current tools</label>
+              <Switch checked={addToCurrent} onCheckedChange={setAddToCurrent} />
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  reset()
+                  onOpenChange(false)
+                }}
+              >
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                onClick={handleImport}
+                disabled={selected.size === 0 || !toolSetName.trim()}
+              >
+                Import {selected.size} tools
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,286 @@
+import React, { useState } from "react";
+import ReactMarkdown from "react-markdown";
+import remarkGfm from "remark-gfm";
+import rehypeHighlight from "rehype-highlight";
+import { Prism as SyntaxHighlighter } from "react-syntax-highlighter";
+import { vscDarkPlus } from "react-syntax-highlighter/dist/esm/styles/prism";
+import { Button } from "./ui/button";
+import { Badge } from "./ui/badge";
+import {
+  Zap,
+  Hash,
+  Loader2,
+  MessageSquarePlus,
+  Brain,
+  Wrench,
+  AlertTriangle,
+  ChevronDown,
+  ChevronRight,
+  Check,
+  X,
+} from "lucide-react";
+import { formatViolation, type SchemaViolation } from "../utils/toolSchema";
+import {
+  describeAssertion,
+  formatPassRate,
+  summarizeAssertionResults,
+} from "../utils/assertions";
+import type {
+  Assertion,
+  AssertionResult,
+  ToolCall,
+} from "../store/useAppStore";
+
+// Pieces of a model response, shared by the single output and compare views
+
+interface PushToMessageButtonProps {
+  output: string;
+  toolCalls: ToolCall[];
+  onPush: () => void;
+  disabled?: boolean;
+}
+
+export function PushToMessageButton({
+  output,
+  toolCalls,
+  onPush,
+  disabled,
+}: PushToMessageButtonProps) {
+  if ((!output.trim() && toolCalls.length === 0) || disabled) return null;
+
+  const hasToolCalls = toolCalls.length > 0;
+
+  return (
+    <Button variant="outline" size="sm" onClick={onPush} className="h-8">
+      {hasToolCalls ? (
+        <Wrench className="h-3 w-3 mr-1" />
+      ) : (
+        <MessageSquarePlus className="h-3 w-3 mr-1" />
+      )}
+      {hasToolCalls ? "Push as Tool Call" : "Push as Assistant"}
+    </Button>
+  );
+}
+
+interface ReasoningBlockProps {
+  reasoning: string;
+  isStreaming: boolean;
+}
+
+export function ReasoningBlock({ reasoning, isStreaming }: ReasoningBlockProps) {
+  const [isExpanded, setIsExpanded] = useState(true);
+
+  return (
+    <div className="rounded-lg border border-gray-500/10 bg-gray-500/5">
+      <button
+        type="button"
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center gap-2 px-4 py-2 text-xs text-muted-foreground hover:text-foreground transition-colors"
+      >
+        {isExpanded ? (
+          <ChevronDown className="h-3 w-3" />
+        ) : (
+          <ChevronRight className="h-3 w-3" />
+        )}
+        <Brain className="h-3 w-3 text-gray-300" />
+        <span>{isStreaming ? "Reasoning..." : "Reasoning"}</span>
+      </button>
+      {isExpanded && (
+        <div className="px-4 pb-4 text-sm text-muted-foreground whitespace-pre-wrap">
+          {reasoning.trim()}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface ToolCallCardProps {
+  toolCall: ToolCall;
+  // Schema violations in the arguments; omitted while they are streaming
+  violations?: SchemaViolation[];
+}
+
+export function ToolCallCard({ toolCall, violations = [] }: ToolCallCardProps) {
+  // Arguments stream in as partial JSON, so only pretty-print once complete
+  const formattedArguments = (() => {
+    try {
+      return JSON.stringify(JSON.parse(toolCall.arguments), null, 2);
+    } catch (error) {
+      return toolCall.arguments;
+    }
+  })();
+
+  const isInvalid = violations.length > 0;
+
+  return (
+    <div
+      className={`min-w-0 rounded-lg border p-3 ${
+        isInvalid
+          ? "border-destructive/40 bg-destructive/5"
+          : "border-gray-600/20 bg-gray-600/5"
+      }`}
+    >
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <div className="flex items-center gap-2">
+          <Wrench className="h-3 w-3 text-gray-400" />
+          <span className="text-sm font-medium font-mono">
+            {toolCall.name || "…"}
+          </span>
+          {isInvalid && (
+            <Badge variant="destructive" className="text-xs">
+              Invalid arguments
+            </Badge>
+          )}
+        </div>
+        <Badge variant="secondary" className="text-xs font-mono">
+          {toolCall.id}
+        </Badge>
+      </div>
+      <SyntaxHighlighter
+        style={vscDarkPlus}
+        language="json"
+        PreTag="div"
+        className="rounded-md !my-0 text-xs"
+      >
+        {formattedArguments || "{}"}
+      </SyntaxHighlighter>
+      {isInvalid && (
+        <ul className="mt-2 space-y-1 text-xs text-destructive">
+          {violations.map((violation, index) => (
+            <li key={index} className="flex items-start gap-1">
+              <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" />
+              <span className="font-mono">{formatViolation(violation)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+interface CodeProps {
+  inline?: boolean;
+  className?: string;
+  children: React.ReactNode;
+}
+
+function CodeBlock({ inline, className, children, ...props }: CodeProps) {
+  const match = /language-(\w+)/.exec(className || "");
+  const language = match ? match[1] : "";
+
+  if (!inline && language) {
+    return (
+      <SyntaxHighlighter
+        style={vscDarkPlus}
+        language={language}
+        PreTag="div"
+        className="rounded-md my-2"
+        {...props}
+      >
+        {String(children).replace(/\n$/, "")}
+      </SyntaxHighlighter>
+    );
+  }
+
+  return (
+    <code className="bg-muted px-1 py-0.5 rounded text-sm font-mono" {...props}>
+      {children}
+    </code>
+  );
+}
+
+interface MarkdownOutputProps {
+  content: string;
+  isStreaming: boolean;
+}
+
+export function MarkdownOutput({ content, isStreaming }: MarkdownOutputProps) {
+  return (
+    <div className="prose prose-invert prose-sm max-w-none">
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm]}
+        rehypePlugins={[rehypeHighlight]}
+        components={{
+          code: CodeBlock,
+        }}
+      >
+        {content + (isStreaming ? "▋" : "")}
+      </ReactMarkdown>
+    </div>
+  );
+}
+
+interface MetricsDisplayProps {
+  tokensPerSecond: number;
+  totalTokens: number;
+  isGenerating: boolean;
+}
+
+export function MetricsDisplay({
+  tokensPerSecond,
+  totalTokens,
+  isGenerating,
+}: MetricsDisplayProps) {
+  return (
+    <div className="flex items-center gap-4 text-xs text-muted-foreground">
+      <div className="flex items-center gap-1">
+        <Zap className="h-3 w-3" />
+        <span>{tokensPerSecond.toFixed(1)} tok/s</span>
+      </div>
+      <div className="flex items-center gap-1">
+        <Hash className="h-3 w-3" />
+        <span>{totalTokens} tokens</span>
+      </div>
+      {isGenerating && (
+        <div className="flex items-center gap-1 text-white">
+          <Loader2 className="h-3 w-3 animate-spin" />
+          <span>Generating...</span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface AssertionResultsProps {
+  assertions: Assertion[];
+  results: AssertionResult[];
+}
+
+export function AssertionResults({ assertions, results }: AssertionResultsProps) {
+  const summary = summarizeAssertionResults(results);
+
+  return (
+    <div className="flex items-center gap-1 flex-wrap">
+      <span
+        className={`text-xs mr-1 ${
+          summary.passed === summary.total ? "text-green-400" : "text-red-400"
+        }`}
+      >
+        {formatPassRate(summary)}
+      </span>
+      {results.map((result) => {
+        const assertion = assertions.find((a) => a.id === result.assertionId);
+        if (!assertion) return null;
+        return (
+          <Badge
+            key={result.assertionId}
+            variant="outline"
+            className={`text-xs font-normal gap-1 ${
+              result.passed
+                ? "border-green-500/50 text-green-400"
+                : "border-red-500/50 text-red-400"
+            }`}
+            title={result.message || (result.passed ? "Passed" : "Failed")}
+          >
+            {result.passed ? (
+              <Check className="h-3 w-3" />
+            ) : (
+              <X className="h-3 w-3" />
+            )}
+            {describeAssertion(assertion)}
+          </Badge>
+        );
+      })}
+    </div>
+  );
+}
@@ -15,7 +15,6 @@ import { ScrollArea } from "./ui/scroll-area";
 import {
   Card,
   CardContent,
-  CardDescription,
   CardHeader,
   CardTitle,
 } from "./ui/card";
@@ -29,28 +28,7 @@ import {
   ChevronRight,
 } from "lucide-react";
 import { Switch } from "./ui/switch";
-
-interface VariableInputProps {
-  variable: string;
-  value: string;
-  onChange: (value: string) => void;
-}
-
-function VariableInput({ variable, value, onChange }: VariableInputProps) {
-  return (
-    <div className="space-y-1">
-      <label className="text-xs font-medium text-muted-foreground">
-        {variable}
-      </label>
-      <Input
-        value={value}
-        onChange={(e) => onChange(e.target.value)}
-        placeholder={`Enter value for ${variable}`}
-        className="h-8"
-      />
-    </div>
-  );
-}
+import { VariablesManager } from "./VariablesManager";
 
 interface CustomParameterRowProps {
   paramKey: string;
@@ -168,14 +146,11 @@ export function RightPanel() {
   const {
     apiConfiguration,
     configPresets,
-    detectedVariables,
-    variableValues,
     isMissionControlOpen,
     setAPIConfiguration,
     saveConfigPreset,
     loadConfigPreset,
     deleteConfigPreset,
-    updateVariableValues,
     setMissionControlOpen,
   } = useAppStore();
 
@@ -192,10 +167,6 @@ export function RightPanel() {
     }
   };
 
-  const handleVariableChange = (variable: string, value: string) => {
-    updateVariableValues({ [variable]: value });
-  };
-
   const handleNewParamValueChange = (value: string) => {
     setNewParamValue(value);
     if (value.trim() === "") {
@@ -533,26 +504,11 @@ export function RightPanel() {
           </Card>
 
           {/* Variables */}
-          {detectedVariables.length > 0 && (
-            <Card>
-              <CardHeader className="pb-2">
-                <CardTitle className="text-sm">Variables</CardTitle>
-                <CardDescription className="text-xs">
-                  Variables detected in your prompts
-                </CardDescription>
-              </CardHeader>
-              <CardContent className="space-y-3">
-                {detectedVariables.map((variable) => (
-                  <VariableInput
-                    key={variable}
-                    variable={variable}
-                    value={variableValues[variable] || ""}
-                    onChange={(value) => handleVariableChange(variable, value)}
-                  />
-                ))}
-              </CardContent>
-            </Card>
-          )}
+          <Card>
+            <CardContent className="pt-4">
+              <VariablesManager />
+            </CardContent>
+          </Card>
         </div>
       </ScrollArea>
     </div>
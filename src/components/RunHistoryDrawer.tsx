@@ -0,0 +1,479 @@
+import { useState } from "react";
+import { useAppStore } from "../store/useAppStore";
+import type { RunRecord } from "../store/useAppStore";
+import { Button } from "./ui/button";
+import { Badge } from "./ui/badge";
+import { ScrollArea } from "./ui/scroll-area";
+import {
+  ArrowLeft,
+  ChevronDown,
+  ChevronRight,
+  Columns,
+  History,
+  RotateCcw,
+  Star,
+  Trash2,
+  X,
+} from "lucide-react";
+import { MarkdownOutput, ReasoningBlock, ToolCallCard } from "./OutputBlocks";
+import { DiffViewer } from "./DiffViewer";
+import { runOutputText, runRequestText } from "../utils/runHistory";
+import { formatTokenUsage } from "../utils/tokenCounter";
+
+type RunFilter = "session" | "starred" | "all";
+
+const runFilterLabels: Record<RunFilter, string> = {
+  session: "This session",
+  starred: "Starred",
+  all: "All",
+};
+
+// Configuration fields worth showing next to a run
+const configurationFields = [
+  "temperature",
+  "topP",
+  "maxTokens",
+  "frequencyPenalty",
+  "presencePenalty",
+] as const;
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+
+const formatUsage = (run: RunRecord) =>
+  run.usage
+    ? formatTokenUsage(run.usage)
+    : `${run.metrics.totalTokens} streamed`;
+
+const previewOf = (run: RunRecord) =>
+  run.error ||
+  run.output.trim().split("\n")[0] ||
+  run.toolCalls.map((call) => `${call.name}(…)`).join(", ") ||
+  "Empty output";
+
+function FinishBadge({ run }: { run: RunRecord }) {
+  if (run.error) {
+    return (
+      <Badge variant="destructive" className="text-xs">
+        error
+      </Badge>
+    );
+  }
+  return run.finishReason ? (
+    <Badge variant="outline" className="text-xs">
+      {run.finishReason}
+    </Badge>
+  ) : null;
+}
+
+function RunFacts({ run }: { run: RunRecord }) {
+  const facts: [string, string][] = [
+    ["Model", `${run.configuration.provider} · ${run.configuration.modelName}`],
+    ["Finish reason", run.finishReason ?? "not reported"],
+    ["Tokens", formatUsage(run)],
+    ["Latency", `${run.latencyMs} ms`],
+    ["Speed", `${run.metrics.tokensPerSecond} tokens/s`],
+    ...configurationFields.map(
+      (field): [string, string] => [field, String(run.configuration[field])]
+    ),
+    ...Object.entries(run.configuration.customParameters).map(
+      ([key, value]): [string, string] => [key, JSON.stringify(value)]
+    ),
+  ];
+
+  return (
+    <div className="grid grid-cols-2 gap-x-3 gap-y-1 text-xs">
+      {facts.map(([label, value]) => (
+        <div key={label} className="flex justify-between gap-2 min-w-0">
+          <span className="text-muted-foreground">{label}</span>
+          <span className="font-mono truncate" title={value}>
+            {value}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function RunOutput({ run }: { run: RunRecord }) {
+  return (
+    <div className="space-y-3">
+      {run.error && (
+        <div className="p-2 bg-destructive/10 border border-destructive/20 rounded text-xs text-destructive">
+          {run.error}
+        </div>
+      )}
+      {run.reasoning && (
+        <ReasoningBlock reasoning={run.reasoning} isStreaming={false} />
+      )}
+      {run.output && <MarkdownOutput content={run.output} isStreaming={false} />}
+      {run.toolCalls.map((toolCall) => (
+        <ToolCallCard key={toolCall.id} toolCall={toolCall} />
+      ))}
+    </div>
+  );
+}
+
+interface RunDetailsProps {
+  run: RunRecord;
+  onRestore: () => void;
+  onToggleStar: () => void;
+}
+
+function RunDetails({ run, onRestore, onToggleStar }: RunDetailsProps) {
+  const [showRequest, setShowRequest] = useState(false);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <span className="text-sm font-medium">{formatTime(run.createdAt)}</span>
+          <FinishBadge run={run} />
+        </div>
+        <div className="flex gap-1">
+          <Button variant="outline" size="sm" onClick={onToggleStar} className="h-7">
+            <Star
+              className={`h-3 w-3 mr-1 ${run.starred ? "fill-current" : ""}`}
+            />
+            {run.starred ? "Starred" : "Star"}
+          </Button>
+          <Button
+            size="sm"
+            onClick={onRestore}
+            className="h-7"
+            title="Show this output again and switch to the run's configuration"
+          >
+            <RotateCcw className="h-3 w-3 mr-1" />
+            Restore
+          </Button>
+        </div>
+      </div>
+
+      <RunFacts run={run} />
+
+      <div>
+        <button
+          type="button"
+          onClick={() => setShowRequest(!showRequest)}
+          className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+        >
+          {showRequest ? (
+            <ChevronDown className="h-3 w-3" />
+          ) : (
+            <ChevronRight className="h-3 w-3" />
+          )}
+          Request payload
+        </button>
+        {showRequest && (
+          <pre className="mt-2 p-2 bg-muted/30 rounded text-xs overflow-x-auto">
+            {`POST ${run.request.url}\n\n${JSON.stringify(
+              run.request.body,
+              null,
+              2
+            )}`}
+          </pre>
+        )}
+      </div>
+
+      <RunOutput run={run} />
+    </div>
+  );
+}
+
+type ComparisonView = "outputs" | "outputDiff" | "requestDiff";
+
+const comparisonViewLabels: Record<ComparisonView, string> = {
+  outputs: "Outputs",
+  outputDiff: "Output diff",
+  requestDiff: "Request diff",
+};
+
+function RunComparison({ runs }: { runs: RunRecord[] }) {
+  const [view, setView] = useState<ComparisonView>("outputs");
+  // Older run first, so the diff reads as what changed since
+  const [before, after] = [...runs].sort((a, b) =>
+    a.createdAt.localeCompare(b.createdAt)
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-1">
+        {(Object.keys(comparisonViewLabels) as ComparisonView[]).map((key) => (
+          <Button
+            key={key}
+            variant={view === key ? "secondary" : "ghost"}
+            size="sm"
+            onClick={() => setView(key)}
+            className="h-7 text-xs"
+          >
+            {comparisonViewLabels[key]}
+          </Button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        {[before, after].map((run) => (
+          <div key={run.id} className="min-w-0 space-y-3">
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-medium">
+                {formatTime(run.createdAt)}
+              </span>
+              <FinishBadge run={run} />
+            </div>
+            <RunFacts run={run} />
+            {view === "outputs" && <RunOutput run={run} />}
+          </div>
+        ))}
+      </div>
+
+      {view !== "outputs" && (
+        <DiffViewer
+          before={view === "outputDiff" ? runOutputText(before) : runRequestText(before)}
+          after={view === "outputDiff" ? runOutputText(after) : runRequestText(after)}
+          beforeLabel={formatTime(before.createdAt)}
+          afterLabel={formatTime(after.createdAt)}
+        />
+      )}
+    </div>
+  );
+}
+
+interface RunHistoryDrawerProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Lists past generation runs, newest first. A run can be reopened to read
+ * its output and request, starred to keep it past the history limit,
+ * compared with another run, or restored into the output panel.
+ */
+export function RunHistoryDrawer({ open, onClose }: RunHistoryDrawerProps) {
+  const {
+    runHistory,
+    currentSessionId,
+    toggleRunStar,
+    deleteRun,
+    restoreRun,
+  } = useAppStore();
+
+  const [filter, setFilter] = useState<RunFilter>("session");
+  const [openRunId, setOpenRunId] = useState<string | null>(null);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [isComparing, setIsComparing] = useState(false);
+  const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
+
+  if (!open) return null;
+
+  const runs = runHistory.filter((run) =>
+    filter === "session"
+      ? run.sessionId === currentSessionId
+      : filter === "starred"
+        ? run.starred
+        : true
+  );
+  const openRun = runHistory.find((run) => run.id === openRunId);
+  const comparedRuns = compareIds
+    .map((id) => runHistory.find((run) => run.id === id))
+    .filter((run): run is RunRecord => Boolean(run));
+
+  const toggleCompare = (id: string) =>
+    setCompareIds((prev) =>
+      prev.includes(id)
+        ? prev.filter((runId) => runId !== id)
+        : // Picking a third run replaces the oldest pick
+          [...prev, id].slice(-2)
+    );
+
+  const handleDelete = (id: string) => {
+    if (deleteConfirmId === id) {
+      deleteRun(id);
+      setCompareIds((prev) => prev.filter((runId) => runId !== id));
+      setDeleteConfirmId(null);
+    } else {
+      setDeleteConfirmId(id);
+      // Auto-cancel confirmation after 3 seconds
+      setTimeout(() => {
+        setDeleteConfirmId(null);
+      }, 3000);
+    }
+  };
+
+  const handleRestore = (id: string) => {
+    restoreRun(id);
+    onClose();
+  };
+
+  const showBack = Boolean(openRun) || isComparing;
+
+  return (
+    <div
+      className={`fixed inset-y-0 right-0 z-40 w-full ${
+        isComparing ? "max-w-5xl" : "max-w-xl"
+      } bg-background border-l border-border shadow-lg flex flex-col`}
+    >
+      {/* Header */}
+      <div className="p-4 border-b border-border flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          {showBack ? (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                setOpenRunId(null);
+                setIsComparing(false);
+              }}
+              className="h-7 w-7 p-0"
+              title="Back to the list"
+            >
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+          ) : (
+            <History className="h-4 w-4 text-muted-foreground" />
+          )}
+          <h2 className="text-lg font-semibold">
+            {isComparing ? "Compare runs" : "Run history"}
+          </h2>
+        </div>
+        <div className="flex items-center gap-1">
+          {!showBack && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsComparing(true)}
+              disabled={comparedRuns.length !== 2}
+              className="h-7"
+              title="Pick two runs with their compare buttons"
+            >
+              <Columns className="h-3 w-3 mr-1" />
+              Compare {comparedRuns.length}/2
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onClose}
+            className="h-7 w-7 p-0"
+            title="Close"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <ScrollArea className="flex-1">
+        <div className="p-4 space-y-2">
+          {isComparing ? (
+            <RunComparison runs={comparedRuns} />
+          ) : openRun ? (
+            <RunDetails
+              run={openRun}
+              onRestore={() => handleRestore(openRun.id)}
+              onToggleStar={() => toggleRunStar(openRun.id)}
+            />
+          ) : (
+            <>
+              <div className="flex gap-1">
+                {(Object.keys(runFilterLabels) as RunFilter[]).map((key) => (
+                  <Button
+                    key={key}
+                    variant={filter === key ? "secondary" : "ghost"}
+                    size="sm"
+                    onClick={() => setFilter(key)}
+                    className="h-7 text-xs"
+                  >
+                    {runFilterLabels[key]}
+                  </Button>
+                ))}
+              </div>
+
+              {runs.length === 0 && (
+                <p className="text-xs text-muted-foreground py-4 text-center">
+                  No runs yet. Every Generate step is saved here.
+                </p>
+              )}
+
+              {runs.map((run) => (
+                <div
+                  key={run.id}
+                  className="p-2 bg-card rounded border group cursor-pointer hover:bg-accent/50 transition-colors"
+                  onClick={() => setOpenRunId(run.id)}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <span className="text-xs font-medium whitespace-nowrap">
+                        {formatTime(run.createdAt)}
+                      </span>
+                      <span className="text-xs text-muted-foreground truncate">
+                        {run.configuration.modelName}
+                      </span>
+                      <FinishBadge run={run} />
+                    </div>
+                    <div
+                      className="flex gap-1"
+                      onClick={(e) => e.stopPropagation()}
+                    >
+                      <Button
+                        variant={compareIds.includes(run.id) ? "secondary" : "ghost"}
+                        size="sm"
+                        onClick={() => toggleCompare(run.id)}
+                        className="h-6 w-6 p-0"
+                        title="Pick for comparison"
+                      >
+                        <Columns className="h-3 w-3" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => toggleRunStar(run.id)}
+                        className="h-6 w-6 p-0"
+                        title={run.starred ? "Unstar" : "Star to keep this run"}
+                      >
+                        <Star
+                          className={`h-3 w-3 ${run.starred ? "fill-current" : ""}`}
+                        />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDelete(run.id)}
+                        className={`h-6 w-6 p-0 ${
+                          deleteConfirmId === run.id
+                            ? "text-destructive bg-destructive/10"
+                            : "text-muted-foreground hover:text-destructive"
+                        }`}
+                        title={
+                          deleteConfirmId === run.id
+                            ? "Click again to confirm deletion"
+                            : "Delete run"
+                        }
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  </div>
+                  <div
+                    className={`text-xs truncate mt-1 ${
+                      run.error ? "text-destructive" : "text-muted-foreground"
+                    }`}
+                  >
+                    {previewOf(run)}
+                  </div>
+                  <div className="text-xs text-muted-foreground mt-1">
+                    {run.latencyMs} ms · {formatUsage(run)}
+                  </div>
+                </div>
+              ))}
+            </>
+          )}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+}
@@ -0,0 +1,295 @@
+import { useEffect, useState } from 'react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Textarea } from './ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Plus, Trash2 } from 'lucide-react'
+
+type JSONSchema = Record<string, any>
+
+const SCHEMA_TYPES = ['string', 'number', 'integer', 'boolean', 'object', 'array'] as const
+type SchemaType = typeof SCHEMA_TYPES[number]
+
+// Nullable types imported from OpenAPI look like ["string", "null"]
+const getSchemaType = (schema: JSONSchema): SchemaType | undefined => {
+  const type = Array.isArray(schema.type) ? schema.type.find((t: string) => t !== 'null') : schema.type
+  return SCHEMA_TYPES.includes(type) ? type : undefined
+}
+
+// Drops keywords that only make sense for the previous type and seeds the
+// structure the new type needs. A nullable schema stays nullable.
+const changeSchemaType = (schema: JSONSchema, type: SchemaType): JSONSchema => {
+  const { properties, required, items, enum: _enum, ...rest } = schema
+  const isNullable = Array.isArray(schema.type) && schema.type.includes('null')
+  const next: JSONSchema = { ...rest, type: isNullable ? [type, 'null'] : type }
+  if (type === 'object') {
+    next.properties = properties || {}
+    next.required = required || []
+  }
+  if (type === 'array') {
+    next.items = items || { type: 'string' }
+  }
+  return next
+}
+
+// One value per line reads best, but only plain values survive that: text
+// with commas is fine, while values that are blank, multi-line, null or of
+// another type are shown as a JSON array instead
+const isPlainEnumValue = (value: unknown, type?: SchemaType): boolean =>
+  type === 'number' || type === 'integer'
+    ? typeof value === 'number' && isFinite(value)
+    : typeof value === 'string' && value !== '' && value === value.trim() && !value.includes('\n')
+
+const formatEnum = (values: unknown[] = [], type?: SchemaType): string =>
+  values.every(value => isPlainEnumValue(value, type))
+    ? values.join('\n')
+    : JSON.stringify(values)
+
+// Reads a JSON array as it is, or one value per line otherwise
+const parseEnum = (text: string, type?: SchemaType): unknown[] | undefined => {
+  if (text.trim().startsWith('[')) {
+    try {
+      const parsed = JSON.parse(text)
+      if (Array.isArray(parsed)) return parsed.length > 0 ? parsed : undefined
+    } catch (error) {
+      // Not JSON after all; read it line by line
+    }
+  }
+
+  const values = text.split('\n').map(value => value.trim()).filter(Boolean)
+  if (values.length === 0) return undefined
+  if (type === 'number' || type === 'integer') {
+    return values.map(Number).filter(value => !isNaN(value))
+  }
+  return values
+}
+
+interface DraftInputProps {
+  value: string
+  onCommit: (value: string) => void
+  placeholder: string
+  className?: string
+  // Enter starts a new line instead of committing
+  multiline?: boolean
+}
+
+// Commits on blur or Enter so half-typed names and lists never reach the
+// schema. A rejected commit (such as a duplicate name) reverts the draft.
+function DraftInput({ value, onCommit, placeholder, className, multiline }: DraftInputProps) {
+  const [draft, setDraft] = useState(value)
+
+  useEffect(() => {
+    setDraft(value)
+  }, [value])
+
+  const commit = () => {
+    if (draft !== value) {
+      onCommit(draft)
+      setDraft(value)
+    }
+  }
+
+  if (multiline) {
+    return (
+      <Textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        placeholder={placeholder}
+        className={className}
+      />
+    )
+  }
+
+  return (
+    <Input
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+      placeholder={placeholder}
+      className={className}
+    />
+  )
+}
+
+interface SchemaFieldsProps {
+  schema: JSONSchema
+  onChange: (schema: JSONSchema) => void
+}
+
+// Type-specific fields: enum values, object properties, array items
+function SchemaFields({ schema, onChange }: SchemaFieldsProps) {
+  const type = getSchemaType(schema)
+
+  if (type === 'object') {
+    return <PropertiesEditor schema={schema} onChange={onChange} />
+  }
+
+  if (type === 'array') {
+    const items: JSONSchema = schema.items || {}
+    return (
+      <div className="space-y-1 border-l pl-2">
+        <div className="flex items-center gap-1">
+          <span className="text-xs text-muted-foreground">Items</span>
+          <TypeSelect
+            value={getSchemaType(items)}
+            onChange={(itemType) => onChange({ ...schema, items: changeSchemaType(items, itemType) })}
+          />
+        </div>
+        <SchemaFields schema={items} onChange={(nextItems) => onChange({ ...schema, items: nextItems })} />
+      </div>
+    )
+  }
+
+  if (type === 'string' || type === 'number' || type === 'integer') {
+    return (
+      <DraftInput
+        multiline
+        value={formatEnum(schema.enum, type)}
+        onCommit={(text) => {
+          const { enum: _enum, ...rest } = schema
+          const values = parseEnum(text, type)
+          onChange(values ? { ...rest, enum: values } : rest)
+        }}
+        placeholder="Allowed values, one per line or as a JSON array (optional)"
+        className="min-h-[56px] text-xs font-mono"
+      />
+    )
+  }
+
+  return null
+}
+
+interface TypeSelectProps {
+  value?: SchemaType
+  onChange: (type: SchemaType) => void
+}
+
+function TypeSelect({ value, onChange }: TypeSelectProps) {
+  return (
+    <Select value={value} onValueChange={(type: SchemaType) => onChange(type)}>
+      <SelectTrigger className="h-7 w-24 text-xs">
+        <SelectValue placeholder="other" />
+      </SelectTrigger>
+      <SelectContent>
+        {SCHEMA_TYPES.map(type => (
+          <SelectItem key={type} value={type}>{type}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
+
+interface PropertiesEditorProps {
+  schema: JSONSchema
+  onChange: (schema: JSONSchema) => void
+}
+
+function PropertiesEditor({ schema, onChange }: PropertiesEditorProps) {
+  const properties: Record<string, JSONSchema> = schema.properties || {}
+  const required: string[] = schema.required || []
+  const names = Object.keys(properties)
+
+  const updateProperty = (name: string, property: JSONSchema) => {
+    onChange({ ...schema, properties: { ...properties, [name]: property } })
+  }
+
+  // Rebuilt from entries so the property keeps its position
+  const renameProperty = (name: string, newName: string) => {
+    const trimmed = newName.trim()
+    if (!trimmed || trimmed === name || trimmed in properties) return
+    onChange({
+      ...schema,
+      properties: Object.fromEntries(
+        Object.entries(properties).map(([key, value]) => [key === name ? trimmed : key, value])
+      ),
+      required: required.map(key => (key === name ? trimmed : key))
+    })
+  }
+
+  const removeProperty = (name: string) => {
+    const { [name]: _removed, ...rest } = properties
+    onChange({ ...schema, properties: rest, required: required.filter(key => key !== name) })
+  }
+
+  const toggleRequired = (name: string) => {
+    onChange({
+      ...schema,
+      required: required.includes(name) ? required.filter(key => key !== name) : [...required, name]
+    })
+  }
+
+  const addProperty = () => {
+    let name = 'property'
+    for (let suffix = 2; name in properties; suffix++) {
+      name = `property_${suffix}`
+    }
+    updateProperty(name, { type: 'string', description: '' })
+  }
+
+  return (
+    <div className="space-y-2 border-l pl-2">
+      {names.map(name => {
+        const property = properties[name]
+        return (
+          <div key={name} className="space-y-1">
+            <div className="flex items-center gap-1">
+              <DraftInput
+                value={name}
+                onCommit={(newName) => renameProperty(name, newName)}
+                placeholder="Property name"
+                className="h-7 flex-1 font-mono text-xs"
+              />
+              <TypeSelect
+                value={getSchemaType(property)}
+                onChange={(type) => updateProperty(name, changeSchemaType(property, type))}
+              />
+              <label className="flex items-center gap-1 text-xs text-muted-foreground" title="Required">
+                <input
+                  type="checkbox"
+                  checked={required.includes(name)}
+                  onChange={() => toggleRequired(name)}
+                />
+                req
+              </label>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => removeProperty(name)}
+                className="h-6 w-6 p-0 text-destructive hover:text-destructive"
+                title="Remove property"
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+            <Input
+              value={property.description || ''}
+              onChange={(e) => updateProperty(name, { ...property, description: e.target.value })}
+              placeholder="Description shown to the model"
+              className="h-7 text-xs"
+            />
+            <SchemaFields schema={property} onChange={(next) => updateProperty(name, next)} />
+          </div>
+        )
+      })}
+      <Button variant="ghost" size="sm" onClick={addProperty} className="h-6 text-xs">
+        <Plus className="h-3 w-3 mr-1" />
+        Property
+      </Button>
+    </div>
+  )
+}
+
+interface SchemaBuilderProps {
+  schema: JSONSchema
+  onChange: (schema: JSONSchema) => void
+}
+
+/**
+ * Form view of a tool's parameter schema. Keywords the form has no field for
+ * are carried through untouched, so switching back to raw JSON loses nothing.
+ */
+export function SchemaBuilder({ schema, onChange }: SchemaBuilderProps) {
+  return <PropertiesEditor schema={schema} onChange={onChange} />
+}
@@ -0,0 +1,203 @@
+import { useState } from 'react'
+import { useAppStore } from '../store/useAppStore'
+import type { Snippet } from '../store/useAppStore'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Textarea } from './ui/textarea'
+import { Badge } from './ui/badge'
+import { Plus, Edit2, Trash2, Puzzle, ChevronDown, ChevronRight } from 'lucide-react'
+import { findTemplateError } from '../utils/templateEngine'
+import { findSnippetDependencies, validateSnippetName } from '../utils/snippets'
+
+interface SnippetEditFormProps {
+  snippet?: Snippet
+  snippets: Snippet[]
+  onSave: (name: string, content: string) => void
+  onCancel: () => void
+}
+
+function SnippetEditForm({ snippet, snippets, onSave, onCancel }: SnippetEditFormProps) {
+  const [name, setName] = useState(snippet?.name || '')
+  const [content, setContent] = useState(snippet?.content || '')
+
+  const nameError = name ? validateSnippetName(name.trim(), snippets, snippet?.id) : null
+  const templateError = findTemplateError(content)
+
+  return (
+    <div className="space-y-2 p-2 bg-card rounded border">
+      <Input
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder="Snippet name, e.g. safety_policy"
+        className="h-7 text-xs font-mono"
+      />
+      {nameError && <p className="text-xs text-destructive">{nameError}</p>}
+      {snippet && name.trim() !== snippet.name && (
+        <p className="text-xs text-muted-foreground">
+          Prompts that include {`{{> ${snippet.name}}}`} are not renamed with it
+        </p>
+      )}
+      <Textarea
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+        placeholder="Text to include; may use variables and other snippets"
+        className="min-h-[100px] text-xs"
+      />
+      {templateError && <p className="text-xs text-destructive">{templateError.message}</p>}
+      <div className="flex justify-end gap-1">
+        <Button variant="outline" size="sm" onClick={onCancel} className="h-7">
+          Cancel
+        </Button>
+        <Button
+          size="sm"
+          onClick={() => onSave(name.trim(), content)}
+          disabled={!name.trim() || Boolean(nameError)}
+          className="h-7"
+        >
+          Save
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+export function SnippetsSection() {
+  const {
+    snippets,
+    systemPrompt,
+    messages,
+    saveSnippet,
+    updateSnippet,
+    deleteSnippet
+  } = useAppStore()
+
+  const [isCollapsed, setIsCollapsed] = useState(true)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [isCreating, setIsCreating] = useState(false)
+  const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null)
+
+  // Snippets this session pulls in, directly or through other snippets
+  const usedHere = new Set(
+    [systemPrompt, ...messages.map(message => message.content)].flatMap(text =>
+      findSnippetDependencies(text, snippets).map(dependency => dependency.name)
+    )
+  )
+
+  const handleCreate = (name: string, content: string) => {
+    saveSnippet(name, content)
+    setIsCreating(false)
+  }
+
+  const handleUpdate = (id: string, name: string, content: string) => {
+    updateSnippet(id, { name, content })
+    setEditingId(null)
+  }
+
+  const handleDelete = (id: string) => {
+    if (deleteConfirmId === id) {
+      deleteSnippet(id)
+      setDeleteConfirmId(null)
+    } else {
+      setDeleteConfirmId(id)
+      // Auto-cancel confirmation after 3 seconds
+      setTimeout(() => {
+        setDeleteConfirmId(null)
+      }, 3000)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      {/* Header */}
+      <div
+        className="flex items-center justify-between cursor-pointer p-2 hover:bg-accent/50 rounded transition-colors"
+        onClick={() => setIsCollapsed(!isCollapsed)}
+      >
+        <div className="flex items-center gap-2">
+          <Puzzle className="h-4 w-4 text-muted-foreground" />
+          <h3 className="text-sm font-medium">Snippets</h3>
+          {snippets.length > 0 && (
+            <Badge variant="secondary" className="text-xs">
+              {snippets.length}
+            </Badge>
+          )}
+        </div>
+        {isCollapsed ? (
+          <ChevronRight className="h-4 w-4 text-muted-foreground" />
+        ) : (
+          <ChevronDown className="h-4 w-4 text-muted-foreground" />
+        )}
+      </div>
+
+      {!isCollapsed && (
+        <div className="space-y-2">
+          <p className="text-xs text-muted-foreground">
+            Include a snippet in any prompt or message with {'{{> name}}'}. Snippets are shared by
+            all sessions, so an edit applies everywhere they are included.
+          </p>
+
+          {snippets.map(snippet =>
+            editingId === snippet.id ? (
+              <SnippetEditForm
+                key={snippet.id}
+                snippet={snippet}
+                snippets={snippets}
+                onSave={(name, content) => handleUpdate(snippet.id, name, content)}
+                onCancel={() => setEditingId(null)}
+              />
+            ) : (
+              <div key={snippet.id} className="flex items-start justify-between p-2 bg-card rounded border group">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-1">
+                    <span className="text-xs font-mono font-medium">{snippet.name}</span>
+                    {usedHere.has(snippet.name) && (
+                      <Badge variant="outline" className="text-xs">Used here</Badge>
+                    )}
+                  </div>
+                  <div className="text-xs text-muted-foreground truncate">
+                    {snippet.content || 'Empty'}
+                  </div>
+                </div>
+                <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setEditingId(snippet.id)}
+                    className="h-6 w-6 p-0"
+                    title="Edit snippet"
+                  >
+                    <Edit2 className="h-3 w-3" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDelete(snippet.id)}
+                    className={`h-6 w-6 p-0 ${
+                      deleteConfirmId === snippet.id ? 'text-destructive bg-destructive/10' : 'text-muted-foreground hover:text-destructive'
+                    }`}
+                    title={deleteConfirmId === snippet.id ? 'Click again to confirm deletion' : 'Delete snippet'}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              </div>
+            )
+          )}
+
+          {isCreating ? (
+            <SnippetEditForm
+              snippets={snippets}
+              onSave={handleCreate}
+              onCancel={() => setIsCreating(false)}
+            />
+          ) : (
+            <Button variant="outline" size="sm" onClick={() => setIsCreating(true)} className="w-full h-7">
+              <Plus className="h-3 w-3 mr-1" />
+              New snippet
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,483 @@
+import { useRef, useState } from 'react'
+import { useAppStore } from '../store/useAppStore'
+import { apiService } from '../services/apiService'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Badge } from './ui/badge'
+import { ScrollArea } from './ui/scroll-area'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from './ui/dialog'
+import { Download, Loader2, Play, Plus, Square, X } from 'lucide-react'
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from 'recharts'
+import {
+  MAX_SWEEP_CELLS,
+  applySweepValues,
+  buildSweepGrid,
+  formatSweepValue,
+  parseSweepValues,
+  sweepAxisLabel,
+  sweepConfigParameters,
+  validateSweepAxis
+} from '../utils/sweep'
+import type { SweepAxis, SweepCell } from '../utils/sweep'
+import { formatDataset } from '../utils/dataset'
+import type { DatasetFormat } from '../utils/dataset'
+import { runWithConcurrency } from '../utils/concurrency'
+
+type SweepCellStatus = 'pending' | 'running' | 'done' | 'error' | 'stopped'
+
+interface SweepCellResult {
+  status: SweepCellStatus
+  output: string
+  latencyMs?: number
+  // As reported by the provider
+  outputTokens?: number
+  error?: string
+}
+
+// What the user is editing for one axis, before it is parsed
+interface AxisDraft {
+  parameter: string
+  customKey: string
+  valuesText: string
+}
+
+type ChartMetric = 'length' | 'latencyMs' | 'outputTokens'
+
+const MAX_CONCURRENCY = 10
+
+// Select values are `config:<field>` or `custom:<key>`
+const NEW_CUSTOM_PARAMETER = 'custom:'
+
+const chartMetricLabels: Record<ChartMetric, string> = {
+  length: 'Output length (characters)',
+  latencyMs: 'Latency (ms)',
+  outputTokens: 'Output tokens (reported)'
+}
+
+const seriesColors = ['#60a5fa', '#f472b6', '#34d399', '#fbbf24', '#a78bfa', '#f87171', '#2dd4bf', '#fb923c']
+
+const statusVariants: Record<SweepCellStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  pending: 'outline',
+  running: 'secondary',
+  done: 'default',
+  error: 'destructive',
+  stopped: 'outline'
+}
+
+const defaultDrafts: AxisDraft[] = [
+  { parameter: 'config:temperature', customKey: '', valuesText: '0..1 step 0.25' }
+]
+
+const toAxis = (draft: AxisDraft): { axis?: SweepAxis, error?: string } => {
+  const isCustom = draft.parameter.startsWith('custom:')
+  const key = draft.parameter === NEW_CUSTOM_PARAMETER
+    ? draft.customKey.trim()
+    : draft.parameter.slice(draft.parameter.indexOf(':') + 1)
+
+  try {
+    const axis: SweepAxis = {
+      source: isCustom ? 'custom' : 'config',
+      key,
+      values: parseSweepValues(draft.valuesText)
+    }
+    const error = validateSweepAxis(axis)
+    return error ? { error } : { axis }
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) }
+  }
+}
+
+const cellLength = (result?: SweepCellResult) => result?.output.length ?? 0
+
+interface SweepDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+/**
+ * Runs the session's prompt once for every combination of values of one or
+ * two configuration parameters, and lays the outputs out as a matrix with a
+ * chart of their length, latency or reported output tokens.
+ */
+export function SweepDialog({ open, onOpenChange }: SweepDialogProps) {
+  const {
+    apiConfiguration,
+    tools,
+    toolChoice,
+    getProcessedPrompt,
+    getProcessedMessages
+  } = useAppStore()
+
+  const [drafts, setDrafts] = useState<AxisDraft[]>(defaultDrafts)
+  const [concurrency, setConcurrency] = useState(3)
+  const [runAxes, setRunAxes] = useState<SweepAxis[]>([])
+  const [cells, setCells] = useState<SweepCell[]>([])
+  const [results, setResults] = useState<SweepCellResult[]>([])
+  const [runError, setRunError] = useState('')
+  const [isRunning, setIsRunning] = useState(false)
+  const [chartMetric, setChartMetric] = useState<ChartMetric>('length')
+  const abortRef = useRef<AbortController | null>(null)
+
+  const customKeys = Object.keys(apiConfiguration.customParameters)
+  const parsed = drafts.map(toAxis)
+  const axes = parsed.map(p => p.axis).filter((axis): axis is SweepAxis => Boolean(axis))
+  const duplicateParameter = drafts.length === 2 && axes.length === 2 &&
+    axes[0].source === axes[1].source && axes[0].key === axes[1].key
+  const cellCount = axes.reduce((count, axis) => count * axis.values.length, 1)
+  const tooManyCells = axes.length === drafts.length && cellCount > MAX_SWEEP_CELLS
+  const canRun = axes.length === drafts.length && !duplicateParameter && !tooManyCells
+
+  const updateDraft = (index: number, update: Partial<AxisDraft>) =>
+    setDrafts(prev => prev.map((draft, i) => (i === index ? { ...draft, ...update } : draft)))
+
+  const updateResult = (index: number, result: Partial<SweepCellResult>) =>
+    setResults(prev => prev.map((r, i) => (i === index ? { ...r, ...result } : r)))
+
+  const handleRun = async () => {
+    let prompt: string
+    let messages: ReturnType<typeof getProcessedMessages>
+    try {
+      prompt = getProcessedPrompt()
+      messages = getProcessedMessages()
+    } catch (error) {
+      setRunError(error instanceof Error ? error.message : String(error))
+      return
+    }
+
+    const grid = buildSweepGrid(axes)
+    const controller = new AbortController()
+    abortRef.current = controller
+    setRunError('')
+    setRunAxes(axes)
+    setCells(grid)
+    setResults(grid.map(() => ({ status: 'pending', output: '' })))
+    setIsRunning(true)
+
+    await runWithConcurrency(grid, concurrency, async (cell, index) => {
+      updateResult(index, { status: 'running' })
+      try {
+        const run = await apiService.complete(
+          prompt,
+          messages,
+          applySweepValues(apiConfiguration, axes, cell.values),
+          tools,
+          toolChoice,
+          controller.signal
+        )
+        updateResult(index, {
+          status: 'done',
+          output: run.content || (run.toolCalls.length > 0 ? JSON.stringify(run.toolCalls) : ''),
+          latencyMs: run.latencyMs,
+          outputTokens: run.usage?.outputTokens
+        })
+      } catch (error) {
+        if (controller.signal.aborted) {
+          updateResult(index, { status: 'stopped' })
+        } else {
+          updateResult(index, {
+            status: 'error',
+            error: error instanceof Error ? error.message : String(error)
+          })
+        }
+      }
+    }, controller.signal)
+
+    // Cells that never started
+    setResults(prev => prev.map(r => (r.status === 'pending' ? { ...r, status: 'stopped' } : r)))
+    abortRef.current = null
+    setIsRunning(false)
+  }
+
+  const handleStop = () => abortRef.current?.abort()
+
+  const handleExport = (format: DatasetFormat) => {
+    const labels = runAxes.map(sweepAxisLabel)
+    const rows = cells.map(cell => ({
+      ...Object.fromEntries(labels.map((label, i) => [label, cell.values[i]])),
+      output: results[cell.index]?.output ?? '',
+      length: cellLength(results[cell.index]),
+      latency_ms: results[cell.index]?.latencyMs ?? '',
+      output_tokens: results[cell.index]?.outputTokens ?? '',
+      error: results[cell.index]?.error ?? ''
+    }))
+    const columns = [...labels, 'output', 'length', 'latency_ms', 'output_tokens', 'error']
+
+    const blob = new Blob([formatDataset(rows, columns, format)], {
+      type: format === 'csv' ? 'text/csv' : 'application/x-ndjson'
+    })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = `sweep-${runAxes.map(axis => axis.key).join('-')}.${format}`
+    a.click()
+    URL.revokeObjectURL(url)
+  }
+
+  // The first axis runs down the rows, the second (if any) across the columns
+  const [rowAxis, columnAxis] = runAxes
+  const columnValues = columnAxis ? columnAxis.values : [undefined]
+  const resultAt = (row: number, column: number) => results[row * columnValues.length + column]
+
+  const metricOf = (result?: SweepCellResult) => {
+    if (result?.status !== 'done') return null
+    return chartMetric === 'length' ? cellLength(result) : result[chartMetric] ?? null
+  }
+  const seriesKeys = columnValues.map(value =>
+    value === undefined ? chartMetricLabels[chartMetric] : `${sweepAxisLabel(columnAxis)} ${formatSweepValue(value)}`
+  )
+  const chartData = rowAxis
+    ? rowAxis.values.map((value, row) => ({
+        value: formatSweepValue(value),
+        ...Object.fromEntries(seriesKeys.map((key, column) => [key, metricOf(resultAt(row, column))]))
+      }))
+    : []
+
+  const finished = results.filter(r => r.status === 'done' || r.status === 'error')
+  const errorCount = results.filter(r => r.status === 'error').length
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isRunning && onOpenChange(isOpen)}>
+      <DialogContent className="max-w-6xl">
+        <DialogHeader>
+          <DialogTitle>Parameter Sweep</DialogTitle>
+          <DialogDescription>
+            Vary one or two parameters over a list (0.2, 0.7, 1) or a range (0..1 step 0.25) and
+            run the current prompt once for every combination.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {drafts.map((draft, index) => (
+            <div key={index} className="space-y-1">
+              <div className="flex items-center gap-2">
+                <Select
+                  value={draft.parameter}
+                  onValueChange={(parameter) => updateDraft(index, { parameter })}
+                  disabled={isRunning}
+                >
+                  <SelectTrigger className="h-8 w-48 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(sweepConfigParameters).map(([key, label]) => (
+                      <SelectItem key={key} value={`config:${key}`}>{label}</SelectItem>
+                    ))}
+                    {customKeys.map(key => (
+                      <SelectItem key={key} value={`custom:${key}`}>{key}</SelectItem>
+                    ))}
+                    <SelectItem value={NEW_CUSTOM_PARAMETER}>Other custom parameter…</SelectItem>
+                  </SelectContent>
+                </Select>
+                {draft.parameter === NEW_CUSTOM_PARAMETER && (
+                  <Input
+                    value={draft.customKey}
+                    onChange={(e) => updateDraft(index, { customKey: e.target.value })}
+                    placeholder="Parameter key, e.g. top_k"
+                    className="h-8 w-40 text-xs font-mono"
+                    disabled={isRunning}
+                  />
+                )}
+                <Input
+                  value={draft.valuesText}
+                  onChange={(e) => updateDraft(index, { valuesText: e.target.value })}
+                  placeholder="0, 0.5, 1 or 0..1 step 0.25"
+                  className="h-8 flex-1 text-xs font-mono"
+                  disabled={isRunning}
+                />
+                {drafts.length > 1 && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setDrafts(prev => prev.filter((_, i) => i !== index))}
+                    className="h-8 w-8 p-0"
+                    disabled={isRunning}
+                    title="Remove parameter"
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                )}
+              </div>
+              {parsed[index].error ? (
+                <p className="text-xs text-destructive">{parsed[index].error}</p>
+              ) : (
+                <p className="text-xs text-muted-foreground">
+                  {parsed[index].axis?.values.map(formatSweepValue).join(', ')}
+                </p>
+              )}
+            </div>
+          ))}
+
+          <div className="flex items-center gap-2 flex-wrap">
+            {drafts.length < 2 && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setDrafts(prev => [...prev, { parameter: 'config:topP', customKey: '', valuesText: '0.5, 1' }])}
+                className="h-8"
+                disabled={isRunning}
+              >
+                <Plus className="h-3 w-3 mr-1" />
+                Second parameter
+              </Button>
+            )}
+            {duplicateParameter && (
+              <span className="text-xs text-destructive">Pick two different parameters</span>
+            )}
+            {tooManyCells && (
+              <span className="text-xs text-destructive">
+                {cellCount} runs, at most {MAX_SWEEP_CELLS} are allowed
+              </span>
+            )}
+            <div className="flex items-center gap-1 ml-auto">
+              <label className="text-xs text-muted-foreground">Concurrency</label>
+              <Input
+                type="number"
+                min={1}
+                max={MAX_CONCURRENCY}
+                value={concurrency}
+                onChange={(e) => setConcurrency(Math.min(MAX_CONCURRENCY, Math.max(1, Number(e.target.value) || 1)))}
+                className="h-8 w-16"
+                disabled={isRunning}
+              />
+              {isRunning ? (
+                <Button size="sm" variant="destructive" onClick={handleStop} className="h-8">
+                  <Square className="h-3 w-3 mr-1" />
+                  Stop
+                </Button>
+              ) : (
+                <Button size="sm" onClick={handleRun} disabled={!canRun} className="h-8">
+                  <Play className="h-3 w-3 mr-1" />
+                  Run {canRun ? cellCount : ''} combinations
+                </Button>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {runError && <div className="text-xs text-destructive">{runError}</div>}
+
+        {rowAxis && results.length > 0 && (
+          <ScrollArea className="h-[55vh]">
+            <div className="space-y-3 pr-3">
+              <div className="flex items-center justify-between">
+                <span className="text-xs text-muted-foreground">
+                  {finished.length}/{results.length} finished
+                  {errorCount > 0 && ` · ${errorCount} failed`}
+                </span>
+                <div className="flex gap-1">
+                  <Select value={chartMetric} onValueChange={(value) => setChartMetric(value as ChartMetric)}>
+                    <SelectTrigger className="h-7 w-52 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(chartMetricLabels).map(([metric, label]) => (
+                        <SelectItem key={metric} value={metric}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button variant="outline" size="sm" onClick={() => handleExport('csv')} disabled={isRunning} className="h-7 text-xs">
+                    <Download className="h-3 w-3 mr-1" />
+                    CSV
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => handleExport('jsonl')} disabled={isRunning} className="h-7 text-xs">
+                    <Download className="h-3 w-3 mr-1" />
+                    JSONL
+                  </Button>
+                </div>
+              </div>
+
+              <div className="h-56 rounded border p-2">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={chartData}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                    <XAxis dataKey="value" stroke="hsl(var(--muted-foreground))" fontSize={11} />
+                    <YAxis stroke="hsl(var(--muted-foreground))" fontSize={11} />
+                    <Tooltip
+                      contentStyle={{ background: 'hsl(var(--popover))', border: '1px solid hsl(var(--border))', fontSize: 12 }}
+                      labelFormatter={(label) => `${sweepAxisLabel(rowAxis)} ${label}`}
+                    />
+                    {columnAxis && <Legend wrapperStyle={{ fontSize: 11 }} />}
+                    {seriesKeys.map((key, i) => (
+                      <Line
+                        key={key}
+                        type="monotone"
+                        dataKey={key}
+                        stroke={seriesColors[i % seriesColors.length]}
+                        connectNulls
+                        isAnimationActive={false}
+                      />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+
+              <table className="w-full text-xs">
+                <thead className="bg-card">
+                  <tr className="text-left text-muted-foreground">
+                    <th className="p-2 font-medium font-mono whitespace-nowrap">
+                      {sweepAxisLabel(rowAxis)}
+                      {columnAxis && ` \\ ${sweepAxisLabel(columnAxis)}`}
+                    </th>
+                    {columnValues.map((value, column) => (
+                      <th key={column} className="p-2 font-medium font-mono">
+                        {value === undefined ? 'Output' : formatSweepValue(value)}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {rowAxis.values.map((rowValue, row) => (
+                    <tr key={row} className="border-t border-border align-top">
+                      <td className="p-2 font-mono">{formatSweepValue(rowValue)}</td>
+                      {columnValues.map((_, column) => {
+                        const result = resultAt(row, column)
+                        return (
+                          <td key={column} className="p-2 min-w-[12rem]">
+                            {result?.status !== 'done' ? (
+                              result?.error ? (
+                                <span className="text-destructive">{result.error}</span>
+                              ) : (
+                                <Badge variant={statusVariants[result?.status ?? 'pending']} className="text-xs">
+                                  {result?.status === 'running' && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+                                  {result?.status ?? 'pending'}
+                                </Badge>
+                              )
+                            ) : (
+                              <>
+                                <div className="whitespace-pre-wrap max-h-32 overflow-y-auto">{result.output}</div>
+                                <div className="mt-1 text-muted-foreground">
+                                  {cellLength(result)} chars · {result.latencyMs} ms
+                                  {result.outputTokens !== undefined && ` · ${result.outputTokens} output tokens`}
+                                </div>
+                              </>
+                            )}
+                          </td>
+                        )
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -8,8 +8,21 @@ import { ScrollArea } from './ui/scroll-area'
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
 import { Switch } from './ui/switch'
 import { Badge } from './ui/badge'
-import { Plus, Edit2, Trash2, Save, X, Wrench, ChevronDown, ChevronRight, Download, Upload } from 'lucide-react'
-import type { Tool } from '../store/useAppStore'
+import { Plus, Edit2, Trash2, Save, X, Wrench, ChevronDown, ChevronRight, Download, Upload, Play, Loader2, FileCode, Copy, Plug } from 'lucide-react'
+import type { MCPServer, Tool, ToolChoiceMode, ToolResponseSource } from '../store/useAppStore'
+import {
+  defaultToolMockResponse,
+  toolExecutionService,
+  TOOL_IMPLEMENTATION_TIMEOUT_MS
+} from '../services/toolExecutionService'
+import { parseToolArguments } from '../utils/toolArguments'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs'
+import { OpenAPIImportDialog } from './OpenAPIImportDialog'
+import { MCPConnectDialog } from './MCPConnectDialog'
+import { exportTools, importTools, toolSetFormatLabels } from '../utils/toolFormats'
+import type { ToolSetFormat } from '../utils/toolFormats'
+import { SchemaBuilder } from './SchemaBuilder'
+import { formatViolation, validateToolName, validateToolParameters } from '../utils/toolSchema'
 
 interface ToolEditFormProps {
   tool?: Tool
@@ -29,17 +42,57 @@ function ToolEditForm({ tool, onSave, onCancel }: ToolEditFormProps) {
     }, null, 2)
   )
   const [jsonError, setJsonError] = useState('')
+  const { apiConfiguration } = useAppStore()
+  const provider = apiConfiguration.provider
+  const nameError = name.trim() ? validateToolName(name.trim(), provider) : null
+
+  // The raw JSON is the source of truth; the builder edits its parsed form
+  const parsedParameters = (() => {
+    try {
+      return JSON.parse(parametersJson)
+    } catch (error) {
+      return undefined
+    }
+  })()
+
+  // Checked on every edit so schema problems show up while typing
+  const schemaErrors = parsedParameters === undefined
+    ? []
+    : validateToolParameters(parsedParameters).map(formatViolation)
+  const [mockResponse, setMockResponse] = useState(tool?.mockResponse ?? defaultToolMockResponse)
+  const [testArgs, setTestArgs] = useState('{}')
+  const [testResult, setTestResult] = useState<{ ok: boolean; text: string } | null>(null)
+  const [isTesting, setIsTesting] = useState(false)
+
+  const handleTestImplementation = async () => {
+    setIsTesting(true)
+    try {
+      const result = await toolExecutionService.runImplementation(
+        mockResponse.handler,
+        parseToolArguments(testArgs)
+      )
+      setTestResult({
+        ok: true,
+        text: typeof result === 'string' ? result : JSON.stringify(result, null, 2)
+      })
+    } catch (error) {
+      setTestResult({ ok: false, text: error instanceof Error ? error.message : String(error) })
+    } finally {
+      setIsTesting(false)
+    }
+  }
 
   const handleSave = () => {
-    if (!name.trim()) {
-      setJsonError('Tool name is required')
+    const nameValidationError = validateToolName(name.trim(), provider)
+    if (nameValidationError) {
+      setJsonError(nameValidationError)
       return
     }
 
     try {
       const parameters = JSON.parse(parametersJson)
-      if (!parameters.type || parameters.type !== 'object') {
-        setJsonError('Parameters must be an object with type "object"')
+      if (validateToolParameters(parameters).length > 0) {
+        setJsonError('Parameters are not a valid JSON Schema')
         return
       }
 
@@ -47,7 +100,8 @@ function ToolEditForm({ tool, onSave, onCancel }: ToolEditFormProps) {
         name: name.trim(),
         description: description.trim(),
         enabled,
-        parameters
+        parameters,
+        mockResponse
       })
       setJsonError('')
     } catch (error) {
@@ -69,8 +123,11 @@ function ToolEditForm({ tool, onSave, onCancel }: ToolEditFormProps) {
             value={name}
             onChange={(e) => setName(e.target.value)}
             placeholder="Tool name"
-            className="h-8"
+            className="h-8 font-mono"
           />
+          {nameError && (
+            <div className="text-xs text-destructive">{nameError}</div>
+          )}
         </div>
 
         <div className="space-y-1">
@@ -93,20 +150,136 @@ function ToolEditForm({ tool, onSave, onCancel }: ToolEditFormProps) {
 
         <div className="space-y-1">
           <label className="text-xs font-medium">Parameters (JSON Schema)</label>
-          <Textarea
-            value={parametersJson}
-            onChange={(e) => {
-              setParametersJson(e.target.value)
-              setJsonError('')
-            }}
-            placeholder="JSON schema for tool parameters"
-            className="h-32 resize-none font-mono text-xs"
-          />
+          <Tabs defaultValue="builder">
+            <TabsList className="h-7">
+              <TabsTrigger value="builder" className="text-xs">Builder</TabsTrigger>
+              <TabsTrigger value="json" className="text-xs">JSON</TabsTrigger>
+            </TabsList>
+            <TabsContent value="builder">
+              {parsedParameters && typeof parsedParameters === 'object' && !Array.isArray(parsedParameters) ? (
+                <SchemaBuilder
+                  schema={parsedParameters}
+                  onChange={(schema) => {
+                    setParametersJson(JSON.stringify(schema, null, 2))
+                    setJsonError('')
+                  }}
+                />
+              ) : (
+                <div className="text-xs text-muted-foreground">
+                  Fix the JSON to edit parameters in the builder.
+                </div>
+              )}
+            </TabsContent>
+            <TabsContent value="json">
+              <Textarea
+                value={parametersJson}
+                onChange={(e) => {
+                  setParametersJson(e.target.value)
+                  setJsonError('')
+                }}
+                placeholder="JSON schema for tool parameters"
+                className="h-32 resize-none font-mono text-xs"
+              />
+            </TabsContent>
+          </Tabs>
+          {schemaErrors.length > 0 && (
+            <ul className="text-xs text-destructive space-y-0.5">
+              {schemaErrors.map((error, index) => (
+                <li key={index} className="font-mono">{error}</li>
+              ))}
+            </ul>
+          )}
           {jsonError && (
             <div className="text-xs text-destructive">{jsonError}</div>
           )}
         </div>
 
+        <div className="space-y-1">
+          <label className="text-xs font-medium">Mock Response (agent loop)</label>
+          <Select
+            value={mockResponse.source}
+            onValueChange={(source: ToolResponseSource) => setMockResponse({ ...mockResponse, source })}
+          >
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="manual">Ask me each time</SelectItem>
+              <SelectItem value="fixture">Static JSON fixture</SelectItem>
+              <SelectItem value="handler">JavaScript implementation</SelectItem>
+              <SelectItem value="mcp">MCP server (tools/call)</SelectItem>
+            </SelectContent>
+          </Select>
+          {mockResponse.source === 'mcp' && (
+            <div className="space-y-1">
+              <Input
+                value={mockResponse.mcpServer?.url || ''}
+                onChange={(e) => setMockResponse({
+                  ...mockResponse,
+                  mcpServer: { ...mockResponse.mcpServer, url: e.target.value }
+                })}
+                placeholder="http://localhost:3000/mcp"
+                className="h-7 font-mono text-xs"
+              />
+              <p className="text-xs text-muted-foreground">
+                The call is sent to this server under the tool's name.
+              </p>
+            </div>
+          )}
+          {mockResponse.source === 'fixture' && (
+            <Textarea
+              value={mockResponse.fixture}
+              onChange={(e) => setMockResponse({ ...mockResponse, fixture: e.target.value })}
+              placeholder='{"temperature": 21, "unit": "celsius"}'
+              className="h-20 resize-none font-mono text-xs"
+            />
+          )}
+          {mockResponse.source === 'handler' && (
+            <div className="space-y-1">
+              <Textarea
+                value={mockResponse.handler}
+                onChange={(e) => setMockResponse({ ...mockResponse, handler: e.target.value })}
+                placeholder="// `args` holds the parsed arguments\nreturn { sum: args.a + args.b }"
+                className="h-24 resize-none font-mono text-xs"
+              />
+              <p className="text-xs text-muted-foreground">
+                Runs in a worker without DOM access and with the common network APIs hidden,
+                time-limited to {TOOL_IMPLEMENTATION_TIMEOUT_MS / 1000}s. This is not a security
+                boundary; only run code you trust.
+              </p>
+              <div className="flex gap-1">
+                <Input
+                  value={testArgs}
+                  onChange={(e) => setTestArgs(e.target.value)}
+                  placeholder='Test arguments, e.g. {"a": 1, "b": 2}'
+                  className="flex-1 h-7 font-mono text-xs"
+                />
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleTestImplementation}
+                  disabled={isTesting || !mockResponse.handler.trim()}
+                  className="h-7"
+                >
+                  {isTesting ? (
+                    <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                  ) : (
+                    <Play className="h-3 w-3 mr-1" />
+                  )}
+                  Test
+                </Button>
+              </div>
+              {testResult && (
+                <pre className={`text-xs p-2 rounded overflow-x-auto ${
+                  testResult.ok ? 'bg-muted/50' : 'bg-destructive/10 text-destructive'
+                }`}>
+                  {testResult.text}
+                </pre>
+              )}
+            </div>
+          )}
+        </div>
+
         <div className="flex gap-2 justify-end">
           <Button variant="outline" size="sm" onClick={onCancel}>
             <X className="h-3 w-3 mr-1" />
@@ -211,7 +384,11 @@ export function ToolsSection() {
     toggleTool,
     saveToolSet,
     loadToolSet,
-    deleteToolSet
+    deleteToolSet,
+    agentLoop,
+    setAgentLoopSettings,
+    toolChoice,
+    setToolChoiceSettings
   } = useAppStore()
   
   const [isEditing, setIsEditing] = useState(false)
@@ -219,6 +396,10 @@ export function ToolsSection() {
   const [newToolSetName, setNewToolSetName] = useState('')
   const [isCollapsed, setIsCollapsed] = useState(false)
   const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null)
+  const [isOpenAPIImportOpen, setIsOpenAPIImportOpen] = useState(false)
+  const [isMCPConnectOpen, setIsMCPConnectOpen] = useState(false)
+  const [exportFormat, setExportFormat] = useState<ToolSetFormat>('promptlab')
+  const [importStatus, setImportStatus] = useState('')
 
   const handleSaveTool = (toolData: Omit<Tool, 'id'>) => {
     if (editingTool) {
@@ -263,21 +444,27 @@ export function ToolsSection() {
   const exportToolSet = () => {
     if (tools.length === 0) return
     
-    const data = {
-      name: 'Exported Tool Set',
-      tools,
-      exportedAt: new Date().toISOString()
-    }
+    const data = exportTools(tools, exportFormat)
     
     const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' })
     const url = URL.createObjectURL(blob)
     const a = document.createElement('a')
     a.href = url
-    a.download = 'tools.json'
+    a.download = exportFormat === 'promptlab' ? 'tools.json' : `tools.${exportFormat}.json`
     a.click()
     URL.revokeObjectURL(url)
   }
 
+  const copyToolSet = async () => {
+    try {
+      await navigator.clipboard.writeText(JSON.stringify(exportTools(tools, exportFormat), null, 2))
+      setImportStatus(`Copied as ${toolSetFormatLabels[exportFormat]}`)
+    } catch (error) {
+      console.error('Failed to copy tools:', error)
+    }
+  }
+
+  // The format is detected from the file, so any supported export loads back
   const importToolSet = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0]
     if (!file) return
@@ -285,29 +472,51 @@ export function ToolsSection() {
     const reader = new FileReader()
     reader.onload = (e) => {
       try {
-        const data = JSON.parse(e.target?.result as string)
-        if (data.tools && Array.isArray(data.tools)) {
-          data.tools.forEach((tool: any) => {
-            if (tool.name && tool.parameters) {
-              addTool({
-                name: tool.name,
-                description: tool.description || '',
-                enabled: tool.enabled ?? true,
-                parameters: tool.parameters
-              })
-            }
-          })
-        }
+        const { format, tools: importedTools } = importTools(JSON.parse(e.target?.result as string))
+        importedTools.forEach(tool => addTool(tool))
+        setImportStatus(`Imported ${importedTools.length} tools (${toolSetFormatLabels[format]})`)
       } catch (error) {
         console.error('Failed to import tools:', error)
+        setImportStatus(`Import failed: ${error instanceof Error ? error.message : String(error)}`)
       }
     }
     reader.readAsText(file)
     event.target.value = '' // Reset input
   }
 
+  const handleOpenAPIImport = (toolSetName: string, importedTools: Omit<Tool, 'id'>[], addToCurrent: boolean) => {
+    saveToolSet(toolSetName, importedTools)
+    if (addToCurrent) {
+      importedTools.forEach(tool => addTool(tool))
+    }
+  }
+
+  const handleMCPImport = (
+    toolSetName: string,
+    discoveredTools: Omit<Tool, 'id'>[],
+    server: MCPServer,
+    addToCurrent: boolean
+  ) => {
+    saveToolSet(toolSetName, discoveredTools, server)
+    if (addToCurrent) {
+      discoveredTools.forEach(tool => addTool(tool))
+    }
+  }
+
   const enabledToolsCount = tools.filter(t => t.enabled).length
 
+  // A specific function is encoded as "function:<name>" in the select
+  const toolChoiceValue = toolChoice.mode === 'function'
+    ? `function:${toolChoice.functionName}`
+    : toolChoice.mode
+  const handleToolChoiceChange = (value: string) => {
+    if (value.startsWith('function:')) {
+      setToolChoiceSettings({ mode: 'function', functionName: value.slice('function:'.length) })
+    } else {
+      setToolChoiceSettings({ mode: value as ToolChoiceMode, functionName: '' })
+    }
+  }
+
   return (
     <div className="space-y-2">
       {/* Header */}
@@ -358,6 +567,7 @@ export function ToolsSection() {
                       <div className="text-xs font-medium">{toolSet.name}</div>
                       <div className="text-xs text-muted-foreground">
                         {toolSet.tools.length} tools • {new Date(toolSet.createdAt).toLocaleDateString()}
+                        {toolSet.mcpServer && ` • MCP ${toolSet.mcpServer.url}`}
                       </div>
                     </div>
                     <Button
@@ -390,6 +600,30 @@ export function ToolsSection() {
             </div>
 
             {/* Import/Export */}
+            <div className="flex gap-1">
+              <Select value={exportFormat} onValueChange={(format: ToolSetFormat) => setExportFormat(format)}>
+                <SelectTrigger className="h-7 flex-1 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(toolSetFormatLabels) as ToolSetFormat[]).map(format => (
+                    <SelectItem key={format} value={format}>
+                      {toolSetFormatLabels[format]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={copyToolSet}
+                disabled={tools.length === 0}
+                className="h-7"
+                title="Copy in the selected format"
+              >
+                <Copy className="h-3 w-3" />
+              </Button>
+            </div>
             <div className="flex gap-1">
               <Button
                 variant="outline"
@@ -416,6 +650,101 @@ export function ToolsSection() {
                 </Button>
               </label>
             </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsOpenAPIImportOpen(true)}
+              className="h-7 w-full"
+            >
+              <FileCode className="h-3 w-3 mr-1" />
+              Import from OpenAPI
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsMCPConnectOpen(true)}
+              className="h-7 w-full"
+            >
+              <Plug className="h-3 w-3 mr-1" />
+              Connect MCP server
+            </Button>
+            {importStatus && (
+              <div className="text-xs text-muted-foreground">{importStatus}</div>
+            )}
+          </div>
+
+          {/* Tool Choice */}
+          <div className="p-2 bg-card rounded border space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <label className="text-xs font-medium">Tool choice</label>
+              <Select value={toolChoiceValue} onValueChange={handleToolChoiceChange}>
+                <SelectTrigger className="h-7 w-40 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="auto">Auto</SelectItem>
+                  <SelectItem value="none">None</SelectItem>
+                  <SelectItem value="required">Required (any tool)</SelectItem>
+                  {tools.filter(t => t.enabled).map(tool => (
+                    <SelectItem key={tool.id} value={`function:${tool.name}`}>
+                      <span className="font-mono">{tool.name}</span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {toolChoice.mode === 'function' &&
+              !tools.some(t => t.enabled && t.name === toolChoice.functionName) && (
+              <div className="text-xs text-destructive">
+                "{toolChoice.functionName}" is not an enabled tool; the model chooses freely
+              </div>
+            )}
+            <div className="flex items-center justify-between">
+              <div>
+                <div className="text-xs font-medium">Parallel tool calls</div>
+                <div className="text-xs text-muted-foreground">
+                  Not configurable on Gemini
+                </div>
+              </div>
+              <Switch
+                checked={toolChoice.parallelToolCalls}
+                onCheckedChange={(parallelToolCalls) => setToolChoiceSettings({ parallelToolCalls })}
+              />
+            </div>
+          </div>
+
+          {/* Agent Loop */}
+          <div className="p-2 bg-card rounded border space-y-2">
+            <div className="flex items-center justify-between">
+              <div>
+                <div className="text-xs font-medium">Agent loop</div>
+                <div className="text-xs text-muted-foreground">
+                  Answer tool calls and re-generate automatically
+                </div>
+              </div>
+              <Switch
+                checked={agentLoop.enabled}
+                onCheckedChange={(enabled) => setAgentLoopSettings({ enabled })}
+              />
+            </div>
+            {agentLoop.enabled && (
+              <div className="flex items-center justify-between gap-2">
+                <label className="text-xs text-muted-foreground">Max iterations</label>
+                <Input
+                  type="number"
+                  min={1}
+                  max={50}
+                  value={agentLoop.maxIterations}
+                  onChange={(e) => {
+                    const value = parseInt(e.target.value, 10)
+                    if (!isNaN(value)) {
+                      setAgentLoopSettings({ maxIterations: Math.min(50, Math.max(1, value)) })
+                    }
+                  }}
+                  className="h-7 w-20 text-xs"
+                />
+              </div>
+            )}
           </div>
 
           {/* Add Tool Button */}
@@ -461,6 +790,17 @@ export function ToolsSection() {
           )}
         </div>
       )}
+
+      <OpenAPIImportDialog
+        open={isOpenAPIImportOpen}
+        onOpenChange={setIsOpenAPIImportOpen}
+        onImport={handleOpenAPIImport}
+      />
+      <MCPConnectDialog
+        open={isMCPConnectOpen}
+        onOpenChange={setIsMCPConnectOpen}
+        onImport={handleMCPImport}
+      />
     </div>
   )
 }
@@ -0,0 +1,231 @@
+import React, { useState } from 'react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Textarea } from './ui/textarea'
+import { Switch } from './ui/switch'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { FileText, Settings2, X } from 'lucide-react'
+import type { VariableDefinition, VariableType } from '../store/useAppStore'
+import {
+  defaultVariableDefinition,
+  validateVariableValue,
+  variableTypeLabels
+} from '../utils/variables'
+
+interface VariableDefinitionEditorProps {
+  definition: VariableDefinition
+  onChange: (definition: Partial<VariableDefinition>) => void
+}
+
+function VariableDefinitionEditor({ definition, onChange }: VariableDefinitionEditorProps) {
+  return (
+    <div className="space-y-1 p-2 bg-muted/30 rounded border">
+      <Select
+        value={definition.type}
+        onValueChange={(type: VariableType) => onChange({ type })}
+      >
+        <SelectTrigger className="h-7 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(variableTypeLabels) as VariableType[]).map(type => (
+            <SelectItem key={type} value={type}>{variableTypeLabels[type]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {definition.type === 'enum' && (
+        <Input
+          defaultValue={definition.options.join(', ')}
+          onBlur={(e) => onChange({
+            options: e.target.value.split(',').map(option => option.trim()).filter(Boolean)
+          })}
+          placeholder="Choices, comma separated"
+          className="h-7 text-xs"
+        />
+      )}
+      {definition.type !== 'file' && (
+        <Input
+          value={definition.defaultValue}
+          onChange={(e) => onChange({ defaultValue: e.target.value })}
+          placeholder="Default value (optional)"
+          className="h-7 text-xs"
+        />
+      )}
+      <Input
+        value={definition.description}
+        onChange={(e) => onChange({ description: e.target.value })}
+        placeholder="Description (optional)"
+        className="h-7 text-xs"
+      />
+    </div>
+  )
+}
+
+interface VariableInputProps {
+  variable: string
+  value: string
+  definition?: VariableDefinition
+  // Value from the active environment, used while this one is empty
+  inheritedValue?: string
+  onChange: (value: string) => void
+  onDefinitionChange: (definition: Partial<VariableDefinition>) => void
+}
+
+export function VariableInput({
+  variable,
+  value,
+  definition = defaultVariableDefinition,
+  inheritedValue,
+  onChange,
+  onDefinitionChange
+}: VariableInputProps) {
+  const [isEditingDefinition, setIsEditingDefinition] = useState(false)
+  const validationError = validateVariableValue(value, definition)
+  const fallbackValue = inheritedValue || definition.defaultValue
+  const placeholder = inheritedValue
+    ? `Inherited: ${inheritedValue}`
+    : definition.defaultValue
+      ? `Default: ${definition.defaultValue}`
+      : `Enter value for ${variable}`
+
+  const handleFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (!file) return
+
+    const reader = new FileReader()
+    reader.onload = (e) => onChange(e.target?.result as string)
+    reader.readAsText(file)
+    event.target.value = '' // Reset input
+  }
+
+  const renderInput = () => {
+    switch (definition.type) {
+      case 'multiline':
+        return (
+          <Textarea
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            placeholder={placeholder}
+            className="min-h-[64px] text-xs"
+          />
+        )
+
+      case 'json':
+        return (
+          <Textarea
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            placeholder={fallbackValue || '{"key": "value"}'}
+            className="min-h-[64px] font-mono text-xs"
+          />
+        )
+
+      case 'number':
+        return (
+          <Input
+            type="number"
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            placeholder={placeholder}
+            className="h-8"
+          />
+        )
+
+      case 'boolean':
+        return (
+          <div className="flex items-center h-8">
+            <Switch
+              checked={(value || fallbackValue) === 'true'}
+              onCheckedChange={(checked) => onChange(String(checked))}
+            />
+          </div>
+        )
+
+      case 'enum':
+        return (
+          <Select value={value || fallbackValue || undefined} onValueChange={onChange}>
+            <SelectTrigger className="h-8">
+              <SelectValue placeholder="Choose a value" />
+            </SelectTrigger>
+            <SelectContent>
+              {definition.options.map(option => (
+                <SelectItem key={option} value={option}>{option}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )
+
+      case 'file':
+        return (
+          <div className="flex items-center gap-1">
+            <label className="flex-1">
+              <input type="file" onChange={handleFile} className="hidden" />
+              <Button variant="outline" size="sm" className="h-8 w-full text-xs" asChild>
+                <span>
+                  <FileText className="h-3 w-3 mr-1" />
+                  {value
+                    ? `${value.length.toLocaleString()} characters loaded`
+                    : inheritedValue
+                      ? `${inheritedValue.length.toLocaleString()} characters inherited`
+                      : 'Choose file'}
+                </span>
+              </Button>
+            </label>
+            {value && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onChange('')}
+                className="h-8 w-8 p-0"
+                title="Clear file contents"
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            )}
+          </div>
+        )
+
+      default:
+        return (
+          <Input
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            placeholder={placeholder}
+            className="h-8"
+          />
+        )
+    }
+  }
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between gap-1">
+        <label className="text-xs font-medium text-muted-foreground truncate" title={definition.description}>
+          {variable}
+          {definition.type !== 'text' && (
+            <span className="ml-1 opacity-60">({variableTypeLabels[definition.type].toLowerCase()})</span>
+          )}
+        </label>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setIsEditingDefinition(!isEditingDefinition)}
+          className="h-5 w-5 p-0"
+          title="Variable type, default and description"
+        >
+          <Settings2 className="h-3 w-3" />
+        </Button>
+      </div>
+      {definition.description && (
+        <p className="text-xs text-muted-foreground opacity-70">{definition.description}</p>
+      )}
+      {isEditingDefinition && (
+        <VariableDefinitionEditor definition={definition} onChange={onDefinitionChange} />
+      )}
+      {renderInput()}
+      {validationError && (
+        <p className="text-xs text-destructive">{validationError}</p>
+      )}
+    </div>
+  )
+}
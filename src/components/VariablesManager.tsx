@@ -0,0 +1,162 @@
+import { useState } from 'react'
+import { useAppStore } from '../store/useAppStore'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Badge } from './ui/badge'
+import { Plus, Trash2, X } from 'lucide-react'
+import { VariableInput } from './VariableInput'
+import { EnvironmentSwitcher } from './EnvironmentSwitcher'
+import {
+  findMissingVariables,
+  listVariableNames,
+  validateVariableName
+} from '../utils/variables'
+
+interface VariablesManagerProps {
+  // Layout of the variable inputs, e.g. a grid with a column count
+  className?: string
+}
+
+/**
+ * Lists used, manually added and leftover variables with their inputs and
+ * where each is used. Unused variables can be removed one by one or all at
+ * once; used variables without a value are flagged since they render empty.
+ */
+export function VariablesManager({ className = 'grid grid-cols-1 gap-2' }: VariablesManagerProps) {
+  const {
+    detectedVariables,
+    loopVariables,
+    variableUsages,
+    customVariables,
+    variableValues,
+    variableDefinitions,
+    updateVariableValues,
+    setVariableDefinition,
+    addVariable,
+    removeVariable,
+    removeUnusedVariables,
+    getActiveEnvironment,
+    getVariableValues
+  } = useAppStore()
+
+  const [newVariableName, setNewVariableName] = useState('')
+  const [nameError, setNameError] = useState<string | null>(null)
+
+  const names = listVariableNames([...detectedVariables, ...loopVariables], customVariables, variableValues, variableDefinitions)
+  const unusedCount = names.filter(name => !variableUsages[name]).length
+  const missing = new Set(findMissingVariables(detectedVariables, getVariableValues(), variableDefinitions))
+  const environment = getActiveEnvironment()
+
+  const handleAddVariable = () => {
+    const name = newVariableName.trim()
+    const error = validateVariableName(name)
+    if (error) {
+      setNameError(error)
+      return
+    }
+    addVariable(name)
+    setNewVariableName('')
+    setNameError(null)
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <label className="text-xs font-medium text-muted-foreground">
+          Variables
+          {missing.size > 0 && (
+            <span className="ml-2 text-destructive">{missing.size} without a value</span>
+          )}
+        </label>
+        {unusedCount > 0 && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={removeUnusedVariables}
+            className="h-6 text-xs"
+          >
+            <Trash2 className="h-3 w-3 mr-1" />
+            Remove {unusedCount} unused
+          </Button>
+        )}
+      </div>
+
+      <EnvironmentSwitcher />
+
+      {names.length > 0 && (
+        <div className={className}>
+          {names.map(name => {
+            const usages = variableUsages[name]
+            const inheritedValue = environment?.values[name]
+            const isOverride = Boolean(inheritedValue && variableValues[name])
+            return (
+              <div key={name} className="space-y-1">
+                <VariableInput
+                  variable={name}
+                  value={variableValues[name] || ''}
+                  definition={variableDefinitions[name]}
+                  inheritedValue={inheritedValue}
+                  onChange={(value) => updateVariableValues({ [name]: value })}
+                  onDefinitionChange={(definition) => setVariableDefinition(name, definition)}
+                />
+                {isOverride && environment && (
+                  <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                    Overrides {environment.name}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => updateVariableValues({ [name]: '' })}
+                      className="h-4 w-4 p-0"
+                      title={`Use the value from ${environment.name}`}
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </div>
+                )}
+                {usages ? (
+                  <div className="text-xs text-muted-foreground opacity-70 truncate" title={usages.join(', ')}>
+                    {missing.has(name) && <span className="text-destructive">No value · </span>}
+                    {usages.join(', ')}
+                  </div>
+                ) : (
+                  <div className="flex items-center gap-1">
+                    <Badge variant="outline" className="text-xs">Unused</Badge>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => removeVariable(name)}
+                      className="h-5 w-5 p-0"
+                      title={`Remove ${name}`}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      <div className="flex gap-1 max-w-xs">
+        <Input
+          value={newVariableName}
+          onChange={(e) => {
+            setNewVariableName(e.target.value)
+            setNameError(null)
+          }}
+          onKeyDown={(e) => e.key === 'Enter' && handleAddVariable()}
+          placeholder="New variable name"
+          className="h-7 text-xs"
+        />
+        <Button variant="outline" size="sm" onClick={handleAddVariable} className="h-7 text-xs">
+          <Plus className="h-3 w-3 mr-1" />
+          Add
+        </Button>
+      </div>
+      {nameError && (
+        <p className="text-xs text-destructive">{nameError}</p>
+      )}
+    </div>
+  )
+}
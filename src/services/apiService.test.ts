@@ -0,0 +1,165 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { APIConfiguration, ToolChoiceSettings } from "../store/useAppStore";
+import { apiService, type CompletionDetails } from "./apiService";
+
+const config = (
+  overrides: Partial<APIConfiguration> = {}
+): APIConfiguration => ({
+  provider: "openai",
+  modelName: "gpt-4",
+  baseURL: "http://localhost:1234/v1",
+  apiKey: "",
+  temperature: 0.7,
+  maxTokens: 2000,
+  topP: 1,
+  frequencyPenalty: 0,
+  presencePenalty: 0,
+  customParameters: {},
+  ...overrides,
+});
+
+const toolChoice: ToolChoiceSettings = {
+  mode: "auto",
+  functionName: "",
+  parallelToolCalls: true,
+};
+
+// Answers the next request with the given server-sent events, one per chunk
+const respondWith = (events: (Record<string, any> | string)[]) => {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const event of events) {
+        const data = typeof event === "string" ? event : JSON.stringify(event);
+        const name = typeof event !== "string" && event.type ? `event: ${event.type}\n` : "";
+        controller.enqueue(encoder.encode(`${name}data: ${data}\n\n`));
+      }
+      controller.close();
+    },
+  });
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async () => new Response(body, { headers: { "Content-Type": "text/event-stream" } }))
+  );
+};
+
+const run = (configuration: APIConfiguration = config()) =>
+  new Promise<{
+    content: string;
+    toolCalls: unknown[];
+    reasoning: string;
+    details: CompletionDetails;
+  }>((resolve, reject) =>
+    apiService.streamCompletion("", [], configuration, [], toolChoice, {
+      onComplete: (content, toolCalls, reasoning, details) =>
+        resolve({ content, toolCalls, reasoning, details }),
+      onError: reject,
+    })
+  );
+
+const delta = (fields: Record<string, any>, extra: Record<string, any> = {}) => ({
+  choices: [{ delta: fields, ...extra }],
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("apiService.streamCompletion", () => {
+  it("merges tool call fragments by index, even when interleaved", async () => {
+    respondWith([
+      delta({ tool_calls: [{ index: 0, id: "call_a", function: { name: "first", arguments: "" } }] }),
+      delta({ tool_calls: [{ index: 1, id: "call_b", function: { name: "second", arguments: '{"y"' } }] }),
+      delta({ tool_calls: [{ index: 0, function: { arguments: '{"x":' } }] }),
+      delta({ tool_calls: [{ index: 1, function: { arguments: ":2}" } }] }),
+      delta({ tool_calls: [{ index: 0, function: { arguments: "1}" } }] }),
+      delta({}, { finish_reason: "tool_calls" }),
+      "[DONE]",
+    ]);
+
+    const result = await run();
+
+    expect(result.toolCalls).toEqual([
+      { id: "call_a", name: "first", arguments: '{"x":1}' },
+      { id: "call_b", name: "second", arguments: '{"y":2}' },
+    ]);
+    expect(result.details.finishReason).toBe("tool_calls");
+  });
+
+  it("numbers tool calls that arrive without an id", async () => {
+    respondWith([
+      delta({ tool_calls: [{ index: 0, function: { name: "lookup", arguments: "{}" } }] }),
+      "[DONE]",
+    ]);
+
+    expect((await run()).toolCalls).toEqual([
+      { id: "call_0", name: "lookup", arguments: "{}" },
+    ]);
+  });
+
+  it("moves think tags split across chunks into the reasoning", async () => {
+    respondWith([
+      delta({ content: "<thi" }),
+      delta({ content: "nk>plan</th" }),
+      delta({ content: "ink>Answer" }),
+      { choices: [], usage: { prompt_tokens: 7, completion_tokens: 3 } },
+      "[DONE]",
+    ]);
+
+    const result = await run();
+
+    expect(result.content).toBe("Answer");
+    expect(result.reasoning).toBe("plan");
+    expect(result.details.usage).toEqual({ inputTokens: 7, outputTokens: 3 });
+  });
+
+  it("assembles Anthropic tool input from JSON deltas", async () => {
+    respondWith([
+      { type: "message_start", message: { usage: { input_tokens: 11 } } },
+      { type: "content_block_start", index: 0, content_block: { type: "tool_use", id: "toolu_1", name: "get_weather" } },
+      { type: "content_block_delta", index: 0, delta: { type: "input_json_delta", partial_json: '{"city":' } },
+      { type: "content_block_delta", index: 0, delta: { type: "input_json_delta", partial_json: '"Paris"}' } },
+      { type: "message_delta", delta: { stop_reason: "tool_use" }, usage: { output_tokens: 9 } },
+      { type: "message_stop" },
+    ]);
+
+    const result = await run(
+      config({ provider: "anthropic", baseURL: "https://api.anthropic.com/v1" })
+    );
+
+    expect(result.toolCalls).toEqual([
+      { id: "toolu_1", name: "get_weather", arguments: '{"city":"Paris"}' },
+    ]);
+    expect(result.details).toMatchObject({
+      finishReason: "tool_use",
+      usage: { inputTokens: 11, outputTokens: 9 },
+    });
+  });
+
+  it("keeps whole Gemini calls from separate chunks apart", async () => {
+    const call = (name: string) => ({
+      candidates: [{ content: { parts: [{ functionCall: { name, args: {} } }] } }],
+    });
+    respondWith([call("first"), call("second")]);
+
+    const result = await run(
+      config({
+        provider: "gemini",
+        baseURL: "https://generativelanguage.googleapis.com/v1beta",
+      })
+    );
+
+    expect(result.toolCalls).toEqual([
+      { id: "call_0", name: "first", arguments: "{}" },
+      { id: "call_1", name: "second", arguments: "{}" },
+    ]);
+  });
+
+  it("reports errors sent in the stream", async () => {
+    respondWith([{ type: "error", error: { message: "Overloaded" } }]);
+
+    await expect(
+      run(config({ provider: "anthropic", baseURL: "https://api.anthropic.com/v1" }))
+    ).rejects.toThrow("Overloaded");
+  });
+});
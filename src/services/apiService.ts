@@ -1,13 +1,109 @@
-import { APIConfiguration, Message, Tool } from '../store/useAppStore'
+import { APIConfiguration, Message, ThinkingBlock, TokenUsage, Tool, ToolCall, ToolChoiceSettings } from '../store/useAppStore'
+import { getProvider, ProviderHTTPRequest, readServerSentEvents, StreamDecoder, StreamEvent } from './providers'
+
+// What the provider reported about how a completion ended
+export interface CompletionDetails {
+  finishReason: string | null
+  usage: TokenUsage | null
+  // Signed reasoning to send back with the turn's tool calls
+  thinkingBlocks: ThinkingBlock[]
+}
 
 export interface StreamCallbacks {
   onStart?: () => void
+  // The request as built, before credentials are attached
+  onRequest?: (request: ProviderHTTPRequest) => void
   onToken?: (token: string) => void
-  onComplete?: (fullResponse: string) => void
+  onReasoning?: (token: string) => void
+  onToolCalls?: (toolCalls: ToolCall[]) => void
+  onComplete?: (fullResponse: string, toolCalls: ToolCall[], reasoning: string, details: CompletionDetails) => void
   onError?: (error: Error) => void
   onMetrics?: (metrics: { tokensPerSecond: number; totalTokens: number }) => void
 }
 
+// The outcome of one completion run to the end, for batch and comparison runs
+export interface CompletionRun {
+  content: string
+  toolCalls: ToolCall[]
+  reasoning: string
+  // As reported by the provider; null when it sent no usage
+  usage: TokenUsage | null
+  latencyMs: number
+}
+
+interface SplitContent {
+  text: string
+  reasoning: string
+}
+
+// Separates <think>...</think> sections from streamed content. A tag can be
+// split across chunks, so a trailing partial tag is held back until the next
+// chunk arrives.
+const createThinkTagSplitter = () => {
+  let isThinking = false
+  let pending = ''
+  
+  const push = (chunk: string): SplitContent => {
+    const result: SplitContent = { text: '', reasoning: '' }
+    let input = pending + chunk
+    pending = ''
+    
+    while (input) {
+      const tag = isThinking ? '</think>' : '<think>'
+      const target = isThinking ? 'reasoning' : 'text'
+      const tagIndex = input.indexOf(tag)
+      
+      if (tagIndex !== -1) {
+        result[target] += input.slice(0, tagIndex)
+        input = input.slice(tagIndex + tag.length)
+        isThinking = !isThinking
+        continue
+      }
+      
+      let keep = Math.min(tag.length - 1, input.length)
+      while (keep > 0 && !tag.startsWith(input.slice(-keep))) keep--
+      
+      result[target] += input.slice(0, input.length - keep)
+      pending = input.slice(input.length - keep)
+      input = ''
+    }
+    
+    return result
+  }
+  
+  const flush = (): SplitContent => {
+    const rest = pending
+    pending = ''
+    return isThinking ? { text: '', reasoning: rest } : { text: rest, reasoning: '' }
+  }
+  
+  return { push, flush }
+}
+
+// Every provider rejects tool results that answer no known call, so a tool
+// message without a tool_call_id is sent as plain user text. A missing name is
+// filled in from the call it answers, which Gemini needs to match responses.
+const normalizeToolMessages = (messages: Message[]): Message[] => {
+  const toolCallsById = new Map<string, ToolCall>()
+  
+  return messages.map((msg) => {
+    msg.toolCalls?.forEach((call) => toolCallsById.set(call.id, call))
+    
+    if (msg.role !== 'tool') return msg
+    if (!msg.toolCallId) return { ...msg, role: 'user' }
+    if (msg.name) return msg
+    return { ...msg, name: toolCallsById.get(msg.toolCallId)?.name }
+  })
+}
+
+// Forcing a function the request does not offer is an API error everywhere,
+// so a stale choice (the tool was renamed or disabled) falls back to auto
+const resolveToolChoice = (toolChoice: ToolChoiceSettings, tools: Tool[]): ToolChoiceSettings =>
+  toolChoice.mode === 'function' &&
+  !tools.some((tool) => tool.enabled && tool.name === toolChoice.functionName)
+    ? { ...toolChoice, mode: 'auto' }
+    : toolChoice
+
 export class OpenAIAPIService {
   private abortController: AbortController | null = null
   
@@ -16,65 +112,37 @@ export class OpenAIAPIService {
     messages: Message[],
     config: APIConfiguration,
     tools: Tool[],
-    callbacks: StreamCallbacks
+    toolChoice: ToolChoiceSettings,
+    callbacks: StreamCallbacks,
+    // Runs with their own signal can overlap and are not stopped by stopGeneration
+    signal?: AbortSignal
   ): Promise<void> {
-    // Create new abort controller for this request
-    this.abortController = new AbortController()
+    if (!signal) {
+      // Create new abort controller for this request
+      this.abortController = new AbortController()
+    }
     
     try {
       callbacks.onStart?.()
       
-      // Prepare the request payload
-      const requestMessages: any[] = []
-      
-      if (systemPrompt.trim()) {
-        requestMessages.push({
-          role: 'system',
-          content: systemPrompt
-        })
-      }
-      
-      // Add conversation messages
-      requestMessages.push(...messages.map(msg => ({
-        role: msg.role,
-        content: msg.content
-      })))
-      
-      const requestBody: any = {
-        model: config.modelName,
-        messages: requestMessages,
-        temperature: config.temperature,
-        max_tokens: config.maxTokens,
-        top_p: config.topP,
-        frequency_penalty: config.frequencyPenalty,
-        presence_penalty: config.presencePenalty,
-        stream: true,
-        ...config.customParameters
-      }
-      
-      // Add tools if any are enabled
-      const enabledTools = tools.filter(tool => tool.enabled)
-      if (enabledTools.length > 0) {
-        requestBody.tools = enabledTools.map(tool => ({
-          type: 'function',
-          function: {
-            name: tool.name,
-            description: tool.description,
-            parameters: tool.parameters
-          }
-        }))
-        requestBody.tool_choice = 'auto'
-      }
+      // Let the configured provider build the request and attach credentials
+      const provider = getProvider(config.provider)
+      const unauthenticated = provider.buildRequest({
+        systemPrompt,
+        messages: normalizeToolMessages(messages),
+        config,
+        tools,
+        toolChoice: resolveToolChoice(toolChoice, tools)
+      })
+      callbacks.onRequest?.(unauthenticated)
+      const request = provider.authenticate(unauthenticated, config)
       
       // Make the API request
-      const response = await fetch(`${config.baseURL}/chat/completions`, {
+      const response = await fetch(request.url, {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${config.apiKey}`,
-        },
-        body: JSON.stringify(requestBody),
-        signal: this.abortController.signal
+        headers: request.headers,
+        body: JSON.stringify(request.body),
+        signal: signal ?? this.abortController?.signal
       })
       
       if (!response.ok) {
@@ -87,7 +155,7 @@ export class OpenAIAPIService {
       }
       
       // Process the streaming response
-      await this.processStream(response.body, callbacks)
+      await this.processStream(response.body, provider.createDecoder(), callbacks)
       
     } catch (error) {
       if (error instanceof Error && error.name === 'AbortError') {
@@ -98,91 +166,153 @@ export class OpenAIAPIService {
     }
   }
   
-  private async processStream(body: ReadableStream<Uint8Array>, callbacks: StreamCallbacks): Promise<void> {
-    const reader = body.getReader()
-    const decoder = new TextDecoder()
+  private async processStream(
+    body: ReadableStream<Uint8Array>,
+    decoder: StreamDecoder,
+    callbacks: StreamCallbacks
+  ): Promise<void> {
     let fullResponse = ''
-    let buffer = ''
+    let reasoning = ''
+    // Tool call fragments merged by their stream index
+    const toolCalls: ToolCall[] = []
+    const thinkTags = createThinkTagSplitter()
+    const details: CompletionDetails = { finishReason: null, usage: null, thinkingBlocks: [] }
     
     const startTime = Date.now()
     let tokenCount = 0
     
-    try {
-      while (true) {
-        const { done, value } = await reader.read()
+    const appendReasoning = (text: string) => {
+      if (!text) return
+      reasoning += text
+      callbacks.onReasoning?.(text)
+    }
+    
+    const appendContent = (content: SplitContent) => {
+      appendReasoning(content.reasoning)
+      if (!content.text) return
+      fullResponse += content.text
+      callbacks.onToken?.(content.text)
+    }
+    
+    const completedToolCalls = (): ToolCall[] =>
+      toolCalls
+        .filter(Boolean)
+        .map((call, index) => ({ ...call, id: call.id || `call_${index}` }))
+    
+    // The end-of-stream marker and the end of the body finish the same way
+    stream: for await (const event of readServerSentEvents(body)) {
+      let streamEvents: StreamEvent[]
+      
+      try {
+        streamEvents = decoder.decode(event)
+      } catch (parseError) {
+        // Skip malformed JSON lines
+        console.warn('Failed to parse streaming response line:', event.data)
+        continue
+      }
+      
+      for (const streamEvent of streamEvents) {
+        if (streamEvent.type === 'done') {
+          break stream
+        }
+        
+        if (streamEvent.type === 'error') {
+          throw new Error(streamEvent.message)
+        }
         
-        if (done) break
+        if (streamEvent.type === 'finish') {
+          details.finishReason = streamEvent.reason
+        }
         
-        buffer += decoder.decode(value, { stream: true })
-        const lines = buffer.split('\n')
+        if (streamEvent.type === 'usage') {
+          details.usage = { ...details.usage, ...streamEvent.usage }
+        }
         
-        // Keep the last incomplete line in the buffer
-        buffer = lines.pop() || ''
+        if (streamEvent.type === 'thinking_block') {
+          details.thinkingBlocks.push(streamEvent.block)
+        }
         
-        for (const line of lines) {
-          const trimmedLine = line.trim()
-          
-          if (trimmedLine === '') continue
-          if (trimmedLine === 'data: [DONE]') {
-            callbacks.onComplete?.(fullResponse)
-            return
+        // Handle regular content, which may carry inline <think> sections
+        if (streamEvent.type === 'text') {
+          appendContent(thinkTags.push(streamEvent.text))
+          tokenCount++
+        }
+        
+        // Handle reasoning the provider streams on its own channel
+        if (streamEvent.type === 'reasoning') {
+          appendReasoning(streamEvent.text)
+          tokenCount++
+        }
+        
+        // Handle tool calls
+        if (streamEvent.type === 'tool_call_delta') {
+          for (const delta of streamEvent.toolCalls) {
+            const index = delta.index ?? 0
+            const call = toolCalls[index] ?? (toolCalls[index] = { id: '', name: '', arguments: '' })
+            
+            if (delta.id) call.id = delta.id
+            if (delta.function?.name) call.name = delta.function.name
+            if (delta.function?.arguments) call.arguments += delta.function.arguments
           }
+          tokenCount++
           
-          if (trimmedLine.startsWith('data: ')) {
-            const jsonStr = trimmedLine.slice(6)
-            
-            try {
-              const data = JSON.parse(jsonStr)
-              
-              // Handle regular content
-              if (data.choices?.[0]?.delta?.content) {
-                const content = data.choices[0].delta.content
-                fullResponse += content
-                tokenCount++
-                
-                callbacks.onToken?.(content)
-              }
-              
-              // Handle tool calls
-              if (data.choices?.[0]?.delta?.tool_calls) {
-                const toolCalls = data.choices[0].delta.tool_calls
-                const toolCallText = JSON.stringify(toolCalls, null, 2)
-                fullResponse += toolCallText
-                tokenCount += toolCallText.length / 4 // Rough token estimate
-                
-                callbacks.onToken?.(toolCallText)
-                
-                // Update metrics periodically
-                if (tokenCount % 10 === 0) {
-                  const elapsed = (Date.now() - startTime) / 1000
-                  const tokensPerSecond = tokenCount / elapsed
-                  callbacks.onMetrics?.({
-                    tokensPerSecond: Math.round(tokensPerSecond * 100) / 100,
-                    totalTokens: tokenCount
-                  })
-                }
-              }
-            } catch (parseError) {
-              // Skip malformed JSON lines
-              console.warn('Failed to parse streaming response line:', jsonStr)
-            }
+          callbacks.onToolCalls?.(completedToolCalls())
+          
+          // Update metrics periodically
+          if (tokenCount % 10 === 0) {
+            const elapsed = (Date.now() - startTime) / 1000
+            const tokensPerSecond = tokenCount / elapsed
+            callbacks.onMetrics?.({
+              tokensPerSecond: Math.round(tokensPerSecond * 100) / 100,
+              totalTokens: tokenCount
+            })
           }
         }
       }
-      
-      // Final metrics update
-      const elapsed = (Date.now() - startTime) / 1000
-      const tokensPerSecond = elapsed > 0 ? tokenCount / elapsed : 0
-      callbacks.onMetrics?.({
-        tokensPerSecond: Math.round(tokensPerSecond * 100) / 100,
-        totalTokens: tokenCount
-      })
-      
-      callbacks.onComplete?.(fullResponse)
-      
-    } finally {
-      reader.releaseLock()
     }
+    
+    appendContent(thinkTags.flush())
+    
+    // Final metrics update
+    const elapsed = (Date.now() - startTime) / 1000
+    const tokensPerSecond = elapsed > 0 ? tokenCount / elapsed : 0
+    callbacks.onMetrics?.({
+      tokensPerSecond: Math.round(tokensPerSecond * 100) / 100,
+      totalTokens: tokenCount
+    })
+    
+    callbacks.onComplete?.(fullResponse, completedToolCalls(), reasoning, details)
+  }
+  
+  // Streams a completion to the end and resolves with it; rejects on errors
+  // and with an AbortError when the signal fires
+  complete(
+    systemPrompt: string,
+    messages: Message[],
+    config: APIConfiguration,
+    tools: Tool[],
+    toolChoice: ToolChoiceSettings,
+    signal: AbortSignal
+  ): Promise<CompletionRun> {
+    return new Promise((resolve, reject) => {
+      const startTime = Date.now()
+
+      const stop = () => reject(new DOMException('The run was stopped', 'AbortError'))
+      if (signal.aborted) return stop()
+      signal.addEventListener('abort', stop, { once: true })
+
+      // One signal may serve many runs, so each removes its listener when done
+      this.streamCompletion(systemPrompt, messages, config, tools, toolChoice, {
+        onComplete: (content, toolCalls, reasoning, details) => {
+          signal.removeEventListener('abort', stop)
+          resolve({ content, toolCalls, reasoning, usage: details.usage, latencyMs: Date.now() - startTime })
+        },
+        onError: (error) => {
+          signal.removeEventListener('abort', stop)
+          reject(error)
+        }
+      }, signal)
+    })
   }
   
   stopGeneration(): void {
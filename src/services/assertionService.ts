@@ -0,0 +1,54 @@
+import type { Assertion, AssertionResult } from "../store/useAppStore";
+import {
+  checkAssertion,
+  isAssertionReady,
+  type AssertionSubject,
+} from "../utils/assertions";
+import { toolExecutionService } from "./toolExecutionService";
+
+class AssertionService {
+  /**
+   * Checks one output against the enabled, filled-in assertions. Results
+   * come back in assertion order; a check that cannot run fails with the
+   * reason as its message.
+   */
+  evaluate(
+    assertions: Assertion[],
+    subject: AssertionSubject
+  ): Promise<AssertionResult[]> {
+    return Promise.all(
+      assertions.filter(isAssertionReady).map(async (assertion) => ({
+        assertionId: assertion.id,
+        ...(assertion.type === "javascript"
+          ? await this.runPredicate(assertion.value, subject)
+          : checkAssertion(assertion, subject)),
+      }))
+    );
+  }
+
+  /**
+   * Runs a predicate body in the tool sandbox with `output` and `toolCalls`
+   * in scope. A truthy return value passes.
+   */
+  private async runPredicate(
+    code: string,
+    { output, toolCalls }: AssertionSubject
+  ): Promise<Omit<AssertionResult, "assertionId">> {
+    try {
+      const result = await toolExecutionService.runImplementation(
+        `const { output, toolCalls } = args;\n${code}`,
+        { output, toolCalls }
+      );
+      return result
+        ? { passed: true }
+        : { passed: false, message: `Returned ${JSON.stringify(result)}` };
+    } catch (error) {
+      return {
+        passed: false,
+        message: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+}
+
+export const assertionService = new AssertionService();
@@ -5,6 +5,13 @@ import {
   Tool,
   ToolSet,
   Message,
+  AgentLoopSettings,
+  ToolChoiceSettings,
+  VariableDefinition,
+  VariableEnvironment,
+  Snippet,
+  RunRecord,
+  Assertion,
 } from "../store/useAppStore";
 
 export interface PlaygroundSession {
@@ -14,7 +21,14 @@ export interface PlaygroundSession {
   messages: Message[];
   apiConfiguration: APIConfiguration;
   tools: Tool[];
+  customVariables?: string[];
   variableValues: Record<string, string>;
+  variableDefinitions?: Record<string, VariableDefinition>;
+  // Overrides the workspace environment when set
+  environmentId?: string | null;
+  agentLoop?: AgentLoopSettings;
+  toolChoice?: ToolChoiceSettings;
+  assertions?: Assertion[];
   createdAt: string;
   updatedAt: string;
 }
@@ -24,16 +38,24 @@ export interface AppData {
   templates: Template[];
   configPresets: ConfigPreset[];
   toolSets: ToolSet[];
+  variableEnvironments?: VariableEnvironment[];
+  snippets?: Snippet[];
   currentSessionId: string | null;
   settings: {
     leftPanelWidth: number;
     rightPanelWidth: number;
     isRightPanelCollapsed: boolean;
+    // Variable environment sessions inherit
+    workspaceEnvironmentId?: string | null;
   };
 }
 
 const STORAGE_KEY = "prompt-lab-data";
 const CURRENT_SESSION_KEY = "prompt-lab-current-session";
+// Kept apart so a full history never blocks saving sessions
+const RUN_HISTORY_KEY = "prompt-lab-run-history";
+// Unstarred runs beyond this are dropped, oldest first
+const MAX_UNSTARRED_RUNS = 200;
 
 class LocalStorageService {
   private getStorageData(): AppData {
@@ -63,6 +85,8 @@ class LocalStorageService {
       templates: [],
       configPresets: [],
       toolSets: [],
+      variableEnvironments: [],
+      snippets: [],
       currentSessionId: null,
       settings: {
         leftPanelWidth: 25,
@@ -85,7 +109,13 @@ class LocalStorageService {
       apiConfiguration:
         sessionData.apiConfiguration || this.getDefaultAPIConfig(),
       tools: sessionData.tools || [],
+      customVariables: sessionData.customVariables,
       variableValues: sessionData.variableValues || {},
+      variableDefinitions: sessionData.variableDefinitions,
+      environmentId: sessionData.environmentId,
+      agentLoop: sessionData.agentLoop,
+      toolChoice: sessionData.toolChoice,
+      assertions: sessionData.assertions,
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
     };
@@ -216,7 +246,14 @@ class LocalStorageService {
 
   getAllConfigPresets(): ConfigPreset[] {
     const data = this.getStorageData();
-    return data.configPresets;
+    // Presets saved before providers existed were always OpenAI-compatible
+    return data.configPresets.map((preset) => ({
+      ...preset,
+      configuration: {
+        ...preset.configuration,
+        provider: preset.configuration.provider ?? "openai",
+      },
+    }));
   }
 
   // Tool Sets Management
@@ -244,6 +281,103 @@ class LocalStorageService {
     return data.toolSets;
   }
 
+  // Variable Environments Management
+  saveVariableEnvironment(environment: VariableEnvironment): void {
+    const data = this.getStorageData();
+    // Data saved before environments existed has no list yet
+    const environments = data.variableEnvironments ?? [];
+    const existingIndex = environments.findIndex(
+      (e) => e.id === environment.id
+    );
+
+    if (existingIndex !== -1) {
+      environments[existingIndex] = environment;
+    } else {
+      environments.push(environment);
+    }
+
+    data.variableEnvironments = environments;
+    this.setStorageData(data);
+  }
+
+  deleteVariableEnvironment(environmentId: string): void {
+    const data = this.getStorageData();
+    data.variableEnvironments = (data.variableEnvironments ?? []).filter(
+      (e) => e.id !== environmentId
+    );
+    this.setStorageData(data);
+  }
+
+  getAllVariableEnvironments(): VariableEnvironment[] {
+    const data = this.getStorageData();
+    return data.variableEnvironments ?? [];
+  }
+
+  // Snippets Management
+  saveSnippet(snippet: Snippet): void {
+    const data = this.getStorageData();
+    const snippets = data.snippets ?? [];
+    const existingIndex = snippets.findIndex((s) => s.id === snippet.id);
+
+    if (existingIndex !== -1) {
+      snippets[existingIndex] = snippet;
+    } else {
+      snippets.push(snippet);
+    }
+
+    data.snippets = snippets;
+    this.setStorageData(data);
+  }
+
+  deleteSnippet(snippetId: string): void {
+    const data = this.getStorageData();
+    data.snippets = (data.snippets ?? []).filter((s) => s.id !== snippetId);
+    this.setStorageData(data);
+  }
+
+  getAllSnippets(): Snippet[] {
+    const data = this.getStorageData();
+    return data.snippets ?? [];
+  }
+
+  // Run History Management
+  getRunHistory(): RunRecord[] {
+    try {
+      const data = localStorage.getItem(RUN_HISTORY_KEY);
+      return data ? JSON.parse(data) : [];
+    } catch (error) {
+      console.error("Error reading run history from localStorage:", error);
+      return [];
+    }
+  }
+
+  // Newest first; returns the history as stored, which may have dropped
+  // old unstarred runs to make room
+  saveRunHistory(runs: RunRecord[]): RunRecord[] {
+    let unstarred = 0;
+    let kept = runs.filter(
+      (run) => run.starred || ++unstarred <= MAX_UNSTARRED_RUNS
+    );
+
+    while (true) {
+      try {
+        localStorage.setItem(RUN_HISTORY_KEY, JSON.stringify(kept));
+        return kept;
+      } catch (error) {
+        // Out of quota: drop the older half of the unstarred runs and retry
+        const unstarredIds = kept.filter((run) => !run.starred).map((run) => run.id);
+        if (unstarredIds.length === 0) {
+          console.error("Error writing run history to localStorage:", error);
+          return kept;
+        }
+        const dropped = new Set(
+          unstarredIds.slice(Math.floor(unstarredIds.length / 2))
+        );
+        kept = kept.filter((run) => !dropped.has(run.id));
+      }
+    }
+  }
+
   // Settings Management
   updateSettings(settings: Partial<AppData["settings"]>): void {
     const data = this.getStorageData();
@@ -266,6 +400,7 @@ class LocalStorageService {
 
   private getDefaultAPIConfig(): APIConfiguration {
     return {
+      provider: "openai",
       modelName: "gpt-4",
       baseURL: "https://api.openai.com/v1",
       apiKey: "",
@@ -299,6 +434,7 @@ class LocalStorageService {
   clearAllData(): void {
     localStorage.removeItem(STORAGE_KEY);
     localStorage.removeItem(CURRENT_SESSION_KEY);
+    localStorage.removeItem(RUN_HISTORY_KEY);
   }
 }
 
@@ -0,0 +1,124 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { formatMCPToolResult, mcpService } from "./mcpService";
+import { startMCPStandIn, type MCPStandIn } from "../test/mcpStandIn";
+import type { MCPServer } from "../store/useAppStore";
+
+let standIn: MCPStandIn | null = null;
+
+const start = async (options?: Parameters<typeof startMCPStandIn>[0]) => {
+  standIn = await startMCPStandIn(options);
+  return standIn;
+};
+
+afterEach(async () => {
+  await standIn?.close();
+  standIn = null;
+});
+
+const methods = (server: MCPStandIn) =>
+  server.requests.map((request) => request.method);
+
+describe("mcpService", () => {
+  it("initializes a session and lists tools across pages", async () => {
+    const server = await start();
+    const tools = await mcpService.listTools({ url: server.url });
+
+    expect(tools.map((tool) => tool.name)).toEqual(["echo", "add"]);
+    expect(methods(server)).toEqual([
+      "initialize",
+      "notifications/initialized",
+      "tools/list",
+      "tools/list",
+    ]);
+    expect(server.requests[2].sessionId).toBe("session-1");
+  });
+
+  it("calls tools over plain JSON responses", async () => {
+    const server = await start();
+    const result = await mcpService.callTool({ url: server.url }, "echo", {
+      text: "hello",
+    });
+
+    expect(formatMCPToolResult(result)).toBe("hello");
+  });
+
+  it("reports JSON-RPC errors", async () => {
+    const server = await start();
+
+    await expect(
+      mcpService.callTool({ url: server.url }, "missing", {})
+    ).rejects.toThrow("MCP error -32601");
+  });
+
+  it("reads the response from an event stream and then closes it", async () => {
+    const server = await start({ useEventStream: true });
+    const result = await mcpService.callTool({ url: server.url }, "echo", {
+      text: "streamed",
+    });
+
+    expect(formatMCPToolResult(result)).toBe("streamed");
+    await vi.waitFor(() => expect(server.openStreams()).toBe(0));
+  });
+
+  it("sends the auth token and opens a new session when it changes", async () => {
+    const server = await start();
+    const withToken = (authToken: string): MCPServer => ({
+      url: server.url,
+      authToken,
+    });
+
+    await mcpService.callTool(withToken("first"), "echo", { text: "a" });
+    await mcpService.callTool(withToken("second"), "echo", { text: "b" });
+
+    const calls = server.requests.filter(
+      (request) => request.method === "tools/call"
+    );
+    expect(calls.map((call) => call.authorization)).toEqual([
+      "Bearer first",
+      "Bearer second",
+    ]);
+    expect(calls[0].sessionId).not.toBe(calls[1].sessionId);
+    expect(methods(server).filter((method) => method === "initialize")).toHaveLength(2);
+  });
+
+  it("rejects requests the server refuses to authorize", async () => {
+    const server = await start({ authToken: "secret" });
+
+    await expect(
+      mcpService.listTools({ url: server.url, authToken: "wrong" })
+    ).rejects.toThrow("HTTP 401");
+    const tools = await mcpService.listTools({
+      url: server.url,
+      authToken: "secret",
+    });
+    expect(tools).toHaveLength(2);
+  });
+
+  it("re-initializes once when the server has dropped the session", async () => {
+    const server = await start();
+    await mcpService.listTools({ url: server.url });
+    server.expireSessions();
+
+    const result = await mcpService.callTool({ url: server.url }, "echo", {
+      text: "again",
+    });
+
+    expect(formatMCPToolResult(result)).toBe("again");
+    expect(methods(server).slice(-4)).toEqual([
+      "tools/call",
+      "initialize",
+      "notifications/initialized",
+      "tools/call",
+    ]);
+  });
+
+  it("stops a call when its signal aborts", async () => {
+    const server = await start();
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      mcpService.callTool({ url: server.url }, "echo", { text: "x" }, controller.signal)
+    ).rejects.toThrow();
+  });
+});
@@ -0,0 +1,276 @@
+import type { MCPServer, Tool } from "../store/useAppStore";
+import { readServerSentEvents } from "./providers";
+
+const MCP_PROTOCOL_VERSION = "2025-06-18";
+
+const CLIENT_INFO = { name: "prompt-lab", version: "1.0.0" };
+
+// A tool as listed by tools/list
+export interface MCPToolDefinition {
+  name: string;
+  description?: string;
+  inputSchema?: Record<string, any>;
+}
+
+interface MCPContentBlock {
+  type: string;
+  text?: string;
+  [key: string]: unknown;
+}
+
+export interface MCPCallToolResult {
+  content?: MCPContentBlock[];
+  structuredContent?: unknown;
+  isError?: boolean;
+}
+
+class MCPHTTPError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = "MCPHTTPError";
+  }
+}
+
+interface MCPSession {
+  sessionId: string | null;
+  protocolVersion: string;
+}
+
+interface JSONRPCResponse {
+  jsonrpc: "2.0";
+  id: number;
+  result?: any;
+  error?: { code: number; message: string };
+}
+
+/**
+ * Turns a tool result into the text sent back to the model: text blocks as
+ * they are, anything else (images, resources) as JSON. Structured content is
+ * used when the server sent no blocks.
+ */
+export const formatMCPToolResult = (result: MCPCallToolResult): string => {
+  const blocks = result.content || [];
+  const text =
+    blocks.length > 0
+      ? blocks
+          .map((block) =>
+            block.type === "text" ? block.text ?? "" : JSON.stringify(block)
+          )
+          .join("\n")
+      : JSON.stringify(result.structuredContent ?? null);
+  return result.isError ? `Error: ${text}` : text;
+};
+
+/**
+ * Minimal MCP client for the Streamable HTTP transport. Each request is a
+ * JSON-RPC POST; servers answer with plain JSON or an SSE stream carrying the
+ * response. Sessions are initialized lazily, one per server URL and auth
+ * token, and re-established once when the server reports them expired.
+ */
+class MCPService {
+  private sessions = new Map<string, Promise<MCPSession>>();
+  private nextId = 1;
+
+  private buildHeaders(
+    server: MCPServer,
+    session?: MCPSession
+  ): Record<string, string> {
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      Accept: "application/json, text/event-stream",
+    };
+    if (server.authToken) {
+      headers.Authorization = `Bearer ${server.authToken}`;
+    }
+    if (session) {
+      headers["MCP-Protocol-Version"] = session.protocolVersion;
+      if (session.sessionId) headers["Mcp-Session-Id"] = session.sessionId;
+    }
+    return headers;
+  }
+
+  private async readResponse(
+    response: Response,
+    id: number
+  ): Promise<JSONRPCResponse> {
+    const contentType = response.headers.get("Content-Type") || "";
+
+    if (contentType.includes("text/event-stream")) {
+      if (!response.body) {
+        throw new Error("MCP server sent an empty event stream");
+      }
+      // The stream may carry server notifications before our response
+      let message: JSONRPCResponse | null = null;
+      for await (const event of readServerSentEvents(response.body)) {
+        if (!event.data.trim()) continue;
+        const parsed = JSON.parse(event.data);
+        if (parsed.id === id) {
+          message = parsed;
+          break;
+        }
+      }
+      // Servers may keep the stream open for later messages; only ours is
+      // wanted, so the connection is released instead of left to leak
+      await response.body.cancel().catch(() => undefined);
+      if (!message) throw new Error("MCP event stream ended without a response");
+      return message;
+    }
+
+    return response.json();
+  }
+
+  private async post(
+    server: MCPServer,
+    body: Record<string, any>,
+    session?: MCPSession,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    const response = await fetch(server.url, {
+      method: "POST",
+      headers: this.buildHeaders(server, session),
+      body: JSON.stringify(body),
+      signal,
+    });
+
+    if (!response.ok && response.status !== 202) {
+      const text = await response.text().catch(() => "");
+      throw new MCPHTTPError(
+        `MCP server returned HTTP ${response.status}${text ? `: ${text}` : ""}`,
+        response.status
+      );
+    }
+    return response;
+  }
+
+  private async initialize(server: MCPServer): Promise<MCPSession> {
+    const id = this.nextId++;
+    const response = await this.post(server, {
+      jsonrpc: "2.0",
+      id,
+      method: "initialize",
+      params: {
+        protocolVersion: MCP_PROTOCOL_VERSION,
+        capabilities: {},
+        clientInfo: CLIENT_INFO,
+      },
+    });
+
+    const sessionId = response.headers.get("Mcp-Session-Id");
+    const message = await this.readResponse(response, id);
+    if (message.error) {
+      throw new Error(`MCP initialize failed: ${message.error.message}`);
+    }
+
+    const session: MCPSession = {
+      sessionId,
+      protocolVersion: message.result?.protocolVersion || MCP_PROTOCOL_VERSION,
+    };
+    await this.post(
+      server,
+      { jsonrpc: "2.0", method: "notifications/initialized" },
+      session
+    );
+    return session;
+  }
+
+  // A session belongs to the credentials it was opened with, so a changed
+  // token opens a new one rather than reusing the old
+  private sessionKey(server: MCPServer): string {
+    return `${server.url}\n${server.authToken ?? ""}`;
+  }
+
+  private getSession(server: MCPServer): Promise<MCPSession> {
+    const key = this.sessionKey(server);
+    let session = this.sessions.get(key);
+    if (!session) {
+      session = this.initialize(server);
+      // A failed handshake should not poison later attempts
+      session.catch(() => this.sessions.delete(key));
+      this.sessions.set(key, session);
+    }
+    return session;
+  }
+
+  private async request(
+    server: MCPServer,
+    method: string,
+    params: Record<string, any>,
+    signal?: AbortSignal,
+    isRetry = false
+  ): Promise<any> {
+    const session = await this.getSession(server);
+    const id = this.nextId++;
+
+    let response: Response;
+    try {
+      response = await this.post(
+        server,
+        { jsonrpc: "2.0", id, method, params },
+        session,
+        signal
+      );
+    } catch (error) {
+      // 404 means the server dropped our session
+      if (
+        error instanceof MCPHTTPError &&
+        error.status === 404 &&
+        session.sessionId &&
+        !isRetry
+      ) {
+        this.sessions.delete(this.sessionKey(server));
+        return this.request(server, method, params, signal, true);
+      }
+      throw error;
+    }
+
+    const message = await this.readResponse(response, id);
+    if (message.error) {
+      throw new Error(`MCP error ${message.error.code}: ${message.error.message}`);
+    }
+    return message.result;
+  }
+
+  // Follows pagination cursors until the server has listed every tool
+  async listTools(server: MCPServer): Promise<MCPToolDefinition[]> {
+    const tools: MCPToolDefinition[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const result = await this.request(
+        server,
+        "tools/list",
+        cursor ? { cursor } : {}
+      );
+      tools.push(...(result?.tools || []));
+      cursor = result?.nextCursor;
+    } while (cursor);
+
+    return tools;
+  }
+
+  async callTool(
+    server: MCPServer,
+    name: string,
+    args: Record<string, any>,
+    signal?: AbortSignal
+  ): Promise<MCPCallToolResult> {
+    return this.request(server, "tools/call", { name, arguments: args }, signal);
+  }
+
+  // Converts listed tools into tools that are executed on the same server
+  toTools(server: MCPServer, definitions: MCPToolDefinition[]): Omit<Tool, "id">[] {
+    return definitions.map((definition) => ({
+      name: definition.name,
+      description: definition.description || "",
+      enabled: true,
+      parameters: {
+        properties: {},
+        ...definition.inputSchema,
+        type: "object",
+      },
+      mockResponse: { source: "mcp", fixture: "", handler: "", mcpServer: server },
+    }));
+  }
+}
+
+export const mcpService = new MCPService();
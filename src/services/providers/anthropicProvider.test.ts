@@ -0,0 +1,131 @@
+import { describe, expect, it } from "vitest";
+import type { APIConfiguration, Message } from "../../store/useAppStore";
+import { anthropicProvider } from "./anthropicProvider";
+import type { StreamEvent } from "./types";
+
+const config: APIConfiguration = {
+  provider: "anthropic",
+  modelName: "claude-sonnet-4-20250514",
+  baseURL: "https://api.anthropic.com/v1",
+  apiKey: "",
+  temperature: 1,
+  maxTokens: 2000,
+  topP: 1,
+  frequencyPenalty: 0,
+  presencePenalty: 0,
+  customParameters: {},
+};
+
+const decodeAll = (events: Record<string, any>[]): StreamEvent[] => {
+  const decoder = anthropicProvider.createDecoder();
+  return events.flatMap((event) =>
+    decoder.decode({ event: event.type, data: JSON.stringify(event) })
+  );
+};
+
+const buildMessages = (messages: Message[]) =>
+  (
+    anthropicProvider.buildRequest({
+      systemPrompt: "",
+      messages,
+      config,
+      tools: [],
+      toolChoice: { mode: "auto", functionName: "", parallelToolCalls: true },
+    }).body as Record<string, any>
+  ).messages;
+
+describe("anthropicProvider decoder", () => {
+  it("streams thinking and keeps the signed block", () => {
+    const events = decodeAll([
+      { type: "content_block_start", index: 0, content_block: { type: "thinking", thinking: "" } },
+      { type: "content_block_delta", index: 0, delta: { type: "thinking_delta", thinking: "Let me " } },
+      { type: "content_block_delta", index: 0, delta: { type: "thinking_delta", thinking: "check." } },
+      { type: "content_block_delta", index: 0, delta: { type: "signature_delta", signature: "sig-1" } },
+      { type: "content_block_stop", index: 0 },
+      { type: "content_block_start", index: 1, content_block: { type: "redacted_thinking", data: "opaque" } },
+      { type: "content_block_stop", index: 1 },
+    ]);
+
+    expect(events).toEqual([
+      { type: "reasoning", text: "Let me " },
+      { type: "reasoning", text: "check." },
+      {
+        type: "thinking_block",
+        block: { type: "thinking", thinking: "Let me check.", signature: "sig-1" },
+      },
+      {
+        type: "thinking_block",
+        block: { type: "redacted_thinking", data: "opaque" },
+      },
+    ]);
+  });
+
+  it("indexes tool calls apart from text blocks and streams their input", () => {
+    const events = decodeAll([
+      { type: "content_block_start", index: 0, content_block: { type: "text", text: "" } },
+      { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "Checking" } },
+      { type: "content_block_start", index: 1, content_block: { type: "tool_use", id: "toolu_1", name: "get_weather" } },
+      { type: "content_block_delta", index: 1, delta: { type: "input_json_delta", partial_json: '{"city":' } },
+      { type: "content_block_delta", index: 1, delta: { type: "input_json_delta", partial_json: '"Paris"}' } },
+      { type: "message_delta", delta: { stop_reason: "tool_use" }, usage: { output_tokens: 12 } },
+      { type: "message_stop" },
+    ]);
+
+    expect(events).toEqual([
+      { type: "text", text: "Checking" },
+      {
+        type: "tool_call_delta",
+        toolCalls: [
+          { index: 0, id: "toolu_1", type: "function", function: { name: "get_weather", arguments: "" } },
+        ],
+      },
+      { type: "tool_call_delta", toolCalls: [{ index: 0, function: { arguments: '{"city":' } }] },
+      { type: "tool_call_delta", toolCalls: [{ index: 0, function: { arguments: '"Paris"}' } }] },
+      { type: "finish", reason: "tool_use" },
+      { type: "usage", usage: { outputTokens: 12 } },
+      { type: "done" },
+    ]);
+  });
+});
+
+describe("anthropicProvider.buildRequest", () => {
+  it("sends thinking blocks back first on assistant tool turns", () => {
+    const messages = buildMessages([
+      { id: "1", role: "user", content: "Weather in Paris?" },
+      {
+        id: "2",
+        role: "assistant",
+        content: "",
+        toolCalls: [{ id: "toolu_1", name: "get_weather", arguments: '{"city":"Paris"}' }],
+        thinkingBlocks: [{ type: "thinking", thinking: "Use the tool.", signature: "sig-1" }],
+      },
+      { id: "3", role: "tool", content: "Sunny", toolCallId: "toolu_1", name: "get_weather" },
+    ]);
+
+    expect(messages[1]).toEqual({
+      role: "assistant",
+      content: [
+        { type: "thinking", thinking: "Use the tool.", signature: "sig-1" },
+        { type: "tool_use", id: "toolu_1", name: "get_weather", input: { city: "Paris" } },
+      ],
+    });
+    expect(messages[2]).toEqual({
+      role: "user",
+      content: [{ type: "tool_result", tool_use_id: "toolu_1", content: "Sunny" }],
+    });
+  });
+
+  it("drops tool calls and thinking from messages turned into user turns", () => {
+    const messages = buildMessages([
+      {
+        id: "1",
+        role: "user",
+        content: "Hi",
+        toolCalls: [{ id: "toolu_1", name: "x", arguments: "{}" }],
+        thinkingBlocks: [{ type: "redacted_thinking", data: "opaque" }],
+      },
+    ]);
+
+    expect(messages).toEqual([{ role: "user", content: "Hi" }]);
+  });
+});
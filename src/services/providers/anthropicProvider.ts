@@ -0,0 +1,283 @@
+import type { Message, ThinkingBlock } from "../../store/useAppStore";
+import { parseToolArgumentsOrEmpty } from "../../utils/toolArguments";
+import type {
+  CompletionRequest,
+  ProviderAdapter,
+  ProviderHTTPRequest,
+  StreamDecoder,
+  StreamEvent,
+} from "./types";
+
+const ANTHROPIC_VERSION = "2023-06-01";
+
+const toContentBlocks = (msg: Message): any[] => {
+  if (msg.role === "tool") {
+    return [
+      {
+        type: "tool_result",
+        tool_use_id: msg.toolCallId,
+        content: msg.content,
+      },
+    ];
+  }
+
+  // tool_use blocks are only valid on assistant turns; the calls of a
+  // message whose role was changed are dropped
+  const isAssistant = msg.role === "assistant";
+  const toolCalls = isAssistant ? msg.toolCalls || [] : [];
+  return [
+    // With extended thinking on, the turn must open with its signed thinking
+    ...(isAssistant ? msg.thinkingBlocks || [] : []),
+    ...(msg.content.trim() ? [{ type: "text", text: msg.content }] : []),
+    ...toolCalls.map((call) => ({
+      type: "tool_use",
+      id: call.id,
+      name: call.name,
+      input: parseToolArgumentsOrEmpty(call.arguments),
+    })),
+  ];
+};
+
+const buildMessagesRequest = ({
+  systemPrompt,
+  messages,
+  config,
+  tools,
+  toolChoice,
+}: CompletionRequest): ProviderHTTPRequest => {
+  // The Messages API has no system role; every system instruction is hoisted
+  // into the top-level `system` field in conversation order.
+  const systemParts = [
+    systemPrompt,
+    ...messages.filter((msg) => msg.role === "system").map((msg) => msg.content),
+  ].filter((part) => part.trim());
+
+  const requestMessages: any[] = [];
+  for (const msg of messages) {
+    if (msg.role === "system") continue;
+
+    const previous = requestMessages[requestMessages.length - 1];
+
+    // Results for one assistant turn must share a single user message
+    if (
+      msg.role === "tool" &&
+      previous?.role === "user" &&
+      Array.isArray(previous.content) &&
+      previous.content.every((block: any) => block.type === "tool_result")
+    ) {
+      previous.content.push(toContentBlocks(msg)[0]);
+      continue;
+    }
+
+    requestMessages.push({
+      // Tool results are returned to the model on the user side
+      role: msg.role === "assistant" ? "assistant" : "user",
+      content:
+        msg.role === "tool" ||
+        (msg.role === "assistant" && msg.toolCalls?.length)
+          ? toContentBlocks(msg)
+          : msg.content,
+    });
+  }
+
+  const body: Record<string, any> = {
+    model: config.modelName,
+    messages: requestMessages,
+    max_tokens: config.maxTokens,
+    temperature: config.temperature,
+    stream: true,
+  };
+
+  if (systemParts.length > 0) {
+    body.system = systemParts.join("\n\n");
+  }
+
+  // Newer Claude models reject requests that set both temperature and top_p
+  if (config.topP !== 1) {
+    body.top_p = config.topP;
+  }
+
+  // Add tools if any are enabled
+  const enabledTools = tools.filter((tool) => tool.enabled);
+  if (enabledTools.length > 0) {
+    body.tools = enabledTools.map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+      input_schema: tool.parameters,
+    }));
+    switch (toolChoice.mode) {
+      case "none":
+        body.tool_choice = { type: "none" };
+        break;
+      case "required":
+        body.tool_choice = { type: "any" };
+        break;
+      case "function":
+        body.tool_choice = { type: "tool", name: toolChoice.functionName };
+        break;
+      default:
+        body.tool_choice = { type: "auto" };
+    }
+    // The API rejects this flag alongside type "none"
+    if (!toolChoice.parallelToolCalls && toolChoice.mode !== "none") {
+      body.tool_choice.disable_parallel_tool_use = true;
+    }
+  }
+
+  return {
+    url: `${config.baseURL}/messages`,
+    headers: {
+      "Content-Type": "application/json",
+      "anthropic-version": ANTHROPIC_VERSION,
+      // Required for CORS when calling the API straight from the browser
+      "anthropic-dangerous-direct-browser-access": "true",
+    },
+    body: { ...body, ...config.customParameters },
+  };
+};
+
+const createMessagesDecoder = (): StreamDecoder => {
+  // Content block indexes count text and thinking blocks too, while tool call
+  // deltas are indexed by tool call only.
+  const toolCallIndexes = new Map<number, number>();
+  // Thinking blocks being streamed, by content block index
+  const thinkingBlocks = new Map<
+    number,
+    Extract<ThinkingBlock, { type: "thinking" }>
+  >();
+
+  return {
+    decode: ({ data }) => {
+      const parsed = JSON.parse(data);
+
+      switch (parsed.type) {
+        case "content_block_start": {
+          const block = parsed.content_block;
+          if (block?.type === "thinking") {
+            thinkingBlocks.set(parsed.index, {
+              type: "thinking",
+              thinking: block.thinking || "",
+              signature: block.signature || "",
+            });
+            return [];
+          }
+          if (block?.type === "redacted_thinking") {
+            return [
+              {
+                type: "thinking_block",
+                block: { type: "redacted_thinking", data: block.data },
+              },
+            ];
+          }
+          if (block?.type !== "tool_use") return [];
+
+          const toolIndex = toolCallIndexes.size;
+          toolCallIndexes.set(parsed.index, toolIndex);
+          return [
+            {
+              type: "tool_call_delta",
+              toolCalls: [
+                {
+                  index: toolIndex,
+                  id: block.id,
+                  type: "function",
+                  function: { name: block.name, arguments: "" },
+                },
+              ],
+            },
+          ];
+        }
+
+        case "content_block_delta": {
+          const delta = parsed.delta;
+          if (delta?.type === "text_delta" && delta.text) {
+            return [{ type: "text", text: delta.text }];
+          }
+          if (delta?.type === "thinking_delta" && delta.thinking) {
+            const block = thinkingBlocks.get(parsed.index);
+            if (block) block.thinking += delta.thinking;
+            return [{ type: "reasoning", text: delta.thinking }];
+          }
+          if (delta?.type === "signature_delta") {
+            const block = thinkingBlocks.get(parsed.index);
+            if (block) block.signature += delta.signature;
+            return [];
+          }
+          if (
+            delta?.type === "input_json_delta" &&
+            toolCallIndexes.has(parsed.index)
+          ) {
+            return [
+              {
+                type: "tool_call_delta",
+                toolCalls: [
+                  {
+                    index: toolCallIndexes.get(parsed.index),
+                    function: { arguments: delta.partial_json },
+                  },
+                ],
+              },
+            ];
+          }
+          return [];
+        }
+
+        case "message_start": {
+          const inputTokens = parsed.message?.usage?.input_tokens;
+          return inputTokens === undefined
+            ? []
+            : [{ type: "usage", usage: { inputTokens } }];
+        }
+
+        case "message_delta": {
+          const events: StreamEvent[] = [];
+          if (parsed.delta?.stop_reason) {
+            events.push({ type: "finish", reason: parsed.delta.stop_reason });
+          }
+          if (parsed.usage?.output_tokens !== undefined) {
+            events.push({
+              type: "usage",
+              usage: { outputTokens: parsed.usage.output_tokens },
+            });
+          }
+          return events;
+        }
+
+        case "message_stop":
+          return [{ type: "done" }];
+
+        case "error":
+          return [
+            {
+              type: "error",
+              message: parsed.error?.message || "Anthropic stream error",
+            },
+          ];
+
+        case "content_block_stop": {
+          const block = thinkingBlocks.get(parsed.index);
+          if (!block) return [];
+          thinkingBlocks.delete(parsed.index);
+          return [{ type: "thinking_block", block }];
+        }
+
+        // ping carries nothing we use
+        default:
+          return [];
+      }
+    },
+  };
+};
+
+export const anthropicProvider: ProviderAdapter = {
+  id: "anthropic",
+  label: "Anthropic",
+  defaultBaseURL: "https://api.anthropic.com/v1",
+  requiresApiKey: true,
+  buildRequest: buildMessagesRequest,
+  authenticate: (request, config) => ({
+    ...request,
+    headers: { ...request.headers, "x-api-key": config.apiKey },
+  }),
+  createDecoder: createMessagesDecoder,
+};
@@ -0,0 +1,152 @@
+import { describe, expect, it } from "vitest";
+import type { APIConfiguration, Message } from "../../store/useAppStore";
+import { geminiProvider } from "./geminiProvider";
+
+const config = (
+  overrides: Partial<APIConfiguration> = {}
+): APIConfiguration => ({
+  provider: "gemini",
+  modelName: "gemini-2.5-flash",
+  baseURL: "https://generativelanguage.googleapis.com/v1beta",
+  apiKey: "",
+  temperature: 0.4,
+  maxTokens: 1000,
+  topP: 0.9,
+  frequencyPenalty: 0,
+  presencePenalty: 0,
+  customParameters: {},
+  ...overrides,
+});
+
+const buildBody = (
+  configuration: APIConfiguration,
+  messages: Message[] = []
+): Record<string, any> =>
+  geminiProvider.buildRequest({
+    systemPrompt: "",
+    messages,
+    config: configuration,
+    tools: [],
+    toolChoice: { mode: "auto", functionName: "", parallelToolCalls: true },
+  }).body as Record<string, any>;
+
+const decode = (chunk: Record<string, any>) =>
+  geminiProvider
+    .createDecoder()
+    .decode({ event: "message", data: JSON.stringify(chunk) });
+
+describe("geminiProvider.buildRequest", () => {
+  it("merges a custom generationConfig into the sampling settings", () => {
+    const body = buildBody(
+      config({
+        customParameters: {
+          generationConfig: { topK: 40, thinkingConfig: { thinkingBudget: 0 } },
+          safetySettings: [],
+        },
+      })
+    );
+
+    expect(body.generationConfig).toEqual({
+      temperature: 0.4,
+      maxOutputTokens: 1000,
+      topP: 0.9,
+      topK: 40,
+      thinkingConfig: { thinkingBudget: 0 },
+    });
+    expect(body.safetySettings).toEqual([]);
+  });
+
+  it("lets a custom generationConfig override a built field", () => {
+    const body = buildBody(
+      config({ customParameters: { generationConfig: { temperature: 0 } } })
+    );
+
+    expect(body.generationConfig.temperature).toBe(0);
+  });
+
+  it("groups the responses to parallel calls in one turn", () => {
+    const body = buildBody(config(), [
+      {
+        id: "1",
+        role: "assistant",
+        content: "",
+        toolCalls: [
+          { id: "a", name: "first", arguments: '{"x":1}' },
+          { id: "b", name: "second", arguments: "" },
+        ],
+      },
+      { id: "2", role: "tool", content: '{"ok":true}', toolCallId: "a", name: "first" },
+      { id: "3", role: "tool", content: "plain text", toolCallId: "b", name: "second" },
+    ]);
+
+    expect(body.contents).toEqual([
+      {
+        role: "model",
+        parts: [
+          { functionCall: { name: "first", args: { x: 1 } } },
+          { functionCall: { name: "second", args: {} } },
+        ],
+      },
+      {
+        role: "user",
+        parts: [
+          { functionResponse: { name: "first", response: { ok: true } } },
+          { functionResponse: { name: "second", response: { result: "plain text" } } },
+        ],
+      },
+    ]);
+  });
+});
+
+describe("geminiProvider decoder", () => {
+  it("numbers whole function calls across chunks", () => {
+    const decoder = geminiProvider.createDecoder();
+    const chunk = (name: string) => ({
+      candidates: [{ content: { parts: [{ functionCall: { name, args: { q: name } } }] } }],
+    });
+
+    const events = [chunk("first"), chunk("second")].flatMap((data) =>
+      decoder.decode({ event: "message", data: JSON.stringify(data) })
+    );
+
+    expect(events).toEqual([
+      {
+        type: "tool_call_delta",
+        toolCalls: [
+          { index: 0, id: "call_0", type: "function", function: { name: "first", arguments: '{"q":"first"}' } },
+        ],
+      },
+      {
+        type: "tool_call_delta",
+        toolCalls: [
+          { index: 1, id: "call_1", type: "function", function: { name: "second", arguments: '{"q":"second"}' } },
+        ],
+      },
+    ]);
+  });
+
+  it("splits thoughts from text and reports finish and usage", () => {
+    expect(
+      decode({
+        candidates: [
+          {
+            content: { parts: [{ text: "hmm", thought: true }, { text: "Hi" }] },
+            finishReason: "STOP",
+          },
+        ],
+        usageMetadata: { promptTokenCount: 5, candidatesTokenCount: 2 },
+      })
+    ).toEqual([
+      { type: "reasoning", text: "hmm" },
+      { type: "text", text: "Hi" },
+      { type: "finish", reason: "STOP" },
+      { type: "usage", usage: { inputTokens: 5, outputTokens: 2 } },
+    ]);
+  });
+
+  it("reports blocked prompts as errors", () => {
+    expect(decode({ promptFeedback: { blockReason: "SAFETY" } })).toEqual([
+      { type: "error", message: "Prompt blocked: SAFETY" },
+    ]);
+  });
+});
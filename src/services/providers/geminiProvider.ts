@@ -0,0 +1,247 @@
+import type { Message } from "../../store/useAppStore";
+import { parseToolArgumentsOrEmpty } from "../../utils/toolArguments";
+import type {
+  CompletionRequest,
+  ProviderAdapter,
+  ProviderHTTPRequest,
+  StreamDecoder,
+  StreamEvent,
+} from "./types";
+
+const toParts = (msg: Message): any[] => {
+  if (msg.role === "tool") {
+    // functionResponse.response must be an object
+    let response: Record<string, any>;
+    try {
+      const parsed = JSON.parse(msg.content);
+      response =
+        parsed && typeof parsed === "object" && !Array.isArray(parsed)
+          ? parsed
+          : { result: parsed };
+    } catch (error) {
+      response = { result: msg.content };
+    }
+    return [{ functionResponse: { name: msg.name, response } }];
+  }
+
+  if (msg.role === "assistant" && msg.toolCalls?.length) {
+    return [
+      ...(msg.content.trim() ? [{ text: msg.content }] : []),
+      ...msg.toolCalls.map((call) => ({
+        functionCall: {
+          name: call.name,
+          args: parseToolArgumentsOrEmpty(call.arguments),
+        },
+      })),
+    ];
+  }
+
+  return [{ text: msg.content }];
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+const buildGenerateContentRequest = ({
+  systemPrompt,
+  messages,
+  config,
+  tools,
+  toolChoice,
+}: CompletionRequest): ProviderHTTPRequest => {
+  // Gemini takes system instructions separately from the conversation
+  const systemParts = [
+    systemPrompt,
+    ...messages.filter((msg) => msg.role === "system").map((msg) => msg.content),
+  ].filter((part) => part.trim());
+
+  // Gemini only knows "user" and "model"; tool results go back as user turns
+  const contents: any[] = [];
+  for (const msg of messages) {
+    if (msg.role === "system") continue;
+
+    const previous = contents[contents.length - 1];
+
+    // Responses to parallel calls belong in one turn
+    if (
+      msg.role === "tool" &&
+      previous?.parts.every((part: any) => part.functionResponse)
+    ) {
+      previous.parts.push(...toParts(msg));
+      continue;
+    }
+
+    contents.push({
+      role: msg.role === "assistant" ? "model" : "user",
+      parts: toParts(msg),
+    });
+  }
+
+  const generationConfig: Record<string, any> = {
+    temperature: config.temperature,
+    maxOutputTokens: config.maxTokens,
+    topP: config.topP,
+  };
+
+  // Not every Gemini model accepts penalties, so only send them when set
+  if (config.frequencyPenalty !== 0) {
+    generationConfig.frequencyPenalty = config.frequencyPenalty;
+  }
+  if (config.presencePenalty !== 0) {
+    generationConfig.presencePenalty = config.presencePenalty;
+  }
+
+  const body: Record<string, any> = {
+    contents,
+    generationConfig,
+  };
+
+  if (systemParts.length > 0) {
+    body.systemInstruction = {
+      parts: [{ text: systemParts.join("\n\n") }],
+    };
+  }
+
+  // Add tools if any are enabled
+  const enabledTools = tools.filter((tool) => tool.enabled);
+  if (enabledTools.length > 0) {
+    body.tools = [
+      {
+        functionDeclarations: enabledTools.map((tool) => ({
+          name: tool.name,
+          description: tool.description,
+          parameters: tool.parameters,
+        })),
+      },
+    ];
+    // Gemini has no switch for parallel calls, so that setting is not sent
+    const functionCallingConfig: Record<string, any> = {
+      mode:
+        toolChoice.mode === "none"
+          ? "NONE"
+          : toolChoice.mode === "required"
+            ? "ANY"
+            : "AUTO",
+    };
+    if (toolChoice.mode === "function") {
+      functionCallingConfig.mode = "ANY";
+      functionCallingConfig.allowedFunctionNames = [toolChoice.functionName];
+    }
+    body.toolConfig = { functionCallingConfig };
+  }
+
+  return {
+    url: `${config.baseURL}/models/${encodeURIComponent(
+      config.modelName
+    )}:streamGenerateContent?alt=sse`,
+    headers: { "Content-Type": "application/json" },
+    body: {
+      ...body,
+      ...config.customParameters,
+      // A custom generationConfig (topK, responseMimeType, thinkingConfig, ...)
+      // adds to the sampling settings instead of replacing them
+      generationConfig: {
+        ...generationConfig,
+        ...(isPlainObject(config.customParameters.generationConfig) &&
+          config.customParameters.generationConfig),
+      },
+    },
+  };
+};
+
+const createGenerateContentDecoder = (): StreamDecoder => {
+  // Gemini sends each function call whole, so we only number them
+  let toolCallCount = 0;
+
+  return {
+    decode: ({ data }) => {
+      const parsed = JSON.parse(data);
+
+      if (parsed.error) {
+        return [
+          {
+            type: "error",
+            message: parsed.error.message || "Gemini stream error",
+          },
+        ];
+      }
+
+      if (parsed.promptFeedback?.blockReason) {
+        return [
+          {
+            type: "error",
+            message: `Prompt blocked: ${parsed.promptFeedback.blockReason}`,
+          },
+        ];
+      }
+
+      const parts = parsed.candidates?.[0]?.content?.parts || [];
+      const events: StreamEvent[] = [];
+
+      for (const part of parts) {
+        if (part.functionCall) {
+          const index = toolCallCount++;
+          events.push({
+            type: "tool_call_delta",
+            toolCalls: [
+              {
+                index,
+                id: part.functionCall.id || `call_${index}`,
+                type: "function",
+                function: {
+                  name: part.functionCall.name,
+                  arguments: JSON.stringify(part.functionCall.args ?? {}),
+                },
+              },
+            ],
+          });
+        } else if (part.text) {
+          events.push({
+            type: part.thought ? "reasoning" : "text",
+            text: part.text,
+          });
+        }
+      }
+
+      const finishReason = parsed.candidates?.[0]?.finishReason;
+      if (finishReason) {
+        events.push({ type: "finish", reason: finishReason });
+      }
+      // Totals so far; the last chunk carries the final counts
+      if (parsed.usageMetadata) {
+        events.push({
+          type: "usage",
+          usage: {
+            inputTokens: parsed.usageMetadata.promptTokenCount,
+            outputTokens: parsed.usageMetadata.candidatesTokenCount,
+          },
+        });
+      }
+
+      // The stream has no terminal marker; it simply ends after the chunk
+      // carrying finishReason
+      return events;
+    },
+  };
+};
+
+export const geminiProvider: ProviderAdapter = {
+  id: "gemini",
+  label: "Gemini",
+  defaultBaseURL: "https://generativelanguage.googleapis.com/v1beta",
+  requiresApiKey: true,
+  buildRequest: buildGenerateContentRequest,
+  authenticate: (request, config) => {
+    if (config.apiKeyLocation === "query") {
+      return {
+        ...request,
+        url: `${request.url}&key=${encodeURIComponent(config.apiKey)}`,
+      };
+    }
+    return {
+      ...request,
+      headers: { ...request.headers, "x-goog-api-key": config.apiKey },
+    };
+  },
+  createDecoder: createGenerateContentDecoder,
+};
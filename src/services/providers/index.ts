@@ -0,0 +1,27 @@
+import { anthropicProvider } from "./anthropicProvider";
+import { geminiProvider } from "./geminiProvider";
+import { localProvider, openAIProvider } from "./openaiProvider";
+import type { ProviderAdapter, ProviderId } from "./types";
+
+export type {
+  CompletionRequest,
+  ProviderAdapter,
+  ProviderHTTPRequest,
+  ProviderId,
+  StreamDecoder,
+  StreamEvent,
+} from "./types";
+export { readServerSentEvents } from "./sse";
+export type { ServerSentEvent } from "./sse";
+
+export const providers: Record<ProviderId, ProviderAdapter> = {
+  openai: openAIProvider,
+  anthropic: anthropicProvider,
+  gemini: geminiProvider,
+  local: localProvider,
+};
+
+// Configurations saved before providers existed have no `provider` field and
+// were always sent to OpenAI-compatible endpoints.
+export const getProvider = (id?: ProviderId): ProviderAdapter =>
+  (id && providers[id]) || openAIProvider;
@@ -0,0 +1,139 @@
+import { describe, expect, it } from "vitest";
+import type { APIConfiguration, Message, Tool } from "../../store/useAppStore";
+import { openAIProvider } from "./openaiProvider";
+import type { StreamEvent } from "./types";
+
+const config = (
+  overrides: Partial<APIConfiguration> = {}
+): APIConfiguration => ({
+  provider: "openai",
+  modelName: "gpt-4",
+  baseURL: "https://api.openai.com/v1",
+  apiKey: "",
+  temperature: 0.7,
+  maxTokens: 2000,
+  topP: 1,
+  frequencyPenalty: 0,
+  presencePenalty: 0,
+  customParameters: {},
+  ...overrides,
+});
+
+const tool: Tool = {
+  id: "t1",
+  name: "get_weather",
+  description: "Weather for a city",
+  parameters: { type: "object", properties: { city: { type: "string" } } },
+  enabled: true,
+};
+
+const buildBody = (
+  configuration: APIConfiguration,
+  messages: Message[] = [],
+  tools: Tool[] = []
+): Record<string, any> =>
+  openAIProvider.buildRequest({
+    systemPrompt: "Be brief.",
+    messages,
+    config: configuration,
+    tools,
+    toolChoice: { mode: "auto", functionName: "", parallelToolCalls: false },
+  }).body as Record<string, any>;
+
+const decodeAll = (chunks: (Record<string, any> | string)[]): StreamEvent[] => {
+  const decoder = openAIProvider.createDecoder();
+  return chunks.flatMap((chunk) =>
+    decoder.decode({
+      event: "message",
+      data: typeof chunk === "string" ? chunk : JSON.stringify(chunk),
+    })
+  );
+};
+
+describe("openAIProvider.buildRequest", () => {
+  it("sends tool calls and their results in the chat format", () => {
+    const body = buildBody(
+      config(),
+      [
+        {
+          id: "1",
+          role: "assistant",
+          content: "",
+          toolCalls: [{ id: "call_1", name: "get_weather", arguments: '{"city":"Paris"}' }],
+        },
+        { id: "2", role: "tool", content: "Sunny", toolCallId: "call_1", name: "get_weather" },
+      ],
+      [tool]
+    );
+
+    expect(body.messages).toEqual([
+      { role: "system", content: "Be brief." },
+      {
+        role: "assistant",
+        content: null,
+        tool_calls: [
+          {
+            id: "call_1",
+            type: "function",
+            function: { name: "get_weather", arguments: '{"city":"Paris"}' },
+          },
+        ],
+      },
+      { role: "tool", tool_call_id: "call_1", content: "Sunny" },
+    ]);
+    expect(body.tools[0].function.name).toBe("get_weather");
+    expect(body.tool_choice).toBe("auto");
+    expect(body.parallel_tool_calls).toBe(false);
+  });
+
+  it("asks for stream usage only from OpenAI unless opted in", () => {
+    expect(buildBody(config()).stream_options).toEqual({ include_usage: true });
+    expect(
+      buildBody(config({ baseURL: "http://localhost:1234/v1" })).stream_options
+    ).toBeUndefined();
+    expect(
+      buildBody(config({ baseURL: "http://localhost:1234/v1", streamUsage: true }))
+        .stream_options
+    ).toEqual({ include_usage: true });
+  });
+
+  it("lets custom parameters override built fields", () => {
+    const body = buildBody(config({ customParameters: { temperature: 0, seed: 3 } }));
+
+    expect(body.temperature).toBe(0);
+    expect(body.seed).toBe(3);
+  });
+});
+
+describe("openAIProvider decoder", () => {
+  it("reads reasoning, text, tool calls, finish and usage", () => {
+    const events = decodeAll([
+      { choices: [{ delta: { reasoning_content: "think" } }] },
+      { choices: [{ delta: { reasoning: "more" } }] },
+      { choices: [{ delta: { content: "Hi" } }] },
+      {
+        choices: [
+          {
+            delta: { tool_calls: [{ index: 0, id: "call_1", function: { name: "f", arguments: "" } }] },
+          },
+        ],
+      },
+      { choices: [{ delta: {}, finish_reason: "tool_calls" }] },
+      { choices: [], usage: { prompt_tokens: 4, completion_tokens: 2 } },
+      "[DONE]",
+    ]);
+
+    expect(events).toEqual([
+      { type: "reasoning", text: "think" },
+      { type: "reasoning", text: "more" },
+      { type: "text", text: "Hi" },
+      {
+        type: "tool_call_delta",
+        toolCalls: [{ index: 0, id: "call_1", function: { name: "f", arguments: "" } }],
+      },
+      { type: "finish", reason: "tool_calls" },
+      { type: "usage", usage: { inputTokens: 4, outputTokens: 2 } },
+      { type: "done" },
+    ]);
+  });
+});
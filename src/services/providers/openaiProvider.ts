@@ -0,0 +1,171 @@
+import type { APIConfiguration } from "../../store/useAppStore";
+import type {
+  CompletionRequest,
+  ProviderAdapter,
+  ProviderHTTPRequest,
+  StreamDecoder,
+  StreamEvent,
+} from "./types";
+
+const OPENAI_BASE_URL = "https://api.openai.com/v1";
+
+// OpenAI reports usage on streams only when asked. Other servers speaking
+// the protocol often reject fields they do not know, so they are asked only
+// when the configuration opts in.
+export const requestsStreamUsage = (config: APIConfiguration): boolean =>
+  config.streamUsage ?? config.baseURL.startsWith(OPENAI_BASE_URL);
+
+const buildChatCompletionsRequest = ({
+  systemPrompt,
+  messages,
+  config,
+  tools,
+  toolChoice,
+}: CompletionRequest): ProviderHTTPRequest => {
+  const requestMessages: any[] = [];
+
+  if (systemPrompt.trim()) {
+    requestMessages.push({
+      role: "system",
+      content: systemPrompt,
+    });
+  }
+
+  // Add conversation messages
+  requestMessages.push(
+    ...messages.map((msg) => {
+      if (msg.role === "tool") {
+        return {
+          role: "tool",
+          tool_call_id: msg.toolCallId,
+          content: msg.content,
+        };
+      }
+      if (msg.role === "assistant" && msg.toolCalls?.length) {
+        return {
+          role: "assistant",
+          content: msg.content || null,
+          tool_calls: msg.toolCalls.map((call) => ({
+            id: call.id,
+            type: "function",
+            function: { name: call.name, arguments: call.arguments },
+          })),
+        };
+      }
+      return {
+        role: msg.role,
+        content: msg.content,
+      };
+    })
+  );
+
+  const body: Record<string, any> = {
+    model: config.modelName,
+    messages: requestMessages,
+    temperature: config.temperature,
+    max_tokens: config.maxTokens,
+    top_p: config.topP,
+    frequency_penalty: config.frequencyPenalty,
+    presence_penalty: config.presencePenalty,
+    stream: true,
+    ...(requestsStreamUsage(config) && {
+      stream_options: { include_usage: true },
+    }),
+  };
+
+  // Add tools if any are enabled
+  const enabledTools = tools.filter((tool) => tool.enabled);
+  if (enabledTools.length > 0) {
+    body.tools = enabledTools.map((tool) => ({
+      type: "function",
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters,
+      },
+    }));
+    body.tool_choice =
+      toolChoice.mode === "function"
+        ? { type: "function", function: { name: toolChoice.functionName } }
+        : toolChoice.mode;
+    // Parallel calls are the default; servers without support never see the flag
+    if (!toolChoice.parallelToolCalls) {
+      body.parallel_tool_calls = false;
+    }
+  }
+
+  // Custom parameters go last, as with every provider, so they can
+  // override anything built above
+  return {
+    url: `${config.baseURL}/chat/completions`,
+    headers: { "Content-Type": "application/json" },
+    body: { ...body, ...config.customParameters },
+  };
+};
+
+const createChatCompletionsDecoder = (): StreamDecoder => ({
+  decode: ({ data }) => {
+    if (data.trim() === "[DONE]") return [{ type: "done" }];
+
+    const parsed = JSON.parse(data);
+    const choice = parsed.choices?.[0];
+    const delta = choice?.delta;
+    const events: StreamEvent[] = [];
+
+    // DeepSeek and most local servers use reasoning_content; OpenRouter and
+    // some proxies use reasoning
+    const reasoning = delta?.reasoning_content ?? delta?.reasoning;
+    if (typeof reasoning === "string" && reasoning) {
+      events.push({ type: "reasoning", text: reasoning });
+    }
+    if (delta?.content) {
+      events.push({ type: "text", text: delta.content });
+    }
+    if (delta?.tool_calls) {
+      events.push({ type: "tool_call_delta", toolCalls: delta.tool_calls });
+    }
+    if (choice?.finish_reason) {
+      events.push({ type: "finish", reason: choice.finish_reason });
+    }
+    // Sent in a final chunk without choices
+    if (parsed.usage) {
+      events.push({
+        type: "usage",
+        usage: {
+          inputTokens: parsed.usage.prompt_tokens,
+          outputTokens: parsed.usage.completion_tokens,
+        },
+      });
+    }
+
+    return events;
+  },
+});
+
+export const openAIProvider: ProviderAdapter = {
+  id: "openai",
+  label: "OpenAI",
+  defaultBaseURL: OPENAI_BASE_URL,
+  requiresApiKey: true,
+  buildRequest: buildChatCompletionsRequest,
+  authenticate: (request, config) => ({
+    ...request,
+    headers: { ...request.headers, Authorization: `Bearer ${config.apiKey}` },
+  }),
+  createDecoder: createChatCompletionsDecoder,
+};
+
+// Local servers (LM Studio, Ollama, llama.cpp, vLLM) speak the same
+// protocol but usually run without authentication.
+export const localProvider: ProviderAdapter = {
+  id: "local",
+  label: "Local",
+  defaultBaseURL: "http://localhost:1234/v1",
+  requiresApiKey: false,
+  buildRequest: buildChatCompletionsRequest,
+  authenticate: (request, config) =>
+    config.apiKey.trim()
+      ? openAIProvider.authenticate(request, config)
+      : request,
+  createDecoder: createChatCompletionsDecoder,
+};
@@ -0,0 +1,65 @@
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+/**
+ * Reads a server-sent event stream and yields one event per `data:` line.
+ * Provider payloads never span multiple data lines, and some local servers
+ * omit the blank separator line, so dispatching per line is the safer choice.
+ */
+export async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let eventName = "message";
+
+  const parseLine = (line: string): ServerSentEvent | null => {
+    if (line === "") {
+      // Blank line ends the current event block
+      eventName = "message";
+      return null;
+    }
+    if (line.startsWith(":")) return null;
+
+    const colonIndex = line.indexOf(":");
+    const field = colonIndex === -1 ? line : line.slice(0, colonIndex);
+    let value = colonIndex === -1 ? "" : line.slice(colonIndex + 1);
+    if (value.startsWith(" ")) value = value.slice(1);
+
+    if (field === "event") {
+      eventName = value;
+      return null;
+    }
+    if (field === "data") {
+      return { event: eventName, data: value };
+    }
+    return null;
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split(/\r?\n/);
+
+      // Keep the last incomplete line in the buffer
+      buffer = lines.pop() || "";
+
+      for (const line of lines) {
+        const event = parseLine(line);
+        if (event) yield event;
+      }
+    }
+
+    const trailing = parseLine(buffer.trim());
+    if (trailing) yield trailing;
+  } finally {
+    reader.releaseLock();
+  }
+}
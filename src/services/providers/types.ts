@@ -0,0 +1,67 @@
+import type {
+  APIConfiguration,
+  Message,
+  ThinkingBlock,
+  TokenUsage,
+  Tool,
+  ToolChoiceSettings,
+} from "../../store/useAppStore";
+import type { ServerSentEvent } from "./sse";
+
+export type ProviderId = "openai" | "anthropic" | "gemini" | "local";
+
+// Everything a provider needs to build a single completion request
+export interface CompletionRequest {
+  systemPrompt: string;
+  messages: Message[];
+  config: APIConfiguration;
+  tools: Tool[];
+  // Only applied when at least one tool is enabled; a forced function is
+  // always one of the enabled tools
+  toolChoice: ToolChoiceSettings;
+}
+
+// Provider-agnostic description of the HTTP call to make
+export interface ProviderHTTPRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: Record<string, any>;
+}
+
+// Normalized events produced by a provider's stream decoder
+export type StreamEvent =
+  | { type: "text"; text: string }
+  | { type: "reasoning"; text: string }
+  // A finished reasoning block to keep for later turns
+  | { type: "thinking_block"; block: ThinkingBlock }
+  // OpenAI-shaped tool call fragments ({ index, id, function: { name, arguments } })
+  | { type: "tool_call_delta"; toolCalls: any[] }
+  | { type: "error"; message: string }
+  // Why the model stopped, in the provider's own words (stop, length, ...)
+  | { type: "finish"; reason: string }
+  // Token counts; providers may split them across several events
+  | { type: "usage"; usage: TokenUsage }
+  | { type: "done" };
+
+export interface StreamDecoder {
+  decode: (event: ServerSentEvent) => StreamEvent[];
+}
+
+export interface ProviderAdapter {
+  id: ProviderId;
+  label: string;
+  defaultBaseURL: string;
+  requiresApiKey: boolean;
+
+  // Translate our session state into the provider's request body and endpoint
+  buildRequest: (request: CompletionRequest) => ProviderHTTPRequest;
+
+  // Attach credentials (headers or query parameters) to a built request
+  authenticate: (
+    request: ProviderHTTPRequest,
+    config: APIConfiguration
+  ) => ProviderHTTPRequest;
+
+  // Decoders are stateful, so a fresh one is created for every stream
+  createDecoder: () => StreamDecoder;
+}
@@ -0,0 +1,151 @@
+import type { Tool, ToolCall, ToolMockResponse } from "../store/useAppStore";
+import { parseToolArguments } from "../utils/toolArguments";
+import { formatMCPToolResult, mcpService } from "./mcpService";
+import type {
+  ToolSandboxRequest,
+  ToolSandboxResponse,
+} from "../workers/toolSandbox.worker";
+
+// Long enough for real work, short enough to catch infinite loops
+export const TOOL_IMPLEMENTATION_TIMEOUT_MS = 5000;
+
+export const defaultToolMockResponse: ToolMockResponse = {
+  source: "manual",
+  fixture: "",
+  handler: "",
+};
+
+export interface ToolExecutionOptions {
+  // Ask the user for a result; resolves with null when they cancel
+  requestManualResult: (toolCall: ToolCall, tool: Tool) => Promise<string | null>;
+  // Stops a running implementation or MCP call
+  signal?: AbortSignal;
+}
+
+const formatResult = (value: unknown): string =>
+  typeof value === "string" ? value : JSON.stringify(value ?? null);
+
+const formatError = (error: unknown): string =>
+  `Error: ${error instanceof Error ? error.message : String(error)}`;
+
+class ToolExecutionService {
+  /**
+   * Runs a JavaScript implementation body in a dedicated Web Worker. The body
+   * receives the parsed arguments as `args`, may use `await`, and its return
+   * value becomes the tool result. The worker is terminated afterwards, or
+   * when the timeout expires or the signal aborts.
+   */
+  runImplementation(
+    code: string,
+    args: Record<string, any>,
+    timeoutMs = TOOL_IMPLEMENTATION_TIMEOUT_MS,
+    signal?: AbortSignal
+  ): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new Error("Tool implementation was stopped"));
+        return;
+      }
+
+      const worker = new Worker(
+        new URL("../workers/toolSandbox.worker.ts", import.meta.url),
+        { type: "module" }
+      );
+
+      const onAbort = () => {
+        finish();
+        reject(new Error("Tool implementation was stopped"));
+      };
+
+      const finish = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+        worker.terminate();
+      };
+
+      const timer = setTimeout(() => {
+        finish();
+        reject(new Error(`Tool implementation timed out after ${timeoutMs}ms`));
+      }, timeoutMs);
+      signal?.addEventListener("abort", onAbort);
+
+      worker.onmessage = (event: MessageEvent<ToolSandboxResponse>) => {
+        finish();
+        if (event.data.ok) {
+          resolve(event.data.result);
+        } else {
+          reject(new Error(event.data.error));
+        }
+      };
+
+      worker.onerror = (event) => {
+        event.preventDefault();
+        finish();
+        reject(new Error(event.message || "Tool implementation failed"));
+      };
+
+      const request: ToolSandboxRequest = { code, args };
+      worker.postMessage(request);
+    });
+  }
+
+  /**
+   * Produces the result for a tool call from the tool's configured mock
+   * response. Failures are returned as "Error: ..." text so the model sees
+   * them, exactly as it would from a real tool. Resolves with null only when
+   * a manual result was cancelled.
+   */
+  async execute(
+    toolCall: ToolCall,
+    tools: Tool[],
+    options: ToolExecutionOptions
+  ): Promise<string | null> {
+    const tool = tools.find((t) => t.name === toolCall.name);
+    if (!tool) {
+      return `Error: tool "${toolCall.name}" is not defined`;
+    }
+
+    const mockResponse = tool.mockResponse ?? defaultToolMockResponse;
+
+    switch (mockResponse.source) {
+      case "fixture":
+        return mockResponse.fixture;
+
+      case "handler":
+        try {
+          const args = parseToolArguments(toolCall.arguments);
+          return formatResult(
+            await this.runImplementation(
+              mockResponse.handler,
+              args,
+              TOOL_IMPLEMENTATION_TIMEOUT_MS,
+              options.signal
+            )
+          );
+        } catch (error) {
+          return formatError(error);
+        }
+
+      case "mcp":
+        try {
+          if (!mockResponse.mcpServer?.url) {
+            throw new Error(`tool "${tool.name}" has no MCP server configured`);
+          }
+          const result = await mcpService.callTool(
+            mockResponse.mcpServer,
+            tool.name,
+            parseToolArguments(toolCall.arguments),
+            options.signal
+          );
+          return formatMCPToolResult(result);
+        } catch (error) {
+          return formatError(error);
+        }
+
+      default:
+        return options.requestManualResult(toolCall, tool);
+    }
+  }
+}
+
+export const toolExecutionService = new ToolExecutionService();
@@ -4,6 +4,16 @@ import {
   localStorageService,
   PlaygroundSession,
 } from "../services/localStorageService";
+import type { ProviderId } from "../services/providers";
+import { renderTemplate } from "../utils/templateEngine";
+import { snippetSources } from "../utils/snippets";
+import {
+  defaultVariableDefinition,
+  findLoopOnlyVariables,
+  findVariableUsages,
+  layerVariableValues,
+  resolveVariableValues,
+} from "../utils/variables";
 
 export type MessageRole = "system" | "user" | "assistant" | "tool";
 export type MessageType = "regular" | "thinking" | "tool_call";
@@ -13,9 +23,49 @@ export interface Message {
   role: MessageRole;
   content: string;
   type?: MessageType;
+  // Model reasoning kept for reference; never replayed as content
+  reasoning?: string;
+  // Signed reasoning blocks, sent back as they are with the turn's tool calls
+  thinkingBlocks?: ThinkingBlock[];
+  // Calls requested by an assistant message
+  toolCalls?: ToolCall[];
+  // On tool messages: the call being answered and the tool's name
+  toolCallId?: string;
+  name?: string;
   metadata?: any;
 }
 
+// Anthropic's extended thinking output. The API checks the signature, so a
+// turn with tool calls must return these blocks unchanged.
+export type ThinkingBlock =
+  | { type: "thinking"; thinking: string; signature: string }
+  | { type: "redacted_thinking"; data: string };
+
+// A complete tool call assembled from the streamed fragments
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+}
+
+export type ToolResponseSource = "fixture" | "handler" | "manual" | "mcp";
+
+// A Model Context Protocol server reachable over Streamable HTTP
+export interface MCPServer {
+  url: string;
+  // Sent as a Bearer token when set
+  authToken?: string;
+}
+
+// How the agent loop produces a result when the model calls a tool
+export interface ToolMockResponse {
+  source: ToolResponseSource;
+  fixture: string;
+  handler: string;
+  // Server that executes the tool when source is "mcp"
+  mcpServer?: MCPServer;
+}
+
 export interface Tool {
   id: string;
   name: string;
@@ -26,19 +76,68 @@ export interface Tool {
     properties: Record<string, any>;
     required?: string[];
   };
+  mockResponse?: ToolMockResponse;
+}
+
+export interface AgentLoopSettings {
+  enabled: boolean;
+  maxIterations: number;
+}
+
+// "function" forces the call named by `functionName`
+export type ToolChoiceMode = "auto" | "none" | "required" | "function";
+
+export interface ToolChoiceSettings {
+  mode: ToolChoiceMode;
+  functionName: string;
+  parallelToolCalls: boolean;
+}
+
+export type AssertionType =
+  | "contains"
+  | "not_contains"
+  | "regex"
+  | "valid_json"
+  | "json_schema"
+  | "max_length"
+  | "tool_call"
+  | "javascript";
+
+// A check every output of the session is held to. `value` is the text,
+// pattern, schema, length, tool name or predicate body, depending on type.
+export interface Assertion {
+  id: string;
+  type: AssertionType;
+  value: string;
+  enabled: boolean;
+}
+
+export interface AssertionResult {
+  assertionId: string;
+  passed: boolean;
+  // Why the check failed, or what it found
+  message?: string;
 }
 
 export interface ToolSet {
   id: string;
   name: string;
   tools: Tool[];
+  // Server the tools were discovered from, if any
+  mcpServer?: MCPServer;
   createdAt: string;
 }
 
 export interface APIConfiguration {
+  provider: ProviderId;
   modelName: string;
   baseURL: string;
   apiKey: string;
+  // Where providers that support both send the key (Gemini); defaults to header
+  apiKeyLocation?: "header" | "query";
+  // Ask OpenAI-compatible servers for token usage on streams
+  // (stream_options.include_usage); unset means only api.openai.com is asked
+  streamUsage?: boolean;
   temperature: number;
   maxTokens: number;
   topP: number;
@@ -47,11 +146,31 @@ export interface APIConfiguration {
   customParameters: Record<string, any>;
 }
 
+export type VariableType =
+  | "text"
+  | "multiline"
+  | "number"
+  | "boolean"
+  | "enum"
+  | "json"
+  | "file";
+
+// Declared shape of a template variable; values themselves stay strings
+export interface VariableDefinition {
+  type: VariableType;
+  // Used when the variable has no value
+  defaultValue: string;
+  description: string;
+  // Choices for "enum" variables
+  options: string[];
+}
+
 export interface Template {
   id: string;
   name: string;
   systemPrompt: string;
   messages: Message[];
+  variableDefinitions?: Record<string, VariableDefinition>;
   createdAt: string;
 }
 
@@ -62,6 +181,54 @@ export interface ConfigPreset {
   createdAt: string;
 }
 
+// A named set of variable values, e.g. for dev, staging and prod
+export interface VariableEnvironment {
+  id: string;
+  name: string;
+  values: Record<string, string>;
+  createdAt: string;
+}
+
+// A named text block prompts include with {{> name}}
+export interface Snippet {
+  id: string;
+  name: string;
+  content: string;
+  createdAt: string;
+}
+
+// Token counts a provider reports for one completion
+export interface TokenUsage {
+  inputTokens?: number;
+  outputTokens?: number;
+}
+
+// One completion step of a Generate click, kept in the run history
+export interface RunRecord {
+  id: string;
+  sessionId: string | null;
+  createdAt: string;
+  // The HTTP request as built, before credentials are attached
+  request: {
+    url: string;
+    headers: Record<string, string>;
+    body: Record<string, any>;
+  };
+  // The configuration used, with the API key removed
+  configuration: APIConfiguration;
+  output: string;
+  reasoning: string;
+  toolCalls: ToolCall[];
+  // The provider's reason, "stopped" for cancelled runs, null when not reported
+  finishReason: string | null;
+  usage: TokenUsage | null;
+  latencyMs: number;
+  // Streaming metrics as shown while the run was generating
+  metrics: { tokensPerSecond: number; totalTokens: number };
+  error?: string;
+  starred: boolean;
+}
+
 export interface AppState {
   // Current Session
   currentSessionId: string | null;
@@ -77,25 +244,55 @@ export interface AppState {
   templates: Template[];
   configPresets: ConfigPreset[];
 
+  // Snippets, shared by every session
+  snippets: Snippet[];
+
   // Tools
   tools: Tool[];
   toolSets: ToolSet[];
+  agentLoop: AgentLoopSettings;
+  toolChoice: ToolChoiceSettings;
+
+  // Checks run on every generated output
+  assertions: Assertion[];
+  // Results for the current output; null until it has been checked
+  assertionResults: AssertionResult[] | null;
 
   // Output and Generation
   output: string;
   outputType: MessageType;
+  outputToolCalls: ToolCall[];
+  outputReasoning: string;
   isGenerating: boolean;
   generationMetrics: {
     tokensPerSecond: number;
     totalTokens: number;
   };
+  // Every generation step, newest first, across all sessions
+  runHistory: RunRecord[];
 
   // Variables
   detectedVariables: string[];
+  // Read only inside {{#each}} bodies, where a loop item's field of the same
+  // name takes precedence; listed with the others but never flagged as empty
+  loopVariables: string[];
+  // Where each detected or loop variable is used, e.g. "System prompt", "Message 2"
+  variableUsages: Record<string, string[]>;
+  // Added by hand, kept even while no placeholder uses them
+  customVariables: string[];
   variableValues: Record<string, string>;
+  variableDefinitions: Record<string, VariableDefinition>;
+  variableEnvironments: VariableEnvironment[];
+  // Environment every session uses unless it picks its own
+  workspaceEnvironmentId: string | null;
+  // The session's own environment; null inherits the workspace one
+  sessionEnvironmentId: string | null;
 
   // UI State
   isMissionControlOpen: boolean;
+  // Compare mode runs the prompt against several presets side by side
+  isCompareMode: boolean;
+  comparePresetIds: string[];
   leftPanelWidth: number;
   rightPanelWidth: number;
   isRightPanelCollapsed: boolean;
@@ -112,6 +309,7 @@ export interface AppState {
   deleteMessage: (id: string) => void;
   duplicateMessage: (id: string) => void;
   reorderMessages: (oldIndex: number, newIndex: number) => void;
+  appendMessages: (messages: Omit<Message, "id">[]) => void;
   pushOutputToMessages: () => void;
   triggerGeneration: () => void;
 
@@ -125,24 +323,74 @@ export interface AppState {
   loadConfigPreset: (id: string) => void;
   deleteConfigPreset: (id: string) => void;
 
+  saveSnippet: (name: string, content: string) => void;
+  updateSnippet: (
+    id: string,
+    updates: Partial<Pick<Snippet, "name" | "content">>
+  ) => void;
+  deleteSnippet: (id: string) => void;
+
   // Tools
   addTool: (tool: Omit<Tool, "id">) => void;
   updateTool: (id: string, updates: Partial<Tool>) => void;
   deleteTool: (id: string) => void;
   toggleTool: (id: string) => void;
-  saveToolSet: (name: string) => void;
+  // Saves the given tools, or the current ones when omitted
+  saveToolSet: (
+    name: string,
+    tools?: Omit<Tool, "id">[],
+    mcpServer?: MCPServer
+  ) => void;
   loadToolSet: (id: string) => void;
   deleteToolSet: (id: string) => void;
+  setAgentLoopSettings: (settings: Partial<AgentLoopSettings>) => void;
+  setToolChoiceSettings: (settings: Partial<ToolChoiceSettings>) => void;
+
+  // Assertions
+  addAssertion: (type: AssertionType) => void;
+  updateAssertion: (id: string, updates: Partial<Omit<Assertion, "id">>) => void;
+  deleteAssertion: (id: string) => void;
+  setAssertionResults: (results: AssertionResult[] | null) => void;
 
   setOutput: (output: string, type?: MessageType) => void;
+  setOutputToolCalls: (toolCalls: ToolCall[]) => void;
+  setOutputReasoning: (reasoning: string) => void;
   setGenerating: (generating: boolean) => void;
   updateGenerationMetrics: (
     metrics: Partial<AppState["generationMetrics"]>
   ) => void;
 
+  // Run history
+  recordRun: (
+    run: Omit<RunRecord, "id" | "sessionId" | "createdAt" | "starred">
+  ) => void;
+  toggleRunStar: (id: string) => void;
+  deleteRun: (id: string) => void;
+  // Shows the run's output again and switches to its configuration
+  restoreRun: (id: string) => void;
+
   updateVariableValues: (values: Record<string, string>) => void;
+  addVariable: (name: string) => void;
+  // Drops the variable's value, definition and manual entry
+  removeVariable: (name: string) => void;
+  removeUnusedVariables: () => void;
+
+  // Saves the current values as an environment the session then uses
+  saveVariableEnvironment: (name: string) => void;
+  // Moves the current values into an environment
+  updateVariableEnvironment: (id: string) => void;
+  deleteVariableEnvironment: (id: string) => void;
+  setWorkspaceEnvironment: (id: string | null) => void;
+  setSessionEnvironment: (id: string | null) => void;
+  getActiveEnvironment: () => VariableEnvironment | undefined;
+  setVariableDefinition: (
+    name: string,
+    definition: Partial<VariableDefinition>
+  ) => void;
 
   setMissionControlOpen: (open: boolean) => void;
+  setCompareMode: (enabled: boolean) => void;
+  setComparePresetIds: (ids: string[]) => void;
   setPanelWidths: (left: number, right: number) => void;
   setRightPanelCollapsed: (collapsed: boolean) => void;
 
@@ -156,12 +404,16 @@ export interface AppState {
   setCurrentSessionId: (sessionId: string | null) => void;
 
   // Utilities
-  getProcessedPrompt: () => string;
-  getProcessedMessages: () => Message[];
+  // Session values layered over the active environment's values
+  getVariableValues: () => Record<string, string>;
+  // Overrides are layered over the current values, e.g. for a dataset row
+  getProcessedPrompt: (overrides?: Record<string, string>) => string;
+  getProcessedMessages: (overrides?: Record<string, string>) => Message[];
   resetOutput: () => void;
 }
 
 const defaultAPIConfiguration: APIConfiguration = {
+  provider: "openai",
   modelName: "gpt-4",
   baseURL: "https://api.openai.com/v1",
   apiKey: "",
@@ -173,38 +425,74 @@ const defaultAPIConfiguration: APIConfiguration = {
   customParameters: {},
 };
 
+const defaultAgentLoopSettings: AgentLoopSettings = {
+  enabled: false,
+  maxIterations: 5,
+};
+
+const defaultToolChoiceSettings: ToolChoiceSettings = {
+  mode: "auto",
+  functionName: "",
+  parallelToolCalls: true,
+};
+
 const generateId = () => Math.random().toString(36).substring(2, 15);
 
-const detectVariables = (text: string): string[] => {
-  const matches = text.match(/\{\{([^}]+)\}\}/g);
-  if (!matches) return [];
-  return Array.from(new Set(matches.map((match) => match.slice(2, -2).trim())));
+// Values saved into an environment now live there; left in the session as
+// overrides they would shadow every environment switched to later
+const withoutSavedValues = (
+  sessionValues: Record<string, string>,
+  saved: Record<string, string>
+): Record<string, string> =>
+  Object.fromEntries(
+    Object.entries(sessionValues).filter(([name]) => !(name in saved))
+  );
+
+// Recomputed from scratch whenever the prompt, messages or snippets change
+const trackVariables = (
+  systemPrompt: string,
+  messages: Message[],
+  snippets: Snippet[]
+) => {
+  const sources = snippetSources(snippets);
+  const variableUsages = findVariableUsages(systemPrompt, messages, sources);
+  const loopVariables = findLoopOnlyVariables(systemPrompt, messages, sources);
+  return {
+    variableUsages,
+    loopVariables,
+    detectedVariables: Object.keys(variableUsages).filter(
+      (name) => !loopVariables.includes(name)
+    ),
+  };
 };
 
+// Throws TemplateSyntaxError for malformed templates, unknown snippets and
+// include cycles
 const processTextWithVariables = (
   text: string,
-  variables: Record<string, string>
-): string => {
-  let processed = text;
-  Object.entries(variables).forEach(([key, value]) => {
-    const regex = new RegExp(`\\{\\{\\s*${key}\\s*\\}\\}`, "g");
-    processed = processed.replace(regex, value);
-  });
-  return processed;
-};
+  variables: Record<string, unknown>,
+  snippets: Snippet[]
+): string => renderTemplate(text, variables, snippetSources(snippets));
 
 export const useAppStore = create<AppState>((set, get) => {
   // Initialize from localStorage
   const initializeFromStorage = () => {
     const settings = localStorageService.getSettings();
     const currentSessionId = localStorageService.getCurrentSessionId();
+    const snippets = localStorageService.getAllSnippets();
 
     let sessionData = {
       systemPrompt: "",
       messages: [],
       apiConfiguration: defaultAPIConfiguration,
       tools: [],
+      customVariables: [],
       variableValues: {},
+      variableDefinitions: {},
+      sessionEnvironmentId: null,
+      agentLoop: defaultAgentLoopSettings,
+      toolChoice: defaultToolChoiceSettings,
+      assertions: [],
     };
 
     if (currentSessionId) {
@@ -215,7 +503,13 @@ export const useAppStore = create<AppState>((set, get) => {
           messages: session.messages,
           apiConfiguration: session.apiConfiguration,
           tools: session.tools,
+          customVariables: session.customVariables ?? [],
           variableValues: session.variableValues,
+          variableDefinitions: session.variableDefinitions ?? {},
+          sessionEnvironmentId: session.environmentId ?? null,
+          agentLoop: session.agentLoop ?? defaultAgentLoopSettings,
+          toolChoice: session.toolChoice ?? defaultToolChoiceSettings,
+          assertions: session.assertions ?? [],
         };
       }
     }
@@ -223,9 +517,17 @@ export const useAppStore = create<AppState>((set, get) => {
     return {
       currentSessionId,
       ...sessionData,
+      snippets,
+      ...trackVariables(
+        sessionData.systemPrompt,
+        sessionData.messages,
+        snippets
+      ),
       templates: localStorageService.getAllTemplates(),
       configPresets: localStorageService.getAllConfigPresets(),
       toolSets: localStorageService.getAllToolSets(),
+      variableEnvironments: localStorageService.getAllVariableEnvironments(),
+      workspaceEnvironmentId: settings.workspaceEnvironmentId ?? null,
       leftPanelWidth: settings.leftPanelWidth,
       rightPanelWidth: settings.rightPanelWidth,
       isRightPanelCollapsed: settings.isRightPanelCollapsed,
@@ -237,22 +539,24 @@ export const useAppStore = create<AppState>((set, get) => {
     ...initializeFromStorage(),
     output: "",
     outputType: "regular",
+    outputToolCalls: [],
+    outputReasoning: "",
     isGenerating: false,
     generationMetrics: {
       tokensPerSecond: 0,
       totalTokens: 0,
     },
-    detectedVariables: [],
+    assertionResults: null,
+    runHistory: localStorageService.getRunHistory(),
     isMissionControlOpen: false,
+    isCompareMode: false,
+    comparePresetIds: [],
 
     // Actions
     setSystemPrompt: (prompt: string) => {
-      const variables = detectVariables(prompt);
       set((state) => ({
         systemPrompt: prompt,
-        detectedVariables: [
-          ...new Set([...state.detectedVariables, ...variables]),
-        ],
+        ...trackVariables(prompt, state.messages, state.snippets),
       }));
       // Auto-save current session
       get().saveCurrentSession();
@@ -271,36 +575,39 @@ export const useAppStore = create<AppState>((set, get) => {
         type,
         metadata,
       };
-      set((state) => ({ messages: [...state.messages, newMessage] }));
+      set((state) => {
+        const messages = [...state.messages, newMessage];
+        return {
+          messages,
+          ...trackVariables(state.systemPrompt, messages, state.snippets),
+        };
+      });
       // Auto-save current session
       get().saveCurrentSession();
     },
 
     updateMessage: (id: string, updates: Partial<Message>) => {
-      set((state) => ({
-        messages: state.messages.map((msg) =>
+      set((state) => {
+        const messages = state.messages.map((msg) =>
           msg.id === id ? { ...msg, ...updates } : msg
-        ),
-      }));
-
-      // Update detected variables if content changed
-      if (updates.content !== undefined) {
-        const state = get();
-        const allText =
-          state.systemPrompt +
-          " " +
-          state.messages.map((m) => m.content).join(" ");
-        const variables = detectVariables(allText);
-        set({ detectedVariables: variables });
-      }
+        );
+        return {
+          messages,
+          ...trackVariables(state.systemPrompt, messages, state.snippets),
+        };
+      });
       // Auto-save current session
       get().saveCurrentSession();
     },
 
     deleteMessage: (id: string) => {
-      set((state) => ({
-        messages: state.messages.filter((msg) => msg.id !== id),
-      }));
+      set((state) => {
+        const messages = state.messages.filter((msg) => msg.id !== id);
+        return {
+          messages,
+          ...trackVariables(state.systemPrompt, messages, state.snippets),
+        };
+      });
       // Auto-save current session
       get().saveCurrentSession();
     },
@@ -324,7 +631,10 @@ export const useAppStore = create<AppState>((set, get) => {
         const newMessages = [...state.messages];
         newMessages.splice(messageIndex + 1, 0, duplicatedMessage);
 
-        return { messages: newMessages };
+        return {
+          messages: newMessages,
+          ...trackVariables(state.systemPrompt, newMessages, state.snippets),
+        };
       });
       // Auto-save current session
       get().saveCurrentSession();
@@ -335,7 +645,26 @@ export const useAppStore = create<AppState>((set, get) => {
         const newMessages = [...state.messages];
         const [movedMessage] = newMessages.splice(oldIndex, 1);
         newMessages.splice(newIndex, 0, movedMessage);
-        return { messages: newMessages };
+        return {
+          messages: newMessages,
+          ...trackVariables(state.systemPrompt, newMessages, state.snippets),
+        };
+      });
+      // Auto-save current session
+      get().saveCurrentSession();
+    },
+
+    appendMessages: (messages: Omit<Message, "id">[]) => {
+      const newMessages = messages.map((message) => ({
+        ...message,
+        id: generateId(),
+      }));
+      set((state) => {
+        const messages = [...state.messages, ...newMessages];
+        return {
+          messages,
+          ...trackVariables(state.systemPrompt, messages, state.snippets),
+        };
       });
       // Auto-save current session
       get().saveCurrentSession();
@@ -356,6 +685,7 @@ export const useAppStore = create<AppState>((set, get) => {
         name,
         systemPrompt: state.systemPrompt,
         messages: state.messages,
+        variableDefinitions: state.variableDefinitions,
         createdAt: new Date().toISOString(),
       };
       localStorageService.saveTemplate(template);
@@ -369,6 +699,16 @@ export const useAppStore = create<AppState>((set, get) => {
         set({
           systemPrompt: template.systemPrompt,
           messages: template.messages,
+          ...trackVariables(
+            template.systemPrompt,
+            template.messages,
+            state.snippets
+          ),
+          // Template declarations win over the session's for the same name
+          variableDefinitions: {
+            ...state.variableDefinitions,
+            ...template.variableDefinitions,
+          },
         });
         // Auto-save current session after loading template
         get().saveCurrentSession();
@@ -414,156 +754,43 @@ export const useAppStore = create<AppState>((set, get) => {
     setOutput: (output: string, type: MessageType = "regular") =>
       set({ output, outputType: type }),
 
-    pushOutputToMessages: () => {
-      const state = get();
-      if (!state.output.trim()) return;
-
-      // Enhanced content parsing for proper type detection
-      const detectContentType = (
-        content: string
-      ): { type: MessageType; cleanContent: string } => {
-        const cleanContent = content.trim();
-        const lowerContent = cleanContent.toLowerCase();
-
-        // Check for thinking content patterns
-        if (
-          cleanContent.includes("<think>") &&
-          cleanContent.includes("</think>")
-        ) {
-          return { type: "thinking", cleanContent };
-        }
+    setOutputToolCalls: (toolCalls: ToolCall[]) =>
+      set({ outputToolCalls: toolCalls }),
 
-        // Check for reasoning_content patterns (API response format)
-        if (
-          lowerContent.includes("reasoning_content") ||
-          lowerContent.includes("reasoning:") ||
-          lowerContent.includes("let me think") ||
-          lowerContent.includes("step by step") ||
-          lowerContent.includes("my thoughts:") ||
-          lowerContent.includes("thinking:") ||
-          lowerContent.includes("i need to think") ||
-          lowerContent.includes("let me analyze") ||
-          lowerContent.includes("first, let me") ||
-          lowerContent.includes("i should consider")
-        ) {
-          return { type: "thinking", cleanContent };
-        }
-
-        // Check for tool call patterns (more comprehensive)
-        if (
-          // Standard tool call patterns
-          (cleanContent.includes("tool_calls") && cleanContent.includes("[")) ||
-          (cleanContent.includes('"function"') &&
-            cleanContent.includes('"name"') &&
-            cleanContent.includes('"arguments"')) ||
-          (cleanContent.startsWith("{") &&
-            cleanContent.includes('"type": "function"')) ||
-          // Additional tool call indicators
-          cleanContent.includes('"tool_calls"') ||
-          cleanContent.includes('"type": "tool_call"') ||
-          cleanContent.includes('"tool_use"') ||
-          // Function call patterns
-          (cleanContent.includes('"function_call"') &&
-            cleanContent.includes('"name"')) ||
-          // Anthropic tool use format
-          (cleanContent.includes('"tool_use"') &&
-            cleanContent.includes('"name"'))
-        ) {
-          return { type: "tool_call", cleanContent };
-        }
-
-        return { type: "regular", cleanContent };
-      };
-
-      const { type, cleanContent } = detectContentType(state.output);
-
-      // Check if content should be pushable (has tool calls or regular content, not just reasoning)
-      const isPushableContent = (content: string): boolean => {
-        const cleanContent = content.trim();
-
-        // Check for tool call patterns
-        if (
-          (cleanContent.includes("tool_calls") && cleanContent.includes("[")) ||
-          (cleanContent.includes('"function"') &&
-            cleanContent.includes('"name"') &&
-            cleanContent.includes('"arguments"')) ||
-          (cleanContent.startsWith("{") &&
-            cleanContent.includes('"type": "function"')) ||
-          cleanContent.includes('"tool_calls"') ||
-          cleanContent.includes('"type": "tool_call"') ||
-          cleanContent.includes('"tool_use"') ||
-          (cleanContent.includes('"function_call"') &&
-            cleanContent.includes('"name"')) ||
-          (cleanContent.includes('"tool_use"') &&
-            cleanContent.includes('"name"'))
-        ) {
-          return true; // Has tool calls
-        }
+    setOutputReasoning: (reasoning: string) =>
+      set({ outputReasoning: reasoning }),
 
-        // Check if it has regular content (not just reasoning)
-        const hasRegularContent =
-          cleanContent.length > 0 &&
-          !cleanContent.toLowerCase().includes("reasoning_content") &&
-          !cleanContent.includes("<think>") &&
-          !cleanContent.toLowerCase().includes("reasoning:") &&
-          !cleanContent.toLowerCase().includes("let me think") &&
-          !cleanContent.toLowerCase().includes("step by step") &&
-          !cleanContent.toLowerCase().includes("my thoughts:") &&
-          !cleanContent.toLowerCase().includes("thinking:") &&
-          !cleanContent.toLowerCase().includes("i need to think") &&
-          !cleanContent.toLowerCase().includes("let me analyze") &&
-          !cleanContent.toLowerCase().includes("first, let me") &&
-          !cleanContent.toLowerCase().includes("i should consider");
-
-        return hasRegularContent;
-      };
-
-      // Don't push if content is not pushable (only reasoning/thinking)
-      if (!isPushableContent(state.output)) {
-        return;
-      }
-
-      // Determine the final message type for pushing (not for display)
-      const getFinalMessageType = (content: string): MessageType => {
-        const cleanContent = content.trim();
-
-        // Check for tool call patterns
-        if (
-          (cleanContent.includes("tool_calls") && cleanContent.includes("[")) ||
-          (cleanContent.includes('"function"') &&
-            cleanContent.includes('"name"') &&
-            cleanContent.includes('"arguments"')) ||
-          (cleanContent.startsWith("{") &&
-            cleanContent.includes('"type": "function"')) ||
-          cleanContent.includes('"tool_calls"') ||
-          cleanContent.includes('"type": "tool_call"') ||
-          cleanContent.includes('"tool_use"') ||
-          (cleanContent.includes('"function_call"') &&
-            cleanContent.includes('"name"')) ||
-          (cleanContent.includes('"tool_use"') &&
-            cleanContent.includes('"name"'))
-        ) {
-          return "tool_call";
-        }
-
-        return "regular";
-      };
-
-      // Add the output to messages with proper type
+    pushOutputToMessages: () => {
+      const state = get();
+      const content = state.output.trim();
+      const toolCalls = state.outputToolCalls;
+      const reasoning = state.outputReasoning.trim();
+      // Reasoning on its own is not a reply worth replaying
+      if (!content && toolCalls.length === 0) return;
+
+      // Add the output to messages; tool calls arrive structured from the
+      // stream, so the type no longer has to be guessed from the text
       const newMessage: Message = {
         id: generateId(),
         role: "assistant",
-        content: cleanContent,
-        type: getFinalMessageType(state.output),
+        content,
+        type: toolCalls.length > 0 ? "tool_call" : "regular",
+        ...(reasoning && { reasoning }),
+        ...(toolCalls.length > 0 && { toolCalls }),
         metadata: {
           addedFromOutput: true,
           timestamp: new Date().toISOString(),
-          detectedType: type,
           originalOutputType: state.outputType,
         },
       };
 
-      set((state) => ({ messages: [...state.messages, newMessage] }));
+      set((state) => {
+        const messages = [...state.messages, newMessage];
+        return {
+          messages,
+          ...trackVariables(state.systemPrompt, messages, state.snippets),
+        };
+      });
       // Auto-save current session
       get().saveCurrentSession();
     },
@@ -576,6 +803,81 @@ export const useAppStore = create<AppState>((set, get) => {
       }));
     },
 
+    recordRun: (run) => {
+      const state = get();
+      const record: RunRecord = {
+        ...run,
+        id: generateId(),
+        sessionId: state.currentSessionId,
+        createdAt: new Date().toISOString(),
+        // Keys never reach the history, not even in stored configurations
+        configuration: { ...run.configuration, apiKey: "" },
+        starred: false,
+      };
+      set({
+        runHistory: localStorageService.saveRunHistory([
+          record,
+          ...state.runHistory,
+        ]),
+      });
+    },
+
+    toggleRunStar: (id: string) => {
+      set((state) => ({
+        runHistory: localStorageService.saveRunHistory(
+          state.runHistory.map((run) =>
+            run.id === id ? { ...run, starred: !run.starred } : run
+          )
+        ),
+      }));
+    },
+
+    deleteRun: (id: string) => {
+      set((state) => ({
+        runHistory: localStorageService.saveRunHistory(
+          state.runHistory.filter((run) => run.id !== id)
+        ),
+      }));
+    },
+
+    restoreRun: (id: string) => {
+      const state = get();
+      const run = state.runHistory.find((r) => r.id === id);
+      if (!run) return;
+
+      set({
+        output: run.output,
+        outputType: run.toolCalls.length > 0 ? "tool_call" : "regular",
+        outputToolCalls: run.toolCalls,
+        outputReasoning: run.reasoning,
+        generationMetrics: run.metrics,
+        assertionResults: null,
+        // The stored configuration has no key, so the current one is kept
+        apiConfiguration: {
+          ...run.configuration,
+          apiKey: state.apiConfiguration.apiKey,
+        },
+      });
+      get().saveCurrentSession();
+    },
+
+    setVariableDefinition: (
+      name: string,
+      definition: Partial<VariableDefinition>
+    ) => {
+      set((state) => ({
+        variableDefinitions: {
+          ...state.variableDefinitions,
+          [name]: {
+            ...(state.variableDefinitions[name] ?? defaultVariableDefinition),
+            ...definition,
+          },
+        },
+      }));
+      // Auto-save current session
+      get().saveCurrentSession();
+    },
+
     updateVariableValues: (values: Record<string, string>) => {
       set((state) => ({
         variableValues: { ...state.variableValues, ...values },
@@ -584,6 +886,177 @@ export const useAppStore = create<AppState>((set, get) => {
       get().saveCurrentSession();
     },
 
+    addVariable: (name: string) => {
+      if (get().customVariables.includes(name)) return;
+      set((state) => ({ customVariables: [...state.customVariables, name] }));
+      // Auto-save current session
+      get().saveCurrentSession();
+    },
+
+    removeVariable: (name: string) => {
+      set((state) => {
+        const variableValues = { ...state.variableValues };
+        const variableDefinitions = { ...state.variableDefinitions };
+        delete variableValues[name];
+        delete variableDefinitions[name];
+        return {
+          variableValues,
+          variableDefinitions,
+          customVariables: state.customVariables.filter((n) => n !== name),
+        };
+      });
+      // Auto-save current session
+      get().saveCurrentSession();
+    },
+
+    removeUnusedVariables: () => {
+      const state = get();
+      const isUsed = (name: string) => name in state.variableUsages;
+      set({
+        variableValues: Object.fromEntries(
+          Object.entries(state.variableValues).filter(([name]) => isUsed(name))
+        ),
+        variableDefinitions: Object.fromEntries(
+          Object.entries(state.variableDefinitions).filter(([name]) =>
+            isUsed(name)
+          )
+        ),
+        customVariables: state.customVariables.filter(isUsed),
+      });
+      // Auto-save current session
+      get().saveCurrentSession();
+    },
+
+    saveVariableEnvironment: (name: string) => {
+      const environment: VariableEnvironment = {
+        id: generateId(),
+        name,
+        values: get().getVariableValues(),
+        createdAt: new Date().toISOString(),
+      };
+      localStorageService.saveVariableEnvironment(environment);
+      set((state) => ({
+        variableEnvironments: [...state.variableEnvironments, environment],
+        sessionEnvironmentId: environment.id,
+        variableValues: withoutSavedValues(
+          state.variableValues,
+          environment.values
+        ),
+      }));
+      // Auto-save current session
+      get().saveCurrentSession();
+    },
+
+    updateVariableEnvironment: (id: string) => {
+      const state = get();
+      const environment = state.variableEnvironments.find((e) => e.id === id);
+      if (!environment) return;
+
+      const updated = { ...environment, values: state.getVariableValues() };
+      const isActive = state.getActiveEnvironment()?.id === id;
+      localStorageService.saveVariableEnvironment(updated);
+      set((state) => ({
+        variableEnvironments: state.variableEnvironments.map((e) =>
+          e.id === id ? updated : e
+        ),
+        ...(isActive && {
+          variableValues: withoutSavedValues(
+            state.variableValues,
+            updated.values
+          ),
+        }),
+      }));
+      // Auto-save current session
+      get().saveCurrentSession();
+    },
+
+    deleteVariableEnvironment: (id: string) => {
+      localStorageService.deleteVariableEnvironment(id);
+      const state = get();
+      if (state.workspaceEnvironmentId === id) {
+        state.setWorkspaceEnvironment(null);
+      }
+      set((state) => ({
+        variableEnvironments: state.variableEnvironments.filter(
+          (e) => e.id !== id
+        ),
+        sessionEnvironmentId:
+          state.sessionEnvironmentId === id ? null : state.sessionEnvironmentId,
+      }));
+      // Auto-save current session
+      get().saveCurrentSession();
+    },
+
+    setWorkspaceEnvironment: (id: string | null) => {
+      set({ workspaceEnvironmentId: id });
+      localStorageService.updateSettings({ workspaceEnvironmentId: id });
+    },
+
+    setSessionEnvironment: (id: string | null) => {
+      set({ sessionEnvironmentId: id });
+      // Auto-save current session
+      get().saveCurrentSession();
+    },
+
+    // Sessions pointing at a deleted environment fall back to the workspace's
+    getActiveEnvironment: () => {
+      const state = get();
+      const find = (id: string | null) =>
+        state.variableEnvironments.find((e) => e.id === id);
+      return (
+        find(state.sessionEnvironmentId) ?? find(state.workspaceEnvironmentId)
+      );
+    },
+
+    saveSnippet: (name: string, content: string) => {
+      const snippet: Snippet = {
+        id: generateId(),
+        name,
+        content,
+        createdAt: new Date().toISOString(),
+      };
+      localStorageService.saveSnippet(snippet);
+      set((state) => {
+        const snippets = [...state.snippets, snippet];
+        return {
+          snippets,
+          ...trackVariables(state.systemPrompt, state.messages, snippets),
+        };
+      });
+    },
+
+    // Sessions include snippets by name, so every one of them sees the edit
+    updateSnippet: (
+      id: string,
+      updates: Partial<Pick<Snippet, "name" | "content">>
+    ) => {
+      const snippet = get().snippets.find((snippet) => snippet.id === id);
+      if (!snippet) return;
+
+      const updated = { ...snippet, ...updates };
+      localStorageService.saveSnippet(updated);
+      set((state) => {
+        const snippets = state.snippets.map((snippet) =>
+          snippet.id === id ? updated : snippet
+        );
+        return {
+          snippets,
+          ...trackVariables(state.systemPrompt, state.messages, snippets),
+        };
+      });
+    },
+
+    deleteSnippet: (id: string) => {
+      localStorageService.deleteSnippet(id);
+      set((state) => {
+        const snippets = state.snippets.filter((snippet) => snippet.id !== id);
+        return {
+          snippets,
+          ...trackVariables(state.systemPrompt, state.messages, snippets),
+        };
+      });
+    },
+
     // Tool management functions
     addTool: (tool: Omit<Tool, "id">) => {
       const newTool: Tool = {
@@ -623,12 +1096,19 @@ export const useAppStore = create<AppState>((set, get) => {
       get().saveCurrentSession();
     },
 
-    saveToolSet: (name: string) => {
+    saveToolSet: (
+      name: string,
+      tools?: Omit<Tool, "id">[],
+      mcpServer?: MCPServer
+    ) => {
       const state = get();
       const toolSet: ToolSet = {
         id: generateId(),
         name,
-        tools: state.tools,
+        tools: tools
+          ? tools.map((tool) => ({ ...tool, id: generateId() }))
+          : state.tools,
+        ...(mcpServer && { mcpServer }),
         createdAt: new Date().toISOString(),
       };
       localStorageService.saveToolSet(toolSet);
@@ -652,8 +1132,61 @@ export const useAppStore = create<AppState>((set, get) => {
       }));
     },
 
+    setAgentLoopSettings: (settings: Partial<AgentLoopSettings>) => {
+      set((state) => ({ agentLoop: { ...state.agentLoop, ...settings } }));
+      // Auto-save current session
+      get().saveCurrentSession();
+    },
+
+    setToolChoiceSettings: (settings: Partial<ToolChoiceSettings>) => {
+      set((state) => ({ toolChoice: { ...state.toolChoice, ...settings } }));
+      // Auto-save current session
+      get().saveCurrentSession();
+    },
+
+    addAssertion: (type: AssertionType) => {
+      const assertion: Assertion = {
+        id: generateId(),
+        type,
+        value: "",
+        enabled: true,
+      };
+      set((state) => ({ assertions: [...state.assertions, assertion] }));
+      // Auto-save current session
+      get().saveCurrentSession();
+    },
+
+    updateAssertion: (
+      id: string,
+      updates: Partial<Omit<Assertion, "id">>
+    ) => {
+      set((state) => ({
+        assertions: state.assertions.map((assertion) =>
+          assertion.id === id ? { ...assertion, ...updates } : assertion
+        ),
+      }));
+      // Auto-save current session
+      get().saveCurrentSession();
+    },
+
+    deleteAssertion: (id: string) => {
+      set((state) => ({
+        assertions: state.assertions.filter((assertion) => assertion.id !== id),
+        assertionResults:
+          state.assertionResults?.filter((result) => result.assertionId !== id) ??
+          null,
+      }));
+      // Auto-save current session
+      get().saveCurrentSession();
+    },
+
+    setAssertionResults: (results: AssertionResult[] | null) =>
+      set({ assertionResults: results }),
+
     setMissionControlOpen: (open: boolean) =>
       set({ isMissionControlOpen: open }),
+    setCompareMode: (enabled: boolean) => set({ isCompareMode: enabled }),
+    setComparePresetIds: (ids: string[]) => set({ comparePresetIds: ids }),
     setPanelWidths: (left: number, right: number) => {
       set({ leftPanelWidth: left, rightPanelWidth: right });
       localStorageService.updateSettings({
@@ -671,23 +1204,60 @@ export const useAppStore = create<AppState>((set, get) => {
       // Added here for keyboard shortcut support
     },
 
-    getProcessedPrompt: () => {
+    getVariableValues: () => {
       const state = get();
-      return processTextWithVariables(state.systemPrompt, state.variableValues);
+      return layerVariableValues(
+        state.getActiveEnvironment()?.values ?? {},
+        state.variableValues
+      );
     },
 
-    getProcessedMessages: () => {
+    // Both throw on template syntax errors, naming where the error is
+    getProcessedPrompt: (overrides = {}) => {
       const state = get();
-      return state.messages.map((msg) => ({
-        ...msg,
-        content: processTextWithVariables(msg.content, state.variableValues),
-      }));
+      try {
+        return processTextWithVariables(
+          state.systemPrompt,
+          resolveVariableValues(
+            layerVariableValues(state.getVariableValues(), overrides),
+            state.variableDefinitions
+          ),
+          state.snippets
+        );
+      } catch (error) {
+        throw new Error(`System prompt: ${(error as Error).message}`);
+      }
+    },
+
+    getProcessedMessages: (overrides = {}) => {
+      const state = get();
+      const values = resolveVariableValues(
+        layerVariableValues(state.getVariableValues(), overrides),
+        state.variableDefinitions
+      );
+      return state.messages.map((msg, index) => {
+        try {
+          return {
+            ...msg,
+            content: processTextWithVariables(
+              msg.content,
+              values,
+              state.snippets
+            ),
+          };
+        } catch (error) {
+          throw new Error(`Message ${index + 1}: ${(error as Error).message}`);
+        }
+      });
     },
 
     resetOutput: () => {
       set({
         output: "",
+        outputToolCalls: [],
+        outputReasoning: "",
         generationMetrics: { tokensPerSecond: 0, totalTokens: 0 },
+        assertionResults: null,
       });
     },
 
@@ -699,7 +1269,13 @@ export const useAppStore = create<AppState>((set, get) => {
         messages: state.messages,
         apiConfiguration: state.apiConfiguration,
         tools: state.tools,
+        customVariables: state.customVariables,
         variableValues: state.variableValues,
+        variableDefinitions: state.variableDefinitions,
+        environmentId: state.sessionEnvironmentId,
+        agentLoop: state.agentLoop,
+        toolChoice: state.toolChoice,
+        assertions: state.assertions,
       });
 
       set({ currentSessionId: session.id });
@@ -715,7 +1291,19 @@ export const useAppStore = create<AppState>((set, get) => {
           messages: session.messages,
           apiConfiguration: session.apiConfiguration,
           tools: session.tools,
+          ...trackVariables(
+            session.systemPrompt,
+            session.messages,
+            get().snippets
+          ),
+          customVariables: session.customVariables ?? [],
           variableValues: session.variableValues,
+          variableDefinitions: session.variableDefinitions ?? {},
+          sessionEnvironmentId: session.environmentId ?? null,
+          agentLoop: session.agentLoop ?? defaultAgentLoopSettings,
+          toolChoice: session.toolChoice ?? defaultToolChoiceSettings,
+          assertions: session.assertions ?? [],
+          assertionResults: null,
         });
         localStorageService.setCurrentSession(sessionId);
       }
@@ -729,7 +1317,13 @@ export const useAppStore = create<AppState>((set, get) => {
           messages: state.messages,
           apiConfiguration: state.apiConfiguration,
           tools: state.tools,
+          customVariables: state.customVariables,
           variableValues: state.variableValues,
+          variableDefinitions: state.variableDefinitions,
+          environmentId: state.sessionEnvironmentId,
+          agentLoop: state.agentLoop,
+          toolChoice: state.toolChoice,
+          assertions: state.assertions,
         });
       }
     },
@@ -744,7 +1338,15 @@ export const useAppStore = create<AppState>((set, get) => {
           messages: [],
           apiConfiguration: defaultAPIConfiguration,
           tools: [],
+          ...trackVariables("", [], state.snippets),
+          customVariables: [],
           variableValues: {},
+          variableDefinitions: {},
+          sessionEnvironmentId: null,
+          agentLoop: defaultAgentLoopSettings,
+          toolChoice: defaultToolChoiceSettings,
+          assertions: [],
+          assertionResults: null,
         });
       }
     },
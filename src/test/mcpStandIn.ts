@@ -0,0 +1,173 @@
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+
+// A small Streamable HTTP MCP server for tests. It speaks just enough of the
+// protocol for the client: initialize, tools/list (two pages) and tools/call
+// with an `echo` tool.
+
+export interface MCPStandInOptions {
+  // Requests without this bearer token are rejected with 401
+  authToken?: string;
+  // Answer requests over an event stream that stays open afterwards
+  useEventStream?: boolean;
+}
+
+export interface RecordedRequest {
+  method: string;
+  sessionId: string | null;
+  authorization: string | null;
+}
+
+export interface MCPStandIn {
+  url: string;
+  requests: RecordedRequest[];
+  // Event streams the client has not closed yet
+  openStreams: () => number;
+  // Forgets every session, so their next request gets a 404
+  expireSessions: () => void;
+  close: () => Promise<void>;
+}
+
+const TOOLS = [
+  {
+    name: "echo",
+    description: "Echoes its text argument",
+    inputSchema: {
+      type: "object",
+      properties: { text: { type: "string" } },
+      required: ["text"],
+    },
+  },
+  {
+    name: "add",
+    description: "Adds two numbers",
+    inputSchema: {
+      type: "object",
+      properties: { a: { type: "number" }, b: { type: "number" } },
+    },
+  },
+];
+
+const readBody = (request: IncomingMessage): Promise<any> =>
+  new Promise((resolve, reject) => {
+    let body = "";
+    request.on("data", (chunk) => (body += chunk));
+    request.on("end", () => resolve(body ? JSON.parse(body) : null));
+    request.on("error", reject);
+  });
+
+export const startMCPStandIn = async (
+  options: MCPStandInOptions = {}
+): Promise<MCPStandIn> => {
+  const requests: RecordedRequest[] = [];
+  const sessions = new Set<string>();
+  const streams = new Set<ServerResponse>();
+  let nextSession = 1;
+
+  const answer = (response: ServerResponse, message: Record<string, any>) => {
+    if (!options.useEventStream) {
+      response.writeHead(200, { "Content-Type": "application/json" });
+      response.end(JSON.stringify(message));
+      return;
+    }
+
+    response.writeHead(200, { "Content-Type": "text/event-stream" });
+    // A notification first, as real servers may send progress
+    response.write(
+      `data: ${JSON.stringify({ jsonrpc: "2.0", method: "notifications/progress" })}\n\n`
+    );
+    response.write(`data: ${JSON.stringify(message)}\n\n`);
+    streams.add(response);
+    response.on("close", () => streams.delete(response));
+  };
+
+  const handle = async (request: IncomingMessage, response: ServerResponse) => {
+    const message = await readBody(request);
+    const sessionId = (request.headers["mcp-session-id"] as string) ?? null;
+    const authorization = request.headers.authorization ?? null;
+    requests.push({ method: message?.method, sessionId, authorization });
+
+    if (options.authToken && authorization !== `Bearer ${options.authToken}`) {
+      response.writeHead(401).end("Unauthorized");
+      return;
+    }
+
+    if (message.method === "initialize") {
+      const session = `session-${nextSession++}`;
+      sessions.add(session);
+      response.setHeader("Mcp-Session-Id", session);
+      answer(response, {
+        jsonrpc: "2.0",
+        id: message.id,
+        result: {
+          protocolVersion: message.params.protocolVersion,
+          capabilities: { tools: {} },
+          serverInfo: { name: "mcp-stand-in", version: "1.0.0" },
+        },
+      });
+      return;
+    }
+
+    if (!sessionId || !sessions.has(sessionId)) {
+      response.writeHead(404).end("Unknown session");
+      return;
+    }
+
+    if (message.method === "notifications/initialized") {
+      response.writeHead(202).end();
+      return;
+    }
+
+    if (message.method === "tools/list") {
+      // One tool per page, to exercise cursors
+      const index = message.params?.cursor ? Number(message.params.cursor) : 0;
+      answer(response, {
+        jsonrpc: "2.0",
+        id: message.id,
+        result: {
+          tools: [TOOLS[index]],
+          ...(index + 1 < TOOLS.length && { nextCursor: String(index + 1) }),
+        },
+      });
+      return;
+    }
+
+    if (message.method === "tools/call" && message.params.name === "echo") {
+      answer(response, {
+        jsonrpc: "2.0",
+        id: message.id,
+        result: {
+          content: [{ type: "text", text: message.params.arguments.text }],
+        },
+      });
+      return;
+    }
+
+    answer(response, {
+      jsonrpc: "2.0",
+      id: message.id,
+      error: { code: -32601, message: `Unknown method ${message.method}` },
+    });
+  };
+
+  const server = createServer((request, response) => {
+    handle(request, response).catch((error) => {
+      response.writeHead(500).end(String(error));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/mcp`,
+    requests,
+    openStreams: () => streams.size,
+    expireSessions: () => sessions.clear(),
+    close: () =>
+      new Promise((resolve) => {
+        server.close(() => resolve());
+        // Keep-alive sockets would otherwise hold the server open
+        server.closeAllConnections();
+      }),
+  };
+};
@@ -0,0 +1,230 @@
+import type {
+  Assertion,
+  AssertionResult,
+  AssertionType,
+  ToolCall,
+} from "../store/useAppStore";
+import { formatViolation, validateJSONValue } from "./toolSchema";
+
+// What an assertion is checked against: one generated output
+export interface AssertionSubject {
+  output: string;
+  toolCalls: ToolCall[];
+}
+
+export interface AssertionSummary {
+  passed: number;
+  total: number;
+  // Fraction of checks that passed; null when nothing was checked
+  passRate: number | null;
+}
+
+export const assertionTypeLabels: Record<AssertionType, string> = {
+  contains: "Contains",
+  not_contains: "Does not contain",
+  regex: "Matches regex",
+  valid_json: "Valid JSON",
+  json_schema: "Matches JSON schema",
+  max_length: "Max length",
+  tool_call: "Calls tool",
+  javascript: "JavaScript predicate",
+};
+
+export const assertionPlaceholders: Record<AssertionType, string> = {
+  contains: "Text the output must contain (case-sensitive)",
+  not_contains: "Text the output must not contain (case-sensitive)",
+  regex: "Pattern, or /pattern/flags",
+  valid_json: "",
+  json_schema: '{ "type": "object", "required": ["answer"] }',
+  max_length: "Maximum number of characters",
+  tool_call: "Tool name",
+  javascript: 'return output.split("\\n").length <= 5',
+};
+
+// Values short enough to read in a badge; schemas and code are not
+const labelledTypes = new Set<AssertionType>([
+  "contains",
+  "not_contains",
+  "regex",
+  "max_length",
+  "tool_call",
+]);
+
+const truncate = (text: string, length: number) =>
+  text.length > length ? `${text.slice(0, length)}…` : text;
+
+export const assertionTakesValue = (type: AssertionType): boolean =>
+  type !== "valid_json";
+
+// Disabled and half-written assertions are left out of a run
+export const isAssertionReady = (assertion: Assertion): boolean =>
+  assertion.enabled &&
+  (!assertionTakesValue(assertion.type) || Boolean(assertion.value.trim()));
+
+export const describeAssertion = (assertion: Assertion): string => {
+  const label = assertionTypeLabels[assertion.type];
+  if (!labelledTypes.has(assertion.type) || !assertion.value) return label;
+  const value =
+    assertion.type === "contains" || assertion.type === "not_contains"
+      ? `"${truncate(assertion.value, 24)}"`
+      : truncate(assertion.value, 24);
+  return `${label} ${value}`;
+};
+
+// Accepts /pattern/flags as well as a bare pattern
+export const parseAssertionRegex = (value: string): RegExp => {
+  const literal = value.match(/^\/(.*)\/([a-z]*)$/s);
+  return literal ? new RegExp(literal[1], literal[2]) : new RegExp(value);
+};
+
+// Models often wrap JSON answers in a Markdown code fence
+const stripCodeFence = (text: string): string => {
+  const fenced = text.trim().match(/^```[\w-]*\n([\s\S]*?)\n?```$/);
+  return fenced ? fenced[1] : text.trim();
+};
+
+const parseOutputJSON = (
+  output: string
+): { value?: unknown; error?: string } => {
+  try {
+    return { value: JSON.parse(stripCodeFence(output)) };
+  } catch (error) {
+    return {
+      error: `Output is not valid JSON (${
+        error instanceof Error ? error.message : String(error)
+      })`,
+    };
+  }
+};
+
+type CheckResult = Omit<AssertionResult, "assertionId">;
+
+/**
+ * Runs every kind of assertion except JavaScript predicates, which need the
+ * sandbox and are evaluated by the assertion service.
+ */
+export const checkAssertion = (
+  assertion: Assertion,
+  { output, toolCalls }: AssertionSubject
+): CheckResult => {
+  const { value } = assertion;
+
+  switch (assertion.type) {
+    case "contains":
+      return output.includes(value)
+        ? { passed: true }
+        : { passed: false, message: `Output does not contain "${value}"` };
+
+    case "not_contains":
+      return output.includes(value)
+        ? { passed: false, message: `Output contains "${value}"` }
+        : { passed: true };
+
+    case "regex": {
+      let pattern: RegExp;
+      try {
+        pattern = parseAssertionRegex(value);
+      } catch (error) {
+        return {
+          passed: false,
+          message: `Invalid regex: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+        };
+      }
+      const match = output.match(pattern);
+      return match
+        ? { passed: true, message: `Matched "${truncate(match[0], 60)}"` }
+        : { passed: false, message: `No match for ${pattern}` };
+    }
+
+    case "valid_json": {
+      const parsed = parseOutputJSON(output);
+      return parsed.error
+        ? { passed: false, message: parsed.error }
+        : { passed: true };
+    }
+
+    case "json_schema": {
+      let schema: unknown;
+      try {
+        schema = JSON.parse(value);
+      } catch (error) {
+        return { passed: false, message: "Schema is not valid JSON" };
+      }
+      if (!schema || typeof schema !== "object") {
+        return { passed: false, message: "Schema must be a JSON object" };
+      }
+
+      const parsed = parseOutputJSON(output);
+      if (parsed.error) return { passed: false, message: parsed.error };
+
+      try {
+        const violations = validateJSONValue(schema, parsed.value);
+        return violations.length === 0
+          ? { passed: true }
+          : {
+              passed: false,
+              message: violations.map(formatViolation).join("; "),
+            };
+      } catch (error) {
+        return {
+          passed: false,
+          message: `Invalid schema: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+        };
+      }
+    }
+
+    case "max_length": {
+      const limit = Number(value);
+      if (!Number.isInteger(limit) || limit < 0) {
+        return { passed: false, message: "Max length must be a whole number" };
+      }
+      return output.length <= limit
+        ? { passed: true, message: `${output.length} characters` }
+        : {
+            passed: false,
+            message: `${output.length} characters, over the limit of ${limit}`,
+          };
+    }
+
+    case "tool_call": {
+      const name = value.trim();
+      if (toolCalls.some((call) => call.name === name)) return { passed: true };
+      return {
+        passed: false,
+        message: toolCalls.length
+          ? `No call to "${name}"; called ${toolCalls
+              .map((call) => call.name)
+              .join(", ")}`
+          : `No call to "${name}"; no tools were called`,
+      };
+    }
+
+    default:
+      return {
+        passed: false,
+        message: `"${assertion.type}" checks are not supported here`,
+      };
+  }
+};
+
+export const summarizeAssertionResults = (
+  results: AssertionResult[]
+): AssertionSummary => {
+  const passed = results.filter((result) => result.passed).length;
+  return {
+    passed,
+    total: results.length,
+    passRate: results.length ? passed / results.length : null,
+  };
+};
+
+export const formatPassRate = (summary: AssertionSummary): string =>
+  summary.passRate === null
+    ? "No checks"
+    : `${summary.passed}/${summary.total} passed (${Math.round(
+        summary.passRate * 100
+      )}%)`;
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { formatDataset, parseDataset } from "./dataset";
+
+describe("parseDataset", () => {
+  it("reads CSV with quoted fields and CRLF line ends", () => {
+    expect(
+      parseDataset('name,note\r\nAda,"says ""hi"", twice"\r\n', "rows.csv")
+    ).toEqual({
+      columns: ["name", "note"],
+      rows: [{ name: "Ada", note: 'says "hi", twice' }],
+    });
+  });
+
+  it("strips a byte order mark before the header", () => {
+    const dataset = parseDataset("\uFEFFname,city\nAda,London\n", "rows.csv");
+
+    expect(dataset.columns).toEqual(["name", "city"]);
+    expect(dataset.rows[0].name).toBe("Ada");
+  });
+
+  it("strips a byte order mark before JSONL", () => {
+    expect(parseDataset('\uFEFF{"name": "Ada"}\n', "rows.jsonl").rows).toEqual(
+      [{ name: "Ada" }]
+    );
+  });
+
+  it("reports rows with the wrong number of fields", () => {
+    expect(() => parseDataset("a,b\n1\n", "rows.csv")).toThrow(
+      "Row 1 has 1 fields, expected 2"
+    );
+  });
+});
+
+describe("formatDataset", () => {
+  it("round-trips CSV", () => {
+    const rows = [{ name: "Ada", note: 'a "quoted", line\nbreak' }];
+    const text = formatDataset(rows, ["name", "note"], "csv");
+
+    expect(parseDataset(text, "rows.csv").rows).toEqual(rows);
+  });
+});
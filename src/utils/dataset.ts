@@ -0,0 +1,147 @@
+// Rows of variable values loaded from a CSV or JSONL file
+export interface Dataset {
+  columns: string[];
+  rows: Record<string, string>[];
+}
+
+export type DatasetFormat = "csv" | "jsonl";
+
+// Splits CSV text into records of fields, honouring quotes (RFC 4180)
+const parseCSVRecords = (text: string): string[][] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) throw new Error("CSV ends inside a quoted field");
+  if (field || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  // Blank lines carry no row
+  return records.filter((r) => r.length > 1 || r[0] !== "");
+};
+
+const parseCSV = (text: string): Dataset => {
+  const [header, ...records] = parseCSVRecords(text);
+  if (!header) throw new Error("The file has no header row");
+
+  const columns = header.map((column) => column.trim());
+  const rows = records.map((record, index) => {
+    if (record.length !== columns.length) {
+      throw new Error(
+        `Row ${index + 1} has ${record.length} fields, expected ${columns.length}`
+      );
+    }
+    return Object.fromEntries(
+      columns.map((column, i) => [column, record[i]])
+    );
+  });
+  return { columns, rows };
+};
+
+// Non-string values are kept as JSON so they still work as typed variables
+const toCellText = (value: unknown): string =>
+  typeof value === "string"
+    ? value
+    : value === undefined || value === null
+      ? ""
+      : JSON.stringify(value);
+
+const parseJSONL = (text: string): Dataset => {
+  const columns = new Set<string>();
+  const rows: Record<string, string>[] = [];
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) return;
+
+    let value: unknown;
+    try {
+      value = JSON.parse(line);
+    } catch (error) {
+      throw new Error(`Line ${index + 1} is not valid JSON`);
+    }
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+      throw new Error(`Line ${index + 1} is not a JSON object`);
+    }
+
+    const row: Record<string, string> = {};
+    for (const [key, cell] of Object.entries(value)) {
+      columns.add(key);
+      row[key] = toCellText(cell);
+    }
+    rows.push(row);
+  });
+
+  return { columns: [...columns], rows };
+};
+
+/**
+ * Reads a dataset, taking the format from the file extension and falling
+ * back to JSONL when the first line is a JSON object.
+ */
+export const parseDataset = (text: string, fileName: string): Dataset => {
+  // Spreadsheet exports often start with a byte order mark
+  const content = text.replace(/^\uFEFF/, "");
+  const isJSONL =
+    /\.(jsonl|ndjson)$/i.test(fileName) ||
+    (!/\.csv$/i.test(fileName) && content.trimStart().startsWith("{"));
+  const dataset = isJSONL ? parseJSONL(content) : parseCSV(content);
+  if (dataset.rows.length === 0) throw new Error("The file has no rows");
+  return dataset;
+};
+
+const escapeCSVField = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const formatDataset = (
+  rows: Record<string, unknown>[],
+  columns: string[],
+  format: DatasetFormat
+): string => {
+  if (format === "jsonl") {
+    return rows.map((row) => JSON.stringify(row)).join("\n") + "\n";
+  }
+  return (
+    [
+      columns.map(escapeCSVField).join(","),
+      ...rows.map((row) =>
+        columns
+          .map((column) => escapeCSVField(toCellText(row[column])))
+          .join(",")
+      ),
+    ].join("\r\n") + "\r\n"
+  );
+};
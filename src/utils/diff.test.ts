@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { countChanges, diffText, toSideBySideRows } from "./diff";
+
+const join = (parts: ReturnType<typeof diffText>, skip: "added" | "removed") =>
+  parts
+    .filter((part) => part.type !== skip)
+    .map((part) => part.value)
+    .join("");
+
+describe("diffText by line", () => {
+  it("keeps the old last line when a line is appended", () => {
+    expect(diffText("a\nb", "a\nb\nc", "line")).toEqual([
+      { type: "equal", value: "a\nb\n", count: 2 },
+      { type: "added", value: "c\n", count: 1 },
+    ]);
+  });
+
+  it("marks a changed line as removed and added", () => {
+    expect(diffText("a\nb\nc\n", "a\nB\nc\n", "line")).toEqual([
+      { type: "equal", value: "a\n", count: 1 },
+      { type: "removed", value: "b\n", count: 1 },
+      { type: "added", value: "B\n", count: 1 },
+      { type: "equal", value: "c\n", count: 1 },
+    ]);
+  });
+
+  it("gives both texts back, each line ending with a break", () => {
+    const parts = diffText("one\ntwo\nthree", "zero\none\nthree\nfour", "line");
+
+    expect(join(parts, "added")).toBe("one\ntwo\nthree\n");
+    expect(join(parts, "removed")).toBe("zero\none\nthree\nfour\n");
+  });
+
+  it("keeps blank lines", () => {
+    expect(diffText("a\n\nb", "a\nb", "line")).toEqual([
+      { type: "equal", value: "a\n", count: 1 },
+      { type: "removed", value: "\n", count: 1 },
+      { type: "equal", value: "b\n", count: 1 },
+    ]);
+  });
+});
+
+describe("diffText by word", () => {
+  it("gives both texts back exactly", () => {
+    const before = "The quick brown fox.";
+    const after = "The slow brown fox!\n";
+    const parts = diffText(before, after, "word");
+
+    expect(join(parts, "added")).toBe(before);
+    expect(join(parts, "removed")).toBe(after);
+    expect(countChanges(parts)).toEqual({ added: 2, removed: 2 });
+  });
+
+  it("falls back to one removal and one addition past the edit limit", () => {
+    const before = Array.from({ length: 1500 }, (_, i) => `a${i}`).join(" ");
+    const after = Array.from({ length: 1500 }, (_, i) => `b${i}`).join(" ");
+    const parts = diffText(before, after, "word");
+
+    expect(parts.map((part) => part.type)).toEqual(["removed", "added"]);
+  });
+});
+
+describe("toSideBySideRows", () => {
+  it("pairs replaced lines and numbers each side", () => {
+    const rows = toSideBySideRows(diffText("a\nb\nc", "a\nB\nc\nd", "line"));
+
+    expect(
+      rows.map(({ before, after }) => [
+        before && `${before.number}${before.type[0]} ${before.text}`,
+        after && `${after.number}${after.type[0]} ${after.text}`,
+      ])
+    ).toEqual([
+      ["1e a", "1e a"],
+      ["2r b", "2a B"],
+      ["3e c", "3e c"],
+      [null, "4a d"],
+    ]);
+  });
+});
@@ -0,0 +1,220 @@
+export type DiffGranularity = "word" | "line";
+
+export type DiffPartType = "equal" | "added" | "removed";
+
+// A run of consecutive tokens that were kept, added or removed
+export interface DiffPart {
+  type: DiffPartType;
+  value: string;
+  // Number of tokens (words or lines) in the run
+  count: number;
+}
+
+// One line of a side-by-side view; numbers count from 1 on each side
+export interface DiffLine {
+  type: DiffPartType;
+  text: string;
+  number: number;
+}
+
+export interface DiffRow {
+  before: DiffLine | null;
+  after: DiffLine | null;
+}
+
+// Bounds the work on unrelated texts; past this many edits the differing
+// middle is shown as one removal and one addition
+const MAX_EDITS = 2000;
+
+// Lines are compared by their content alone: each gets a line break, so a
+// last line without one still matches the same line with more text after it
+const splitLines = (text: string): string[] => {
+  if (!text) return [];
+  const lines = text.split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines.map((line) => `${line}\n`);
+};
+
+// Words, runs of whitespace and single punctuation marks
+const splitWords = (text: string): string[] =>
+  text.match(/\s+|[\p{L}\p{N}_]+|[^\s\p{L}\p{N}_]/gu) ?? [];
+
+const pushPart = (parts: DiffPart[], type: DiffPartType, token: string) => {
+  const last = parts[parts.length - 1];
+  if (last?.type === type) {
+    last.value += token;
+    last.count++;
+  } else {
+    parts.push({ type, value: token, count: 1 });
+  }
+};
+
+/**
+ * Myers' O(ND) diff of two token lists. Returns the edit script in order,
+ * or null when the lists need more than MAX_EDITS edits.
+ */
+const diffTokens = (
+  a: string[],
+  b: string[]
+): { type: DiffPartType; token: string }[] | null => {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, MAX_EDITS);
+  const offset = max + 1;
+  const v: number[] = new Array(2 * max + 3).fill(0);
+  // trace[d] holds the furthest x of each diagonal -d..d before step d
+  const trace: number[][] = [];
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice(offset - d, offset + d + 1));
+
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) return backtrack(a, b, trace, d);
+    }
+  }
+  return null;
+};
+
+const backtrack = (
+  a: string[],
+  b: string[],
+  trace: number[][],
+  edits: number
+): { type: DiffPartType; token: string }[] => {
+  const script: { type: DiffPartType; token: string }[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = edits; d > 0; d--) {
+    const v = trace[d];
+    const at = (k: number) => v[k + d];
+    const k = x - y;
+    const isInsertion = k === -d || (k !== d && at(k - 1) < at(k + 1));
+    const prevK = isInsertion ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      script.push({ type: "equal", token: a[--x] });
+      y--;
+    }
+    if (isInsertion) {
+      script.push({ type: "added", token: b[prevY] });
+    } else {
+      script.push({ type: "removed", token: a[prevX] });
+    }
+    x = prevX;
+    y = prevY;
+  }
+  while (x > 0 && y > 0) {
+    script.push({ type: "equal", token: a[--x] });
+    y--;
+  }
+
+  return script.reverse();
+};
+
+/**
+ * Compares two texts word by word or line by line. Joining the equal and
+ * removed parts gives the first text back, equal and added the second; in
+ * line diffs every line, the last included, ends with a line break.
+ */
+export const diffText = (
+  before: string,
+  after: string,
+  granularity: DiffGranularity
+): DiffPart[] => {
+  const split = granularity === "line" ? splitLines : splitWords;
+  const a = split(before);
+  const b = split(after);
+
+  // A shared start and end are common when tuning prompts and cost nothing
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let end = 0;
+  while (
+    end < a.length - start &&
+    end < b.length - start &&
+    a[a.length - 1 - end] === b[b.length - 1 - end]
+  ) {
+    end++;
+  }
+
+  const middleA = a.slice(start, a.length - end);
+  const middleB = b.slice(start, b.length - end);
+  const script = diffTokens(middleA, middleB) ?? [
+    ...middleA.map((token) => ({ type: "removed" as const, token })),
+    ...middleB.map((token) => ({ type: "added" as const, token })),
+  ];
+
+  const parts: DiffPart[] = [];
+  a.slice(0, start).forEach((token) => pushPart(parts, "equal", token));
+  script.forEach(({ type, token }) => pushPart(parts, type, token));
+  a.slice(a.length - end).forEach((token) => pushPart(parts, "equal", token));
+  return parts;
+};
+
+// Tokens added and removed, ignoring whitespace-only words
+export const countChanges = (
+  parts: DiffPart[]
+): { added: number; removed: number } => {
+  const count = (type: DiffPartType) =>
+    parts
+      .filter((part) => part.type === type)
+      .reduce(
+        (sum, part) =>
+          sum + splitWords(part.value).filter((token) => token.trim()).length,
+        0
+      );
+  return { added: count("added"), removed: count("removed") };
+};
+
+/**
+ * Lays a line diff out in two columns. Removed lines sit next to the lines
+ * that replaced them; unmatched lines get an empty cell on the other side.
+ */
+export const toSideBySideRows = (parts: DiffPart[]): DiffRow[] => {
+  const rows: DiffRow[] = [];
+  let beforeNumber = 0;
+  let afterNumber = 0;
+  let removed: DiffLine[] = [];
+  let added: DiffLine[] = [];
+
+  const flushChanges = () => {
+    for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+      rows.push({ before: removed[i] ?? null, after: added[i] ?? null });
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const part of parts) {
+    for (const line of splitLines(part.value)) {
+      const text = line.replace(/\n$/, "");
+      if (part.type === "removed") {
+        removed.push({ type: "removed", text, number: ++beforeNumber });
+      } else if (part.type === "added") {
+        added.push({ type: "added", text, number: ++afterNumber });
+      } else {
+        flushChanges();
+        rows.push({
+          before: { type: "equal", text, number: ++beforeNumber },
+          after: { type: "equal", text, number: ++afterNumber },
+        });
+      }
+    }
+  }
+  flushChanges();
+  return rows;
+};
@@ -0,0 +1,144 @@
+import { describe, expect, it } from "vitest";
+import {
+  listOpenAPIOperations,
+  parseOpenAPIDocument,
+  type OpenAPIDocument,
+} from "./openApi";
+
+const petStore: OpenAPIDocument = {
+  openapi: "3.0.3",
+  paths: {
+    "/pets/{petId}": {
+      parameters: [{ $ref: "#/components/parameters/PetId" }],
+      get: {
+        operationId: "getPet",
+        summary: "Get a pet",
+        parameters: [
+          { name: "fields", in: "query", schema: { type: "string" } },
+          { name: "X-Request-Id", in: "header", schema: { type: "string" } },
+          { name: "session", in: "cookie", schema: { type: "string" } },
+        ],
+      },
+      put: {
+        operationId: "updatePet",
+        requestBody: { $ref: "#/components/requestBodies/PetBody" },
+      },
+    },
+  },
+  components: {
+    parameters: {
+      PetId: {
+        name: "petId",
+        in: "path",
+        required: true,
+        description: "The pet's id",
+        schema: { type: "integer" },
+      },
+    },
+    requestBodies: {
+      PetBody: {
+        required: true,
+        content: {
+          "text/plain": { schema: { type: "string" } },
+          "application/json": { schema: { $ref: "#/components/schemas/Pet" } },
+        },
+      },
+    },
+    schemas: {
+      Pet: {
+        type: "object",
+        properties: {
+          name: { type: "string", nullable: true },
+          parent: { $ref: "#/components/schemas/Pet" },
+        },
+      },
+    },
+  },
+};
+
+const operation = (document: OpenAPIDocument, key: string) =>
+  listOpenAPIOperations(document).operations.find((op) => op.key === key);
+
+describe("parseOpenAPIDocument", () => {
+  it("reads YAML and rejects Swagger 2.0", () => {
+    expect(parseOpenAPIDocument("openapi: 3.1.0\npaths: {}\n").openapi).toBe("3.1.0");
+    expect(() => parseOpenAPIDocument('{"swagger": "2.0"}')).toThrow(
+      "Swagger 2.0 documents are not supported"
+    );
+  });
+});
+
+describe("listOpenAPIOperations", () => {
+  it("turns path and query parameters into arguments and lists the rest as skipped", () => {
+    const getPet = operation(petStore, "GET /pets/{petId}");
+
+    expect(getPet?.tool.name).toBe("getPet");
+    expect(getPet?.tool.parameters).toEqual({
+      type: "object",
+      properties: {
+        petId: { type: "integer", description: "The pet's id" },
+        fields: { type: "string" },
+      },
+      required: ["petId"],
+    });
+    expect(getPet?.skippedParameters).toEqual([
+      "header X-Request-Id",
+      "cookie session",
+    ]);
+  });
+
+  it("resolves a referenced JSON request body with nullable and recursive schemas", () => {
+    const updatePet = operation(petStore, "PUT /pets/{petId}");
+
+    expect(updatePet?.tool.parameters.properties.body).toEqual({
+      type: "object",
+      properties: {
+        name: { type: ["string", "null"] },
+        parent: { description: "Recursive reference to #/components/schemas/Pet" },
+      },
+    });
+    expect(updatePet?.tool.parameters.required).toEqual(["petId", "body"]);
+  });
+
+  it("names operations without an operationId after method and path, uniquely", () => {
+    const { operations } = listOpenAPIOperations({
+      openapi: "3.0.0",
+      paths: {
+        "/a b": { get: {} },
+        "/a.b": { get: {} },
+      },
+    });
+
+    expect(operations.map((op) => op.tool.name)).toEqual(["get__a_b", "get__a_b_2"]);
+    expect(operations[0].tool.description).toBe("GET /a b");
+  });
+
+  it("skips operations whose references do not resolve and keeps the rest", () => {
+    const { operations, skipped } = listOpenAPIOperations({
+      openapi: "3.0.0",
+      paths: {
+        "/ok": { get: { operationId: "ok" } },
+        "/external": {
+          post: {
+            requestBody: {
+              content: { "application/json": { schema: { $ref: "other.yaml#/Pet" } } },
+            },
+          },
+        },
+        "/missing": { $ref: "#/components/pathItems/Missing" },
+      },
+    });
+
+    expect(operations.map((op) => op.tool.name)).toEqual(["ok"]);
+    expect(skipped).toEqual([
+      {
+        key: "POST /external",
+        reason: 'External reference "other.yaml#/Pet" is not supported',
+      },
+      {
+        key: "/missing",
+        reason: 'Reference "#/components/pathItems/Missing" does not resolve',
+      },
+    ]);
+  });
+});
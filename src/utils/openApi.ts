@@ -0,0 +1,313 @@
+import { parse as parseYaml } from "yaml";
+import type { Tool } from "../store/useAppStore";
+import { defaultToolMockResponse } from "../services/toolExecutionService";
+
+const HTTP_METHODS = [
+  "get",
+  "put",
+  "post",
+  "delete",
+  "options",
+  "head",
+  "patch",
+  "trace",
+] as const;
+
+const errorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+export interface OpenAPIDocument {
+  openapi: string;
+  info?: { title?: string; version?: string; description?: string };
+  paths?: Record<string, Record<string, any>>;
+  components?: Record<string, any>;
+}
+
+export interface OpenAPIOperation {
+  // "METHOD /path", unique within a document
+  key: string;
+  method: string;
+  path: string;
+  summary: string;
+  tool: Omit<Tool, "id">;
+  // Header and cookie parameters, which a tool call has no way to set
+  skippedParameters: string[];
+}
+
+// An operation, or a whole path, that could not be converted
+export interface SkippedOpenAPIOperation {
+  key: string;
+  reason: string;
+}
+
+export interface OpenAPIOperationListing {
+  operations: OpenAPIOperation[];
+  skipped: SkippedOpenAPIOperation[];
+}
+
+/**
+ * Parses an OpenAPI 3 document from JSON or YAML text. YAML is a superset of
+ * JSON, so one parser handles both. Throws when the text is not an OpenAPI 3
+ * document.
+ */
+export const parseOpenAPIDocument = (text: string): OpenAPIDocument => {
+  let document: any;
+  try {
+    document = parseYaml(text);
+  } catch (error) {
+    throw new Error(`Could not parse document: ${errorMessage(error)}`);
+  }
+
+  if (!document || typeof document !== "object") {
+    throw new Error("Document is empty");
+  }
+  if (typeof document.openapi !== "string" || !document.openapi.startsWith("3.")) {
+    throw new Error(
+      document.swagger
+        ? "Swagger 2.0 documents are not supported; convert to OpenAPI 3 first"
+        : "Not an OpenAPI 3 document (missing `openapi: 3.x` field)"
+    );
+  }
+  return document;
+};
+
+const resolvePointer = (document: OpenAPIDocument, ref: string): any => {
+  if (!ref.startsWith("#/")) {
+    throw new Error(`External reference "${ref}" is not supported`);
+  }
+
+  let target: any = document;
+  for (const segment of ref.slice(2).split("/")) {
+    const key = decodeURIComponent(segment).replace(/~1/g, "/").replace(/~0/g, "~");
+    target = target?.[key];
+  }
+  if (target === undefined) {
+    throw new Error(`Reference "${ref}" does not resolve`);
+  }
+  return target;
+};
+
+// Parameters, request bodies and path items may themselves be references
+const resolveObject = (document: OpenAPIDocument, value: any): any => {
+  const seen: string[] = [];
+  while (value && typeof value.$ref === "string") {
+    if (seen.includes(value.$ref)) {
+      throw new Error(`Reference "${value.$ref}" refers to itself`);
+    }
+    seen.push(value.$ref);
+    value = resolvePointer(document, value.$ref);
+  }
+  return value;
+};
+
+// Keywords whose value is a schema, a list of schemas, or a map of names to
+// schemas. Everything else in a schema (enum, const, default, examples, ...)
+// is data and is kept as written.
+const SUBSCHEMA_KEYWORDS = new Set([
+  "items",
+  "additionalItems",
+  "additionalProperties",
+  "not",
+  "if",
+  "then",
+  "else",
+  "contains",
+  "propertyNames",
+  "unevaluatedItems",
+  "unevaluatedProperties",
+]);
+const SUBSCHEMA_LIST_KEYWORDS = new Set(["allOf", "anyOf", "oneOf", "prefixItems"]);
+const SUBSCHEMA_MAP_KEYWORDS = new Set([
+  "properties",
+  "patternProperties",
+  "definitions",
+  "$defs",
+  "dependentSchemas",
+]);
+
+/**
+ * Inlines every local `$ref` in a schema. Recursive schemas cannot be
+ * inlined, so a reference back into its own ancestry becomes an
+ * unconstrained schema. OpenAPI 3.0 `nullable` is rewritten to a JSON
+ * Schema type union.
+ */
+const dereferenceSchema = (
+  document: OpenAPIDocument,
+  schema: any,
+  seen: string[] = []
+): any => {
+  if (!schema || typeof schema !== "object" || Array.isArray(schema)) {
+    return schema;
+  }
+
+  if (typeof schema.$ref === "string") {
+    if (seen.includes(schema.$ref)) {
+      return { description: `Recursive reference to ${schema.$ref}` };
+    }
+    return dereferenceSchema(document, resolvePointer(document, schema.$ref), [
+      ...seen,
+      schema.$ref,
+    ]);
+  }
+
+  const subschema = (child: any) => dereferenceSchema(document, child, seen);
+  const result: Record<string, any> = {};
+  for (const [key, child] of Object.entries(schema)) {
+    if (key === "nullable") continue;
+    if (SUBSCHEMA_MAP_KEYWORDS.has(key) && child && typeof child === "object") {
+      result[key] = Object.fromEntries(
+        Object.entries(child).map(([name, value]) => [name, subschema(value)])
+      );
+    } else if (SUBSCHEMA_LIST_KEYWORDS.has(key) && Array.isArray(child)) {
+      result[key] = child.map(subschema);
+    } else if (SUBSCHEMA_KEYWORDS.has(key)) {
+      // Draft-04 style tuples put a list of schemas under `items`
+      result[key] = Array.isArray(child) ? child.map(subschema) : subschema(child);
+    } else {
+      result[key] = child;
+    }
+  }
+  if (schema.nullable === true && typeof schema.type === "string") {
+    result.type = [schema.type, "null"];
+  }
+  return result;
+};
+
+// Function names are limited to 64 characters of [a-zA-Z0-9_-]
+const toToolName = (raw: string): string =>
+  raw
+    .replace(/[^a-zA-Z0-9_-]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .slice(0, 64) || "operation";
+
+const pickBodySchema = (content?: Record<string, any>): any => {
+  if (!content) return undefined;
+  const mediaType =
+    Object.keys(content).find((type) => /json/i.test(type)) ||
+    Object.keys(content)[0];
+  return mediaType ? content[mediaType]?.schema : undefined;
+};
+
+// Only parameters and the request body are resolved; responses are never
+// needed for a tool
+const toTool = (
+  document: OpenAPIDocument,
+  path: string,
+  method: string,
+  pathItem: Record<string, any>,
+  operation: Record<string, any>
+): { tool: Omit<Tool, "id">; skippedParameters: string[] } => {
+  const properties: Record<string, any> = {};
+  const required: string[] = [];
+  const skippedParameters: string[] = [];
+
+  // Operation parameters override path-level ones with the same name and location
+  const parameters = new Map<string, any>();
+  for (const rawParameter of [...(pathItem.parameters || []), ...(operation.parameters || [])]) {
+    const parameter = resolveObject(document, rawParameter);
+    parameters.set(`${parameter.in}:${parameter.name}`, parameter);
+  }
+
+  for (const parameter of parameters.values()) {
+    if (parameter.in !== "path" && parameter.in !== "query") {
+      skippedParameters.push(`${parameter.in} ${parameter.name}`);
+      continue;
+    }
+
+    const schema = dereferenceSchema(
+      document,
+      parameter.schema || pickBodySchema(parameter.content) || {}
+    );
+    properties[parameter.name] = parameter.description
+      ? { ...schema, description: parameter.description }
+      : schema;
+    if (parameter.in === "path" || parameter.required) {
+      required.push(parameter.name);
+    }
+  }
+
+  const requestBody = resolveObject(document, operation.requestBody);
+  const bodySchema = dereferenceSchema(
+    document,
+    pickBodySchema(requestBody?.content)
+  );
+  if (bodySchema) {
+    // The body keeps its own shape rather than being flattened, so its
+    // fields never collide with path or query parameters
+    properties.body = requestBody.description
+      ? { ...bodySchema, description: requestBody.description }
+      : bodySchema;
+    if (requestBody.required) required.push("body");
+  }
+
+  const description = [operation.summary, operation.description]
+    .filter((part) => typeof part === "string" && part.trim())
+    .join("\n\n");
+
+  return {
+    tool: {
+      name: toToolName(operation.operationId || `${method}_${path}`),
+      description: description || `${method.toUpperCase()} ${path}`,
+      enabled: true,
+      parameters: { type: "object", properties, required },
+      mockResponse: defaultToolMockResponse,
+    },
+    skippedParameters,
+  };
+};
+
+/**
+ * Lists every operation in the document together with the tool it converts
+ * to. An operation whose references cannot be resolved is listed as skipped
+ * with the reason, and the rest of the document is still converted.
+ */
+export const listOpenAPIOperations = (
+  document: OpenAPIDocument
+): OpenAPIOperationListing => {
+  const operations: OpenAPIOperation[] = [];
+  const skipped: SkippedOpenAPIOperation[] = [];
+  const names = new Set<string>();
+
+  for (const [path, rawPathItem] of Object.entries(document.paths || {})) {
+    let pathItem: Record<string, any>;
+    try {
+      pathItem = resolveObject(document, rawPathItem);
+    } catch (error) {
+      skipped.push({ key: path, reason: errorMessage(error) });
+      continue;
+    }
+
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem?.[method];
+      if (!operation) continue;
+
+      const key = `${method.toUpperCase()} ${path}`;
+      let converted: ReturnType<typeof toTool>;
+      try {
+        converted = toTool(document, path, method, pathItem, operation);
+      } catch (error) {
+        skipped.push({ key, reason: errorMessage(error) });
+        continue;
+      }
+      const { tool, skippedParameters } = converted;
+
+      // Tool names must be unique; operationIds usually are, fallbacks may not be
+      let name = tool.name;
+      for (let suffix = 2; names.has(name); suffix++) {
+        name = `${tool.name.slice(0, 60)}_${suffix}`;
+      }
+      names.add(name);
+
+      operations.push({
+        key,
+        method: method.toUpperCase(),
+        path,
+        summary: operation.summary || operation.description || "",
+        tool: { ...tool, name },
+        skippedParameters,
+      });
+    }
+  }
+
+  return { operations, skipped };
+};
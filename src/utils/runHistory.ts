@@ -0,0 +1,10 @@
+import type { RunRecord } from "../store/useAppStore";
+
+// What the run produced; tool calls stand in for an empty text reply
+export const runOutputText = (run: RunRecord): string =>
+  run.output ||
+  (run.toolCalls.length > 0 ? JSON.stringify(run.toolCalls, null, 2) : "");
+
+// The request body holds the rendered prompt, so prompt edits show up here
+export const runRequestText = (run: RunRecord): string =>
+  JSON.stringify(run.request.body, null, 2);
@@ -0,0 +1,53 @@
+import type { Snippet } from "../store/useAppStore";
+import { collectTemplateSnippets } from "./templateEngine";
+
+const SNIPPET_NAME_PATTERN = /^[A-Za-z_][\w-]*$/;
+
+// Snippet contents keyed by name, as the template engine takes them
+export const snippetSources = (
+  snippets: Snippet[]
+): Record<string, string> =>
+  Object.fromEntries(
+    snippets.map((snippet) => [snippet.name, snippet.content])
+  );
+
+export const validateSnippetName = (
+  name: string,
+  snippets: Snippet[],
+  ownId?: string
+): string | null => {
+  if (!name) return "Enter a snippet name";
+  if (!SNIPPET_NAME_PATTERN.test(name)) {
+    return "Use letters, digits, _ and -, not starting with a digit";
+  }
+  if (
+    snippets.some((snippet) => snippet.name === name && snippet.id !== ownId)
+  ) {
+    return `A snippet named "${name}" already exists`;
+  }
+  return null;
+};
+
+export interface SnippetDependency {
+  name: string;
+  missing: boolean;
+}
+
+/**
+ * The snippets a text includes, directly or through other snippets. Texts
+ * with syntax errors report none; the error is shown instead.
+ */
+export const findSnippetDependencies = (
+  text: string,
+  snippets: Snippet[]
+): SnippetDependency[] => {
+  const sources = snippetSources(snippets);
+  try {
+    return collectTemplateSnippets(text, sources).map((name) => ({
+      name,
+      missing: sources[name] === undefined,
+    }));
+  } catch (error) {
+    return [];
+  }
+};
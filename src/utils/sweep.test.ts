@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import type { APIConfiguration } from "../store/useAppStore";
+import { getProvider } from "../services/providers";
+import {
+  applySweepValues,
+  buildSweepGrid,
+  parseSweepValues,
+  type SweepAxis,
+} from "./sweep";
+
+const config = (
+  overrides: Partial<APIConfiguration> = {}
+): APIConfiguration => ({
+  provider: "openai",
+  modelName: "gpt-4",
+  baseURL: "https://api.openai.com/v1",
+  apiKey: "",
+  temperature: 0.7,
+  maxTokens: 2000,
+  topP: 1,
+  frequencyPenalty: 0,
+  presencePenalty: 0,
+  customParameters: {},
+  ...overrides,
+});
+
+const temperature: SweepAxis = {
+  source: "config",
+  key: "temperature",
+  values: [0, 1],
+};
+
+const requestBody = (configuration: APIConfiguration) =>
+  getProvider(configuration.provider).buildRequest({
+    systemPrompt: "",
+    messages: [],
+    config: configuration,
+    tools: [],
+    toolChoice: { mode: "auto", functionName: "", parallelToolCalls: true },
+  }).body as Record<string, any>;
+
+describe("parseSweepValues", () => {
+  it("expands ranges without floating point noise", () => {
+    expect(parseSweepValues("0..1 step 0.25")).toEqual([0, 0.25, 0.5, 0.75, 1]);
+    expect(parseSweepValues("0.1..0.3 step 0.1")).toEqual([0.1, 0.2, 0.3]);
+  });
+
+  it("reads lists of JSON values and plain strings", () => {
+    expect(parseSweepValues('0.2, "low", gpt-4o')).toEqual([0.2, "low", "gpt-4o"]);
+  });
+
+  it("rejects empty and backwards input", () => {
+    expect(() => parseSweepValues(" ")).toThrow("Enter a list");
+    expect(() => parseSweepValues("1..0")).toThrow("ends before it starts");
+  });
+});
+
+describe("buildSweepGrid", () => {
+  it("varies the first axis slowest", () => {
+    const grid = buildSweepGrid([
+      temperature,
+      { source: "custom", key: "top_k", values: [10, 20] },
+    ]);
+
+    expect(grid.map((cell) => cell.values)).toEqual([
+      [0, 10],
+      [0, 20],
+      [1, 10],
+      [1, 20],
+    ]);
+  });
+});
+
+describe("applySweepValues", () => {
+  it("sets config fields and custom parameters", () => {
+    const next = applySweepValues(
+      config(),
+      [temperature, { source: "custom", key: "top_k", values: [10] }],
+      [0.3, 10]
+    );
+
+    expect(next.temperature).toBe(0.3);
+    expect(next.customParameters).toEqual({ top_k: 10 });
+  });
+
+  it("sends the swept value when a custom parameter sets the same field", () => {
+    const base = config({ customParameters: { temperature: 0.9, seed: 1 } });
+    const body = requestBody(applySweepValues(base, [temperature], [0.2]));
+
+    expect(body.temperature).toBe(0.2);
+    expect(body.seed).toBe(1);
+    expect(base.customParameters.temperature).toBe(0.9);
+  });
+
+  it("reaches into a custom Gemini generationConfig", () => {
+    const base = config({
+      provider: "gemini",
+      baseURL: "https://generativelanguage.googleapis.com/v1beta",
+      modelName: "gemini-2.0-flash",
+      customParameters: { generationConfig: { topP: 0.5, topK: 40 } },
+    });
+    const body = requestBody(
+      applySweepValues(
+        base,
+        [{ source: "config", key: "topP", values: [0.8] }],
+        [0.8]
+      )
+    );
+
+    expect(body.generationConfig).toMatchObject({ topP: 0.8, topK: 40 });
+  });
+});
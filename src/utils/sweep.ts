@@ -0,0 +1,190 @@
+import type { APIConfiguration } from "../store/useAppStore";
+
+// Configuration fields a sweep can vary directly
+export const sweepConfigParameters = {
+  temperature: "Temperature",
+  topP: "Top P",
+  frequencyPenalty: "Frequency penalty",
+  presencePenalty: "Presence penalty",
+  maxTokens: "Max tokens",
+} as const;
+
+export type SweepConfigParameter = keyof typeof sweepConfigParameters;
+
+// One dimension of the grid: a parameter and the values it takes
+export interface SweepAxis {
+  source: "config" | "custom";
+  key: string;
+  values: unknown[];
+}
+
+// One run of the grid; `values` holds one value per axis
+export interface SweepCell {
+  index: number;
+  values: unknown[];
+}
+
+// Keeps a typo in a range from firing hundreds of requests
+export const MAX_SWEEP_CELLS = 100;
+
+const RANGE_PATTERN =
+  /^(-?\d*\.?\d+)\s*\.\.\s*(-?\d*\.?\d+)(?:\s+step\s+(\d*\.?\d+))?$/i;
+
+// List items that are not JSON are kept as strings, e.g. model names
+const parseListItem = (item: string): unknown => {
+  try {
+    return JSON.parse(item);
+  } catch (error) {
+    return item;
+  }
+};
+
+// Number of decimals needed to print the step, so 0.1 steps stay clean
+const decimalsOf = (value: string): number => value.split(".")[1]?.length ?? 0;
+
+/**
+ * Reads the values of one axis: either a comma-separated list
+ * (`0, 0.5, 1` or `"low", "high"`) or an inclusive numeric range
+ * (`0..1 step 0.25`; the step defaults to 1).
+ */
+export const parseSweepValues = (text: string): unknown[] => {
+  const trimmed = text.trim();
+  if (!trimmed) throw new Error("Enter a list or a range of values");
+
+  const range = trimmed.match(RANGE_PATTERN);
+  if (range) {
+    const [, startText, endText, stepText = "1"] = range;
+    const start = Number(startText);
+    const end = Number(endText);
+    const step = Number(stepText);
+    if (step <= 0) throw new Error("The step must be greater than 0");
+    if (end < start) throw new Error("The range ends before it starts");
+
+    const count = Math.floor((end - start) / step + 1e-9) + 1;
+    if (count > MAX_SWEEP_CELLS) {
+      throw new Error(`The range has ${count} values, at most ${MAX_SWEEP_CELLS} are allowed`);
+    }
+    const decimals = Math.max(
+      decimalsOf(startText),
+      decimalsOf(stepText)
+    );
+    return Array.from({ length: count }, (_, i) =>
+      Number((start + i * step).toFixed(decimals))
+    );
+  }
+
+  if (trimmed.includes("..")) {
+    throw new Error("Write a range as start..end step size, e.g. 0..1 step 0.25");
+  }
+
+  const values = trimmed
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean)
+    .map(parseListItem);
+  if (values.length === 0) throw new Error("Enter a list or a range of values");
+  return values;
+};
+
+// Returns why the axis cannot run, or null when it is valid
+export const validateSweepAxis = (axis: SweepAxis): string | null => {
+  if (!axis.key.trim()) return "Pick a parameter";
+  if (
+    axis.source === "config" &&
+    axis.values.some((value) => typeof value !== "number")
+  ) {
+    return `${sweepAxisLabel(axis)} only takes numbers`;
+  }
+  return null;
+};
+
+/**
+ * Expands the axes into every combination of their values, the first axis
+ * varying slowest.
+ */
+export const buildSweepGrid = (axes: SweepAxis[]): SweepCell[] => {
+  const combinations = axes.reduce<unknown[][]>(
+    (grid, axis) =>
+      grid.flatMap((values) => axis.values.map((value) => [...values, value])),
+    [[]]
+  );
+  return combinations.map((values, index) => ({ index, values }));
+};
+
+// How each configuration field is named in request bodies, at the top level
+// (OpenAI, Anthropic) and inside Gemini's generationConfig
+const requestFieldNames: Record<
+  SweepConfigParameter,
+  { body: string; generationConfig: string }
+> = {
+  temperature: { body: "temperature", generationConfig: "temperature" },
+  topP: { body: "top_p", generationConfig: "topP" },
+  frequencyPenalty: {
+    body: "frequency_penalty",
+    generationConfig: "frequencyPenalty",
+  },
+  presencePenalty: {
+    body: "presence_penalty",
+    generationConfig: "presencePenalty",
+  },
+  maxTokens: { body: "max_tokens", generationConfig: "maxOutputTokens" },
+};
+
+// Custom parameters are merged into the body last, so one that sets the same
+// field as a config axis gets the swept value too rather than overriding it
+const overrideCustomParameter = (
+  customParameters: Record<string, any>,
+  key: string,
+  value: unknown
+): Record<string, any> => {
+  const names = requestFieldNames[key as SweepConfigParameter];
+  if (!names) return customParameters;
+
+  const next = { ...customParameters };
+  if (names.body in next) next[names.body] = value;
+  const generationConfig = next.generationConfig;
+  if (
+    generationConfig &&
+    typeof generationConfig === "object" &&
+    names.generationConfig in generationConfig
+  ) {
+    next.generationConfig = {
+      ...generationConfig,
+      [names.generationConfig]: value,
+    };
+  }
+  return next;
+};
+
+// The configuration for one cell, the current one with the axes' values set
+export const applySweepValues = (
+  config: APIConfiguration,
+  axes: SweepAxis[],
+  values: unknown[]
+): APIConfiguration =>
+  axes.reduce<APIConfiguration>(
+    (next, axis, i) =>
+      axis.source === "config"
+        ? {
+            ...next,
+            [axis.key]: values[i],
+            customParameters: overrideCustomParameter(
+              next.customParameters,
+              axis.key,
+              values[i]
+            ),
+          }
+        : {
+            ...next,
+            customParameters: { ...next.customParameters, [axis.key]: values[i] },
+          },
+    config
+  );
+
+export const sweepAxisLabel = (axis: Pick<SweepAxis, "source" | "key">): string =>
+  axis.source === "config"
+    ? sweepConfigParameters[axis.key as SweepConfigParameter] ?? axis.key
+    : axis.key;
+
+export const formatSweepValue = (value: unknown): string =>
+  typeof value === "string" ? value : JSON.stringify(value);
@@ -0,0 +1,223 @@
+import { describe, expect, it } from "vitest";
+import {
+  collectTemplateVariables,
+  findTemplateError,
+  renderTemplate,
+  TemplateSyntaxError,
+} from "./templateEngine";
+
+const syntaxError = (template: string) => {
+  const error = findTemplateError(template);
+  expect(error).toBeInstanceOf(TemplateSyntaxError);
+  return error as TemplateSyntaxError;
+};
+
+describe("renderTemplate", () => {
+  it("substitutes variables and reaches into JSON values", () => {
+    expect(
+      renderTemplate("Hi {{ name }}, re: {{doc.title}}{{missing}}", {
+        name: "Ada",
+        doc: '{"title": "Notes"}',
+      })
+    ).toBe("Hi Ada, re: Notes");
+  });
+
+  it("outputs JSON-looking text as entered", () => {
+    const pretty = '{\n  "a": 1\n}';
+
+    expect(
+      renderTemplate("{{pretty}}|{{list}}|{{objects}}", {
+        pretty,
+        list: '["x","y"]',
+        objects: '[{"a":1}]',
+      })
+    ).toBe(`${pretty}|["x","y"]|[{"a":1}]`);
+    expect(renderTemplate("{{list | join: \"+\"}}", { list: '["x","y"]' })).toBe(
+      "x+y"
+    );
+  });
+
+  describe("blocks", () => {
+    it("picks the branch of {{#if}} and {{#unless}}", () => {
+      const template = "{{#if on}}yes{{else}}no{{/if}}|{{#unless on}}off{{/unless}}";
+
+      expect(renderTemplate(template, { on: "1" })).toBe("yes|");
+      expect(renderTemplate(template, { on: "" })).toBe("no|off");
+      expect(renderTemplate(template, { on: "[]" })).toBe("no|off");
+    });
+
+    it("loops over arrays with item fields and loop variables", () => {
+      const template =
+        "{{#each people}}{{@index}}:{{name}}{{#unless @last}}, {{/unless}}{{/each}}";
+
+      expect(
+        renderTemplate(template, {
+          people: '[{"name": "Ada"}, {"name": "Alan"}]',
+        })
+      ).toBe("0:Ada, 1:Alan");
+    });
+
+    it("renders {{else}} of {{#each}} for an empty list", () => {
+      expect(
+        renderTemplate("{{#each items}}{{this}}{{else}}none{{/each}}", {
+          items: "[]",
+        })
+      ).toBe("none");
+    });
+
+    it("lets loop items shadow variables, innermost first", () => {
+      expect(
+        renderTemplate("{{#each rows}}{{#each this}}{{x}}{{/each}}{{/each}}", {
+          x: "outer",
+          rows: '[[{"x": 1}, {"y": 2}]]',
+        })
+      ).toBe("1outer");
+    });
+
+    it("renders snippets in place", () => {
+      expect(
+        renderTemplate("[{{> greet}}]", { name: "Ada" }, { greet: "Hi {{name}}" })
+      ).toBe("[Hi Ada]");
+    });
+  });
+
+  describe("filters", () => {
+    it("chains filters left to right", () => {
+      expect(renderTemplate("{{name | trim | upper}}", { name: "  ada " })).toBe(
+        "ADA"
+      );
+    });
+
+    it("passes quoted, numeric and boolean arguments", () => {
+      const variables = { tags: '["a", "b"]', text: "abcdef" };
+
+      expect(renderTemplate('{{tags | join: " + "}}', variables)).toBe("a + b");
+      expect(renderTemplate("{{text | truncate: 3}}", variables)).toBe("abc…");
+      expect(renderTemplate("{{missing | default: true}}", variables)).toBe(
+        "true"
+      );
+    });
+
+    it("uses the default only for empty values", () => {
+      const template = '{{lang | default: "en"}}';
+
+      expect(renderTemplate(template, {})).toBe("en");
+      expect(renderTemplate(template, { lang: "" })).toBe("en");
+      expect(renderTemplate(template, { lang: "fr" })).toBe("fr");
+    });
+
+    it("keeps braces inside quoted arguments", () => {
+      expect(renderTemplate('{{missing | default: "}}"}}!', {})).toBe("}}!");
+      expect(renderTemplate("{{missing | default: '{{x}}'}}", {})).toBe("{{x}}");
+    });
+  });
+
+  describe("literal text", () => {
+    it("keeps escaped openers", () => {
+      expect(renderTemplate("\\{{name}} is {{name}}", { name: "Ada" })).toBe(
+        "{{name}} is Ada"
+      );
+    });
+
+    it("drops comments, even with quotes in them", () => {
+      expect(
+        renderTemplate("a{{! don't }}b{{name | default: 'c'}}", {})
+      ).toBe("abc");
+    });
+
+    it("leaves tags that are not expressions as they are", () => {
+      expect(
+        renderTemplate("{{ user name }} {{}} {{name | nope}} {{ $x }}", {
+          name: "Ada",
+        })
+      ).toBe("{{ user name }} {{}} {{name | nope}} {{ $x }}");
+    });
+
+    it("leaves an unclosed opener as it is", () => {
+      expect(renderTemplate("{{name}} and {{ rest", { name: "Ada" })).toBe(
+        "Ada and {{ rest"
+      );
+    });
+
+    it("does not report literal tags as variables", () => {
+      expect(
+        collectTemplateVariables("{{ user name }} {{name}}").variables
+      ).toEqual(["name"]);
+    });
+  });
+});
+
+describe("collectTemplateVariables", () => {
+  it("lists names read only inside loops apart from the others", () => {
+    expect(
+      collectTemplateVariables(
+        "{{#each items}}{{prefix}} {{this}} {{@index}}{{#if tag}}{{tag}}{{/if}}{{/each}} {{title}}"
+      )
+    ).toEqual({ variables: ["items", "title"], loopVariables: ["prefix", "tag"] });
+  });
+
+  it("counts a name read both inside and outside a loop once, as a variable", () => {
+    expect(
+      collectTemplateVariables("{{#each rows}}{{lang}}{{/each}}{{lang}}")
+    ).toEqual({ variables: ["rows", "lang"], loopVariables: [] });
+  });
+
+  it("reads loop variables that the loop item does not override", () => {
+    expect(
+      renderTemplate("{{#each items}}{{prefix}} {{this}};{{/each}}", {
+        prefix: "-",
+        items: '["a","b"]',
+      })
+    ).toBe("- a;- b;");
+  });
+});
+
+describe("template syntax errors", () => {
+  it("reports an unclosed block at its opening line", () => {
+    const error = syntaxError("one\n{{#if a}}\nthree");
+
+    expect(error.line).toBe(2);
+    expect(error.reason).toBe("{{#if}} is never closed with {{/if}}");
+  });
+
+  it("reports a mismatched closing tag at its own line", () => {
+    const error = syntaxError("{{#each items}}\n\n{{/if}}");
+
+    expect(error.line).toBe(3);
+    expect(error.message).toBe(
+      "Line 3: {{/if}} closes {{#each}} from line 1"
+    );
+  });
+
+  it("reports stray and repeated {{else}}", () => {
+    expect(syntaxError("a\n{{else}}").line).toBe(2);
+    expect(syntaxError("{{#if a}}{{else}}\n{{else}}{{/if}}").reason).toBe(
+      "Second {{else}} in {{#if}} from line 1"
+    );
+  });
+
+  it("reports invalid block conditions and snippet names", () => {
+    expect(syntaxError("{{#if}}{{/if}}").reason).toBe(
+      "{{#if}} needs a variable"
+    );
+    expect(syntaxError("\n{{#each a | nope}}{{/each}}").line).toBe(2);
+    expect(syntaxError("{{> bad name}}").reason).toBe(
+      'Invalid snippet name "bad name"'
+    );
+  });
+
+  it("reports snippet errors at the include", () => {
+    expect(() =>
+      renderTemplate("\n{{> a}}", {}, { a: "{{> b}}", b: "{{> a}}" })
+    ).toThrow(
+      'Line 2: In snippet "a": Line 1: In snippet "b": Line 1: Snippet cycle: a → b → a'
+    );
+    expect(() => renderTemplate("{{> missing}}", {})).toThrow(
+      'Unknown snippet "missing"'
+    );
+  });
+
+  it("finds no error in a valid template", () => {
+    expect(findTemplateError("{{#if a}}{{b | upper}}{{/if}}")).toBeNull();
+  });
+});
@@ -0,0 +1,665 @@
+/**
+ * A small Handlebars-style template language for prompts:
+ *
+ *   {{name}}                       variable (dots reach into JSON values)
+ *   {{name | upper}}               filters, chained left to right
+ *   {{lang | default: "en"}}       filters with arguments
+ *   {{#if var}}..{{else}}..{{/if}} conditionals, also {{#unless}}
+ *   {{#each items}}..{{/each}}     loops; inside, {{this}}, {{@index}},
+ *                                  {{@first}}, {{@last}} and the item's fields
+ *   {{> snippet}}                  the named snippet, rendered in place
+ *   {{! comment }}                 dropped from the output
+ *   \{{                            a literal "{{"
+ *
+ * Tags that are not valid expressions, such as {{ user name }} or an
+ * unclosed "{{", are left in the output as literal text.
+ *
+ * String values that are JSON arrays or objects are parsed where a template
+ * loops over them, reaches into them, tests them or filters them; a plain
+ * {{name}} outputs the text exactly as entered. Typed values (numbers,
+ * booleans, parsed JSON) are used as they are. Undefined variables and
+ * missing fields render as an empty string.
+ */
+
+export class TemplateSyntaxError extends Error {
+  constructor(
+    readonly reason: string,
+    readonly line: number
+  ) {
+    super(`Line ${line}: ${reason}`);
+    this.name = "TemplateSyntaxError";
+  }
+}
+
+type Literal = string | number | boolean;
+
+interface Filter {
+  name: string;
+  args: Literal[];
+}
+
+interface Expression {
+  path: string[];
+  filters: Filter[];
+}
+
+type TemplateNode =
+  | { type: "text"; value: string }
+  | { type: "output"; expression: Expression }
+  | {
+      type: "if";
+      negate: boolean;
+      condition: Expression;
+      then: TemplateNode[];
+      otherwise: TemplateNode[];
+    }
+  | {
+      type: "each";
+      list: Expression;
+      body: TemplateNode[];
+      otherwise: TemplateNode[];
+    }
+  | { type: "include"; name: string; line: number };
+
+type FilterFunction = (value: unknown, ...args: Literal[]) => unknown;
+
+const toText = (value: unknown): string => {
+  if (value === undefined || value === null) return "";
+  if (Array.isArray(value)) return value.map(toText).join(", ");
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+const isEmpty = (value: unknown): boolean =>
+  value === undefined ||
+  value === null ||
+  value === "" ||
+  (Array.isArray(value) && value.length === 0);
+
+const filters: Record<string, FilterFunction> = {
+  upper: (value) => toText(value).toUpperCase(),
+  lower: (value) => toText(value).toLowerCase(),
+  capitalize: (value) => {
+    const text = toText(value);
+    return text.charAt(0).toUpperCase() + text.slice(1);
+  },
+  trim: (value) => toText(value).trim(),
+  default: (value, fallback = "") => (isEmpty(value) ? fallback : value),
+  json: (value) => JSON.stringify(value ?? null),
+  join: (value, separator = ", ") =>
+    Array.isArray(value) ? value.map(toText).join(String(separator)) : value,
+  length: (value) =>
+    Array.isArray(value) || typeof value === "string" ? value.length : 0,
+  first: (value) => (Array.isArray(value) ? value[0] : value),
+  last: (value) => (Array.isArray(value) ? value[value.length - 1] : value),
+  truncate: (value, length = 100) => {
+    const text = toText(value);
+    const max = Number(length);
+    return text.length > max ? `${text.slice(0, max)}…` : text;
+  },
+};
+
+export const templateFilterNames = Object.keys(filters);
+
+const PATH_PATTERN = /^(@?[A-Za-z_][\w-]*)(\.[\w-]+)*$/;
+const SNIPPET_NAME_PATTERN = /^[A-Za-z_][\w-]*$/;
+
+// Splits on a separator that is not inside a quoted string
+const splitOutsideQuotes = (text: string, separator: string): string[] => {
+  const parts: string[] = [];
+  let current = "";
+  let quote: string | null = null;
+
+  for (const char of text) {
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === separator) {
+      parts.push(current);
+      current = "";
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts;
+};
+
+const parseLiteral = (raw: string, line: number): Literal => {
+  const text = raw.trim();
+  if (/^(".*"|'.*')$/s.test(text)) return text.slice(1, -1);
+  if (text === "true" || text === "false") return text === "true";
+  if (text !== "" && !isNaN(Number(text))) return Number(text);
+  throw new TemplateSyntaxError(
+    `Invalid filter argument "${text}"; quote text values`,
+    line
+  );
+};
+
+const parseExpression = (source: string, line: number): Expression => {
+  const [pathText, ...filterTexts] = splitOutsideQuotes(source, "|");
+  const path = pathText.trim();
+
+  if (!PATH_PATTERN.test(path)) {
+    throw new TemplateSyntaxError(
+      path ? `Invalid variable name "${path}"` : "Empty expression",
+      line
+    );
+  }
+
+  return {
+    path: path.split("."),
+    filters: filterTexts.map((filterText) => {
+      const colonIndex = filterText.indexOf(":");
+      const name = (
+        colonIndex === -1 ? filterText : filterText.slice(0, colonIndex)
+      ).trim();
+      if (!filters[name]) {
+        throw new TemplateSyntaxError(
+          name ? `Unknown filter "${name}"` : "Missing filter name after |",
+          line
+        );
+      }
+      const args =
+        colonIndex === -1
+          ? []
+          : splitOutsideQuotes(filterText.slice(colonIndex + 1), ",").map(
+              (arg) => parseLiteral(arg, line)
+            );
+      return { name, args };
+    }),
+  };
+};
+
+// Index of the "}}" that ends the tag opened at `start`. Quotes only count
+// after the first "|", so `default: "}}"` stays whole while apostrophes in
+// plain text or comments do not swallow the rest of the template.
+const findTagEnd = (template: string, start: number): number => {
+  let quote: string | null = null;
+  let inFilters = false;
+  const isComment = template.slice(start).trimStart().startsWith("!");
+
+  for (let index = start; index < template.length; index++) {
+    const char = template[index];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (template.startsWith("}}", index)) {
+      return index;
+    } else if (char === "|") {
+      inFilters = !isComment;
+    } else if (inFilters && (char === '"' || char === "'")) {
+      quote = char;
+    }
+  }
+  // An unbalanced quote: fall back to the first "}}"
+  return template.indexOf("}}", start);
+};
+
+interface OpenBlock {
+  type: "if" | "unless" | "each";
+  expression: Expression;
+  line: number;
+  then: TemplateNode[];
+  otherwise: TemplateNode[];
+  inElse: boolean;
+}
+
+/**
+ * Parses a template into a tree. Throws TemplateSyntaxError, carrying the
+ * 1-based line of the offending tag, on malformed input.
+ */
+export const parseTemplate = (template: string): TemplateNode[] => {
+  const root: TemplateNode[] = [];
+  const stack: OpenBlock[] = [];
+  let position = 0;
+  let text = "";
+
+  const lineAt = (index: number) =>
+    template.slice(0, index).split("\n").length;
+  const target = () => {
+    const block = stack[stack.length - 1];
+    if (!block) return root;
+    return block.inElse ? block.otherwise : block.then;
+  };
+  const flushText = () => {
+    if (text) target().push({ type: "text", value: text });
+    text = "";
+  };
+
+  while (position < template.length) {
+    const open = template.indexOf("{{", position);
+    if (open === -1) {
+      text += template.slice(position);
+      break;
+    }
+
+    // An escaped opener stays literal
+    if (open > 0 && template[open - 1] === "\\") {
+      text += template.slice(position, open - 1) + "{{";
+      position = open + 2;
+      continue;
+    }
+
+    text += template.slice(position, open);
+    const line = lineAt(open);
+    const close = findTagEnd(template, open + 2);
+    if (close === -1) {
+      text += template.slice(open);
+      break;
+    }
+
+    const tag = template.slice(open + 2, close).trim();
+    const source = template.slice(open, close + 2);
+    position = close + 2;
+
+    if (tag.startsWith("!")) continue;
+
+    flushText();
+
+    const blockMatch = /^#(if|unless|each)\b(.*)$/s.exec(tag);
+    if (blockMatch) {
+      const [, type, rest] = blockMatch;
+      if (!rest.trim()) {
+        throw new TemplateSyntaxError(`{{#${type}}} needs a variable`, line);
+      }
+      stack.push({
+        type: type as OpenBlock["type"],
+        expression: parseExpression(rest, line),
+        line,
+        then: [],
+        otherwise: [],
+        inElse: false,
+      });
+      continue;
+    }
+
+    if (tag.startsWith(">")) {
+      const name = tag.slice(1).trim();
+      if (!SNIPPET_NAME_PATTERN.test(name)) {
+        throw new TemplateSyntaxError(
+          name ? `Invalid snippet name "${name}"` : "{{>}} needs a snippet name",
+          line
+        );
+      }
+      target().push({ type: "include", name, line });
+      continue;
+    }
+
+    if (tag === "else") {
+      const block = stack[stack.length - 1];
+      if (!block) {
+        throw new TemplateSyntaxError("{{else}} outside of a block", line);
+      }
+      if (block.inElse) {
+        throw new TemplateSyntaxError(
+          `Second {{else}} in {{#${block.type}}} from line ${block.line}`,
+          line
+        );
+      }
+      block.inElse = true;
+      continue;
+    }
+
+    const closeMatch = /^\/(\w+)$/.exec(tag);
+    if (closeMatch) {
+      const block = stack.pop();
+      if (!block) {
+        throw new TemplateSyntaxError(
+          `{{/${closeMatch[1]}}} without a matching {{#${closeMatch[1]}}}`,
+          line
+        );
+      }
+      if (block.type !== closeMatch[1]) {
+        throw new TemplateSyntaxError(
+          `{{/${closeMatch[1]}}} closes {{#${block.type}}} from line ${block.line}`,
+          line
+        );
+      }
+      target().push(
+        block.type === "each"
+          ? {
+              type: "each",
+              list: block.expression,
+              body: block.then,
+              otherwise: block.otherwise,
+            }
+          : {
+              type: "if",
+              negate: block.type === "unless",
+              condition: block.expression,
+              then: block.then,
+              otherwise: block.otherwise,
+            }
+      );
+      continue;
+    }
+
+    let expression: Expression;
+    try {
+      expression = parseExpression(tag, line);
+    } catch (error) {
+      // Braces that were never meant as a variable stay as they are
+      if (!(error instanceof TemplateSyntaxError)) throw error;
+      text += source;
+      continue;
+    }
+    target().push({ type: "output", expression });
+  }
+
+  flushText();
+
+  const unclosed = stack.pop();
+  if (unclosed) {
+    throw new TemplateSyntaxError(
+      `{{#${unclosed.type}}} is never closed with {{/${unclosed.type}}}`,
+      unclosed.line
+    );
+  }
+  return root;
+};
+
+// JSON arrays and objects become structured values; everything else stays text
+const toTemplateValue = (value: string): unknown => {
+  const trimmed = value.trim();
+  if (trimmed.startsWith("[") || trimmed.startsWith("{")) {
+    try {
+      return JSON.parse(trimmed);
+    } catch (error) {
+      return value;
+    }
+  }
+  return value;
+};
+
+interface Scope {
+  item: unknown;
+  index: number;
+  count: number;
+}
+
+// Text variables are parsed as JSON only when `structured` is set or the
+// path reaches into them
+const lookup = (
+  path: string[],
+  variables: Record<string, unknown>,
+  scopes: Scope[],
+  structured: boolean
+): unknown => {
+  const [head, ...rest] = path;
+  const scope = scopes[scopes.length - 1];
+  let value: unknown;
+
+  if (head.startsWith("@")) {
+    if (!scope) return undefined;
+    if (head === "@index") return scope.index;
+    if (head === "@first") return scope.index === 0;
+    if (head === "@last") return scope.index === scope.count - 1;
+    return undefined;
+  }
+
+  if (head === "this") {
+    value = scope ? scope.item : undefined;
+  } else {
+    // Loop items shadow variables, innermost loop first
+    const owner = [...scopes]
+      .reverse()
+      .find(
+        ({ item }) =>
+          item !== null && typeof item === "object" && head in (item as object)
+      );
+    const variable = variables[head];
+    value = owner
+      ? (owner.item as Record<string, unknown>)[head]
+      : typeof variable === "string" && (structured || rest.length > 0)
+        ? toTemplateValue(variable)
+        : variable;
+  }
+
+  for (const key of rest) {
+    if (value === null || typeof value !== "object") return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+};
+
+const evaluate = (
+  expression: Expression,
+  variables: Record<string, unknown>,
+  scopes: Scope[],
+  structured = true
+): unknown =>
+  expression.filters.reduce(
+    (value, filter) => filters[filter.name](value, ...filter.args),
+    lookup(
+      expression.path,
+      variables,
+      scopes,
+      structured || expression.filters.length > 0
+    )
+  );
+
+interface RenderContext {
+  variables: Record<string, unknown>;
+  snippets: Record<string, string>;
+  // Snippets being rendered, outermost first, to catch include cycles
+  including: string[];
+}
+
+const renderInclude = (
+  node: Extract<TemplateNode, { type: "include" }>,
+  context: RenderContext,
+  scopes: Scope[]
+): string => {
+  if (context.including.includes(node.name)) {
+    throw new TemplateSyntaxError(
+      `Snippet cycle: ${[...context.including, node.name].join(" → ")}`,
+      node.line
+    );
+  }
+  const snippet = context.snippets[node.name];
+  if (snippet === undefined) {
+    throw new TemplateSyntaxError(`Unknown snippet "${node.name}"`, node.line);
+  }
+
+  try {
+    return renderNodes(
+      parseTemplate(snippet),
+      { ...context, including: [...context.including, node.name] },
+      scopes
+    );
+  } catch (error) {
+    // Report the error at the include, saying where in the snippet it is
+    if (!(error instanceof TemplateSyntaxError)) throw error;
+    throw new TemplateSyntaxError(
+      `In snippet "${node.name}": ${error.message}`,
+      node.line
+    );
+  }
+};
+
+const renderNodes = (
+  nodes: TemplateNode[],
+  context: RenderContext,
+  scopes: Scope[]
+): string =>
+  nodes
+    .map((node) => {
+      switch (node.type) {
+        case "text":
+          return node.value;
+
+        case "output":
+          return toText(
+            evaluate(node.expression, context.variables, scopes, false)
+          );
+
+        case "include":
+          return renderInclude(node, context, scopes);
+
+        case "if": {
+          const value = evaluate(node.condition, context.variables, scopes);
+          const truthy = !isEmpty(value) && value !== false && value !== 0;
+          return renderNodes(
+            truthy !== node.negate ? node.then : node.otherwise,
+            context,
+            scopes
+          );
+        }
+
+        case "each": {
+          const value = evaluate(node.list, context.variables, scopes);
+          const items = Array.isArray(value)
+            ? value
+            : value && typeof value === "object"
+              ? Object.values(value)
+              : [];
+          if (items.length === 0) {
+            return renderNodes(node.otherwise, context, scopes);
+          }
+          return items
+            .map((item, index) =>
+              renderNodes(node.body, context, [
+                ...scopes,
+                { item, index, count: items.length },
+              ])
+            )
+            .join("");
+        }
+      }
+    })
+    .join("");
+
+// Snippets are templates themselves, keyed by name, and may include others
+export const renderTemplate = (
+  template: string,
+  variables: Record<string, unknown>,
+  snippets: Record<string, string> = {}
+): string =>
+  renderNodes(
+    parseTemplate(template),
+    { variables, snippets, including: [] },
+    []
+  );
+
+// Parses each snippet reachable from the nodes once, skipping broken ones
+const visitIncludes = (
+  nodes: TemplateNode[],
+  onInclude: (name: string) => TemplateNode[] | null,
+  seen = new Set<string>()
+) => {
+  for (const node of nodes) {
+    if (node.type === "include") {
+      if (seen.has(node.name)) continue;
+      seen.add(node.name);
+      const included = onInclude(node.name);
+      if (included) visitIncludes(included, onInclude, seen);
+    }
+    if (node.type === "if") {
+      visitIncludes(node.then, onInclude, seen);
+      visitIncludes(node.otherwise, onInclude, seen);
+    }
+    if (node.type === "each") {
+      visitIncludes(node.body, onInclude, seen);
+      visitIncludes(node.otherwise, onInclude, seen);
+    }
+  }
+};
+
+const parseSnippet = (
+  snippets: Record<string, string>,
+  name: string
+): TemplateNode[] | null => {
+  if (snippets[name] === undefined) return null;
+  try {
+    return parseTemplate(snippets[name]);
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * Names of the snippets a template includes, directly or through other
+ * snippets, in order of first include. Unknown names are listed too.
+ */
+export const collectTemplateSnippets = (
+  template: string,
+  snippets: Record<string, string> = {}
+): string[] => {
+  const names: string[] = [];
+  visitIncludes(parseTemplate(template), (name) => {
+    names.push(name);
+    return parseSnippet(snippets, name);
+  });
+  return names;
+};
+
+export interface TemplateVariables {
+  // Read outside of loops, or by an included snippet
+  variables: string[];
+  // Read only as bare names inside {{#each}} bodies. A loop item's field of
+  // the same name takes precedence, but items without it read the variable.
+  loopVariables: string[];
+}
+
+/**
+ * Names of the variables a template reads, including through snippets, in
+ * order of first use.
+ */
+export const collectTemplateVariables = (
+  template: string,
+  snippets: Record<string, string> = {}
+): TemplateVariables => {
+  const variables = new Set<string>();
+  const loopVariables = new Set<string>();
+
+  const addExpression = (expression: Expression, inLoop: boolean) => {
+    const [head] = expression.path;
+    if (head === "this" || head.startsWith("@")) return;
+    if (!inLoop) {
+      variables.add(head);
+      loopVariables.delete(head);
+    } else if (!variables.has(head)) {
+      loopVariables.add(head);
+    }
+  };
+
+  const visit = (nodes: TemplateNode[], inLoop: boolean) => {
+    for (const node of nodes) {
+      if (node.type === "output") addExpression(node.expression, inLoop);
+      if (node.type === "if") {
+        addExpression(node.condition, inLoop);
+        visit(node.then, inLoop);
+        visit(node.otherwise, inLoop);
+      }
+      if (node.type === "each") {
+        addExpression(node.list, inLoop);
+        visit(node.body, true);
+        visit(node.otherwise, inLoop);
+      }
+    }
+  };
+
+  const nodes = parseTemplate(template);
+  visit(nodes, false);
+  // Snippet variables count even when the include sits inside a loop
+  visitIncludes(nodes, (name) => {
+    const included = parseSnippet(snippets, name);
+    if (included) visit(included, false);
+    return included;
+  });
+  return { variables: [...variables], loopVariables: [...loopVariables] };
+};
+
+// Returns the syntax error in a template, if any, for inline display
+export const findTemplateError = (
+  template: string
+): TemplateSyntaxError | null => {
+  try {
+    parseTemplate(template);
+    return null;
+  } catch (error) {
+    if (error instanceof TemplateSyntaxError) return error;
+    throw error;
+  }
+};
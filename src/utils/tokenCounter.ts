@@ -1,4 +1,5 @@
 import { getEncoding } from 'js-tiktoken'
+import type { TokenUsage } from '../store/useAppStore'
 
 let encoding: any = null
 
@@ -62,4 +63,8 @@ export const formatTokenCount = (count: number): string => {
     return `${(count / 1000).toFixed(1)}k`
   }
   return count.toString()
-}
\ No newline at end of file
+}
+
+// Usage as the provider reported it, e.g. "12 in · 40 out"
+export const formatTokenUsage = (usage: TokenUsage): string =>
+  `${usage.inputTokens ?? '?'} in · ${usage.outputTokens ?? '?'} out`
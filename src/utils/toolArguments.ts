@@ -0,0 +1,23 @@
+// Tool call arguments arrive as a JSON string that may be empty when the
+// tool takes no parameters. Throws when the string is not valid JSON.
+export const parseToolArguments = (raw: string): Record<string, any> => {
+  if (!raw.trim()) return {};
+
+  const parsed = JSON.parse(raw);
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error("Tool arguments must be a JSON object");
+  }
+  return parsed;
+};
+
+// Providers that take arguments as objects need something even when the
+// model produced malformed JSON
+export const parseToolArgumentsOrEmpty = (
+  raw: string
+): Record<string, any> => {
+  try {
+    return parseToolArguments(raw);
+  } catch (error) {
+    return {};
+  }
+};
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import type { Tool } from "../store/useAppStore";
+import { exportTools, importTools, type ToolSetFormat } from "./toolFormats";
+
+const weather: Tool = {
+  id: "t1",
+  name: "get_weather",
+  description: "Weather for a city",
+  enabled: false,
+  parameters: {
+    type: "object",
+    properties: {
+      city: { type: "string", enum: ["Paris", "Oslo"] },
+      days: { type: ["integer", "null"] },
+      hours: { type: "array", items: { type: "number" } },
+    },
+    required: ["city"],
+  },
+  mockResponse: { source: "fixture", fixture: '{"temp":20}', handler: "" },
+};
+
+const withoutId = ({ id: _id, ...tool }: Tool) => tool;
+
+describe("exportTools and importTools", () => {
+  it.each<ToolSetFormat>(["openai", "anthropic", "gemini", "mcp"])(
+    "round-trips the %s format",
+    (format) => {
+      const imported = importTools(exportTools([weather], format));
+
+      expect(imported.format).toBe(format);
+      expect(imported.tools).toEqual([
+        {
+          name: weather.name,
+          description: weather.description,
+          enabled: true,
+          parameters: weather.parameters,
+          mockResponse: undefined,
+        },
+      ]);
+    }
+  );
+
+  it("round-trips Prompt Lab sets with mock responses and the enabled flag", () => {
+    const imported = importTools(exportTools([weather], "promptlab", "Weather"));
+
+    expect(imported).toEqual({ format: "promptlab", tools: [withoutId(weather)] });
+  });
+
+  it("reads a whole request body and Responses API tools", () => {
+    const body = {
+      model: "gpt-4",
+      tools: [{ type: "function", name: "ping", parameters: { type: "object", properties: {} } }],
+    };
+
+    expect(importTools(body).tools.map((tool) => tool.name)).toEqual(["ping"]);
+  });
+
+  it("throws when nothing looks like a tool", () => {
+    expect(() => importTools({ tools: [{ description: "no name" }] })).toThrow(
+      "No tool definitions found"
+    );
+  });
+});
+
+describe("Gemini schemas", () => {
+  const geminiParameters = (parameters: Record<string, any>) =>
+    (
+      exportTools(
+        [{ ...weather, parameters: parameters as Tool["parameters"] }],
+        "gemini"
+      ) as { functionDeclarations: { parameters: any }[] }
+    ).functionDeclarations[0].parameters;
+
+  it("spells types in upper case and marks nullable values", () => {
+    expect(geminiParameters(weather.parameters)).toEqual({
+      type: "OBJECT",
+      properties: {
+        city: { type: "STRING", enum: ["Paris", "Oslo"] },
+        days: { type: "INTEGER", nullable: true },
+        hours: { type: "ARRAY", items: { type: "NUMBER" } },
+      },
+      required: ["city"],
+    });
+  });
+
+  it("gives a union of several types a single type", () => {
+    expect(
+      geminiParameters({
+        type: "object",
+        properties: {
+          id: { type: ["string", "integer", "null"] },
+          nothing: { type: ["null"] },
+        },
+      }).properties
+    ).toEqual({
+      id: { type: "STRING", nullable: true },
+      nothing: { nullable: true },
+    });
+  });
+});
@@ -0,0 +1,258 @@
+import type { Tool } from "../store/useAppStore";
+
+export type ToolSetFormat = "promptlab" | "openai" | "anthropic" | "gemini" | "mcp";
+
+export const toolSetFormatLabels: Record<ToolSetFormat, string> = {
+  promptlab: "Prompt Lab",
+  openai: "OpenAI tools",
+  anthropic: "Anthropic tools",
+  gemini: "Gemini functionDeclarations",
+  mcp: "MCP tools/list",
+};
+
+const emptyParameters = (): Tool["parameters"] => ({
+  type: "object",
+  properties: {},
+  required: [],
+});
+
+// Keywords whose value is a schema, a list of schemas or a map of names to
+// schemas. Anything else (enum, const, default, examples, ...) is data.
+const SUBSCHEMA_KEYWORDS = new Set([
+  "items",
+  "additionalProperties",
+  "not",
+  "if",
+  "then",
+  "else",
+  "contains",
+  "propertyNames",
+]);
+const SUBSCHEMA_LIST_KEYWORDS = new Set(["allOf", "anyOf", "oneOf", "prefixItems"]);
+const SUBSCHEMA_MAP_KEYWORDS = new Set([
+  "properties",
+  "patternProperties",
+  "definitions",
+  "$defs",
+]);
+
+const isSchemaObject = (schema: any): boolean =>
+  Boolean(schema) && typeof schema === "object" && !Array.isArray(schema);
+
+// Copies a schema with `convert` applied to each of its direct subschemas
+const mapSubschemas = (
+  schema: Record<string, any>,
+  convert: (subschema: any) => any
+): Record<string, any> =>
+  Object.fromEntries(
+    Object.entries(schema).map(([key, value]) => {
+      if (SUBSCHEMA_MAP_KEYWORDS.has(key) && isSchemaObject(value)) {
+        return [
+          key,
+          Object.fromEntries(
+            Object.entries(value).map(([name, child]) => [name, convert(child)])
+          ),
+        ];
+      }
+      if (SUBSCHEMA_LIST_KEYWORDS.has(key) && Array.isArray(value)) {
+        return [key, value.map(convert)];
+      }
+      if (SUBSCHEMA_KEYWORDS.has(key)) {
+        return [key, Array.isArray(value) ? value.map(convert) : convert(value)];
+      }
+      return [key, value];
+    })
+  );
+
+// Gemini's OpenAPI-style schemas spell types in upper case ("OBJECT") and
+// mark values that may be null with `nullable` instead of a type union.
+// Gemini takes a single type, so a union of several keeps its first one.
+const toGeminiSchema = (schema: any): any => {
+  if (!isSchemaObject(schema)) return schema;
+
+  const result = mapSubschemas(schema, toGeminiSchema);
+  if (typeof schema.type === "string") {
+    result.type = schema.type.toUpperCase();
+  } else if (Array.isArray(schema.type)) {
+    const types: string[] = schema.type.filter((type: string) => type !== "null");
+    if (types.length > 0) {
+      result.type = types[0].toUpperCase();
+    } else {
+      delete result.type;
+    }
+    if (types.length < schema.type.length) result.nullable = true;
+  }
+  return result;
+};
+
+const fromGeminiSchema = (schema: any): any => {
+  if (!isSchemaObject(schema)) return schema;
+
+  const result = mapSubschemas(schema, fromGeminiSchema);
+  if (typeof schema.type === "string") {
+    result.type = schema.type.toLowerCase();
+  } else if (Array.isArray(schema.type)) {
+    result.type = schema.type.map((type: string) => type.toLowerCase());
+  }
+  if (schema.nullable === true && result.type !== undefined) {
+    result.type = [...[result.type].flat(), "null"];
+    delete result.nullable;
+  }
+  return result;
+};
+
+/**
+ * Converts tools into the shape each vendor's API (or MCP's tools/list
+ * result) expects, ready to paste into a request. Only the Prompt Lab format
+ * keeps mock responses and the enabled flag.
+ */
+export const exportTools = (
+  tools: Tool[],
+  format: ToolSetFormat,
+  name = "Exported Tool Set"
+): unknown => {
+  switch (format) {
+    case "openai":
+      return tools.map((tool) => ({
+        type: "function",
+        function: {
+          name: tool.name,
+          description: tool.description,
+          parameters: tool.parameters,
+        },
+      }));
+
+    case "anthropic":
+      return tools.map((tool) => ({
+        name: tool.name,
+        description: tool.description,
+        input_schema: tool.parameters,
+      }));
+
+    case "gemini":
+      return {
+        functionDeclarations: tools.map((tool) => ({
+          name: tool.name,
+          description: tool.description,
+          parameters: toGeminiSchema(tool.parameters),
+        })),
+      };
+
+    case "mcp":
+      return {
+        tools: tools.map((tool) => ({
+          name: tool.name,
+          description: tool.description,
+          inputSchema: tool.parameters,
+        })),
+      };
+
+    default:
+      return {
+        name,
+        tools,
+        exportedAt: new Date().toISOString(),
+      };
+  }
+};
+
+interface ImportedEntry {
+  format: ToolSetFormat;
+  tool: Omit<Tool, "id">;
+}
+
+const toImportedEntries = (
+  entry: any,
+  isGeminiDeclaration = false
+): ImportedEntry[] => {
+  if (!entry || typeof entry !== "object") return [];
+
+  // Gemini wraps declarations in a tool object, possibly inside a request
+  if (Array.isArray(entry.functionDeclarations)) {
+    return entry.functionDeclarations.flatMap((declaration: any) =>
+      toImportedEntries(declaration, true)
+    );
+  }
+
+  let format: ToolSetFormat;
+  let source: any;
+  let parameters: any;
+
+  if (entry.type === "function" && entry.function) {
+    format = "openai";
+    source = entry.function;
+    parameters = entry.function.parameters;
+  } else if (entry.input_schema) {
+    format = "anthropic";
+    source = entry;
+    parameters = entry.input_schema;
+  } else if (entry.inputSchema) {
+    format = "mcp";
+    source = entry;
+    parameters = entry.inputSchema;
+  } else if (entry.type === "function") {
+    // Responses API style: { type: "function", name, parameters }
+    format = "openai";
+    source = entry;
+    parameters = entry.parameters;
+  } else {
+    format =
+      !isGeminiDeclaration &&
+      (entry.mockResponse !== undefined || entry.enabled !== undefined)
+        ? "promptlab"
+        : "gemini";
+    source = entry;
+    parameters = entry.parameters;
+  }
+
+  if (typeof source.name !== "string" || !source.name) return [];
+
+  return [
+    {
+      format,
+      tool: {
+        name: source.name,
+        description: source.description || "",
+        enabled: source.enabled ?? true,
+        parameters: !parameters
+          ? emptyParameters()
+          : format === "gemini"
+            ? fromGeminiSchema(parameters)
+            : parameters,
+        mockResponse: source.mockResponse,
+      },
+    },
+  ];
+};
+
+const hasToolList = (data: unknown): data is { tools: unknown[] } =>
+  typeof data === "object" &&
+  data !== null &&
+  "tools" in data &&
+  Array.isArray(data.tools);
+
+/**
+ * Reads a tool set in any supported format, detected from its shape: a bare
+ * array of vendor tool definitions, a `{ tools: [...] }` wrapper (Prompt Lab,
+ * MCP or a whole request body) or a Gemini `functionDeclarations` object.
+ * Throws when no tool definitions are found.
+ */
+export const importTools = (
+  data: unknown
+): { format: ToolSetFormat; tools: Omit<Tool, "id">[] } => {
+  const entries: unknown[] = Array.isArray(data)
+    ? data
+    : hasToolList(data)
+      ? data.tools
+      : [data];
+
+  const imported = entries.flatMap((entry) => toImportedEntries(entry));
+  if (imported.length === 0) {
+    throw new Error("No tool definitions found");
+  }
+
+  return {
+    format: imported[0].format,
+    tools: imported.map((entry) => entry.tool),
+  };
+};
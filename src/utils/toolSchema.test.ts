@@ -0,0 +1,168 @@
+import { describe, expect, it } from "vitest";
+import type { Tool } from "../store/useAppStore";
+import {
+  formatViolation,
+  validateJSONValue,
+  validateToolCall,
+  validateToolName,
+  validateToolParameters,
+} from "./toolSchema";
+
+const tool = (parameters: Record<string, any>): Tool => ({
+  id: "t1",
+  name: "search",
+  description: "",
+  enabled: true,
+  parameters: parameters as Tool["parameters"],
+});
+
+const searchTool = tool({
+  type: "object",
+  properties: { query: { type: "string" }, limit: { type: "integer" } },
+  required: ["query"],
+  additionalProperties: false,
+});
+
+describe("validateToolName", () => {
+  it("applies the shared pattern and Gemini's first character rule", () => {
+    expect(validateToolName("get_weather")).toBeNull();
+    expect(validateToolName("")).toBe("Tool name is required");
+    expect(validateToolName("get weather")).toMatch("1-64 characters");
+    expect(validateToolName("1st", "openai")).toBeNull();
+    expect(validateToolName("1st", "gemini")).toMatch("start with a letter");
+  });
+});
+
+describe("validateToolParameters", () => {
+  it("accepts an object schema", () => {
+    expect(validateToolParameters(searchTool.parameters)).toEqual([]);
+  });
+
+  it("requires an object at the root", () => {
+    expect(validateToolParameters([])).toEqual([
+      { path: "", message: "Parameters must be a JSON object" },
+    ]);
+    expect(validateToolParameters({ type: "string" })).toEqual([
+      { path: "/type", message: 'must be "object"' },
+    ]);
+  });
+
+  it("reports meta-schema errors once per location", () => {
+    const violations = validateToolParameters({
+      type: "object",
+      properties: { query: { type: "text" } },
+    });
+
+    expect(violations).toHaveLength(1);
+    expect(violations[0].path).toBe("/properties/query/type");
+  });
+
+  it("reports an unknown $schema at /$schema", () => {
+    const [violation] = validateToolParameters({
+      $schema: "https://example.com/unknown-draft",
+      type: "object",
+    });
+
+    expect(violation.path).toBe("/$schema");
+  });
+
+  it("reports references that do not resolve", () => {
+    const [violation] = validateToolParameters({
+      type: "object",
+      properties: { query: { $ref: "#/$defs/missing" } },
+    });
+
+    expect(violation.path).toBe("");
+    expect(violation.message).toMatch("can't resolve reference");
+  });
+
+  it("checks draft 2019-09 and 2020-12 schemas with their own keywords", () => {
+    const prefixItems = {
+      type: "object",
+      properties: { pair: { type: "array", prefixItems: [{ type: "string" }] } },
+    };
+
+    expect(
+      validateToolParameters({
+        $schema: "https://json-schema.org/draft/2020-12/schema",
+        ...prefixItems,
+      })
+    ).toEqual([]);
+    expect(
+      validateToolParameters({
+        $schema: "https://json-schema.org/draft/2019-09/schema",
+        type: "object",
+        dependentRequired: { limit: ["query"] },
+      })
+    ).toEqual([]);
+  });
+});
+
+describe("validateToolCall", () => {
+  it("accepts matching arguments and empty arguments for no parameters", () => {
+    expect(
+      validateToolCall({ id: "c", name: "search", arguments: '{"query":"x"}' }, [searchTool])
+    ).toEqual([]);
+    expect(
+      validateToolCall({ id: "c", name: "ping", arguments: "" }, [
+        { ...tool({ type: "object", properties: {} }), name: "ping" },
+      ])
+    ).toEqual([]);
+  });
+
+  it("reports each violation with its path", () => {
+    const violations = validateToolCall(
+      { id: "c", name: "search", arguments: '{"limit":1.5,"extra":true}' },
+      [searchTool]
+    );
+
+    expect(violations.map(formatViolation)).toEqual([
+      "must have required property 'query'",
+      'unexpected property "extra"',
+      "/limit must be integer",
+    ]);
+  });
+
+  it("reports unknown tools and arguments that are not an object", () => {
+    expect(
+      validateToolCall({ id: "c", name: "other", arguments: "{}" }, [searchTool])
+    ).toEqual([{ path: "", message: 'tool "other" is not defined' }]);
+    expect(
+      validateToolCall({ id: "c", name: "search", arguments: "[1]" }, [searchTool])[0]
+        .message
+    ).toMatch("arguments are not a JSON object");
+  });
+
+  it("validates 2020-12 arguments with that draft's keywords", () => {
+    const pairTool = tool({
+      $schema: "https://json-schema.org/draft/2020-12/schema",
+      type: "object",
+      properties: {
+        pair: { type: "array", prefixItems: [{ type: "string" }, { type: "number" }] },
+      },
+    });
+
+    expect(
+      validateToolCall({ id: "c", name: "search", arguments: '{"pair":["a",1]}' }, [pairTool])
+    ).toEqual([]);
+    expect(
+      validateToolCall({ id: "c", name: "search", arguments: '{"pair":[1,"a"]}' }, [pairTool])
+        .map((violation) => violation.path)
+    ).toEqual(["/pair/0", "/pair/1"]);
+  });
+});
+
+describe("validateJSONValue", () => {
+  it("validates any value and compiles the same $id twice", () => {
+    const schema = { $id: "https://example.com/answer", type: "number" };
+
+    expect(validateJSONValue(schema, 42)).toEqual([]);
+    expect(validateJSONValue({ ...schema }, "42")).toEqual([
+      { path: "", message: "must be number" },
+    ]);
+  });
+
+  it("throws when the schema does not compile", () => {
+    expect(() => validateJSONValue({ $ref: "#/missing" }, 1)).toThrow();
+  });
+});
@@ -0,0 +1,182 @@
+import Ajv, { type ErrorObject, type ValidateFunction } from "ajv";
+import Ajv2019 from "ajv/dist/2019";
+import Ajv2020 from "ajv/dist/2020";
+import type { ProviderId } from "../services/providers";
+import type { Tool, ToolCall } from "../store/useAppStore";
+import { parseToolArguments } from "./toolArguments";
+
+// OpenAI and Anthropic both reject function names outside this pattern
+export const TOOL_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+export interface SchemaViolation {
+  // JSON Pointer to the offending value; empty for the root
+  path: string;
+  message: string;
+}
+
+// User schemas routinely carry keywords Ajv does not know (for example
+// OpenAPI's `example`), so strict mode is off and only real errors count.
+const ajvOptions = { allErrors: true, strict: false };
+const ajv = new Ajv(ajvOptions);
+const ajv2019 = new Ajv2019(ajvOptions);
+const ajv2020 = new Ajv2020(ajvOptions);
+
+// Each draft has its own meta-schema and keywords; schemas without a
+// `$schema` are treated as draft-07, which most tool schemas are written in
+const ajvFor = (schema: object): Ajv => {
+  const dialect = (schema as Record<string, any>).$schema;
+  if (typeof dialect === "string") {
+    if (dialect.includes("2020-12")) return ajv2020;
+    if (dialect.includes("2019-09")) return ajv2019;
+  }
+  return ajv;
+};
+
+const errorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+interface CompiledSchema {
+  validate: ValidateFunction | null;
+  // Why the schema did not compile
+  error: string | null;
+}
+
+// Schemas are re-parsed from text on every render and keystroke, so
+// compiled validators are keyed by that text. The cache is bounded, and Ajv
+// forgets each schema right after compiling it: otherwise its own cache
+// would grow with every edit and a schema with an `$id` could not be
+// compiled twice.
+const MAX_COMPILED_SCHEMAS = 200;
+const compiledSchemas = new Map<string, CompiledSchema>();
+
+const compileSchema = (schema: object): CompiledSchema => {
+  const key = JSON.stringify(schema);
+  let compiled = compiledSchemas.get(key);
+  if (!compiled) {
+    const instance = ajvFor(schema);
+    try {
+      compiled = { validate: instance.compile(schema), error: null };
+    } catch (error) {
+      compiled = { validate: null, error: errorMessage(error) };
+    } finally {
+      instance.removeSchema(schema);
+    }
+    if (compiledSchemas.size >= MAX_COMPILED_SCHEMAS) {
+      compiledSchemas.delete(compiledSchemas.keys().next().value as string);
+    }
+    compiledSchemas.set(key, compiled);
+  }
+  return compiled;
+};
+
+const toViolations = (errors?: ErrorObject[] | null): SchemaViolation[] =>
+  (errors || []).map((error) => ({
+    path: error.instancePath,
+    message:
+      error.keyword === "additionalProperties"
+        ? `unexpected property "${error.params.additionalProperty}"`
+        : error.message || "is invalid",
+  }));
+
+export const formatViolation = ({ path, message }: SchemaViolation): string =>
+  path ? `${path} ${message}` : message;
+
+export const validateToolName = (
+  name: string,
+  provider?: ProviderId
+): string | null => {
+  if (!name) return "Tool name is required";
+  if (!TOOL_NAME_PATTERN.test(name)) {
+    return "Tool name must be 1-64 characters of letters, digits, underscores or dashes";
+  }
+  if (provider === "gemini" && !/^[a-zA-Z_]/.test(name)) {
+    return "Gemini requires tool names to start with a letter or underscore";
+  }
+  return null;
+};
+
+/**
+ * Checks tool parameters against the JSON Schema meta-schema and the shape
+ * every provider expects: an object schema at the root.
+ */
+export const validateToolParameters = (parameters: unknown): SchemaViolation[] => {
+  if (!parameters || typeof parameters !== "object" || Array.isArray(parameters)) {
+    return [{ path: "", message: "Parameters must be a JSON object" }];
+  }
+
+  const instance = ajvFor(parameters as object);
+  let isValid: boolean;
+  try {
+    isValid = instance.validateSchema(parameters as object) as boolean;
+  } catch (error) {
+    // An unknown `$schema` has no meta-schema to check against
+    return [{ path: "/$schema", message: errorMessage(error) }];
+  }
+  if (!isValid) {
+    // Meta-schema alternatives (anyOf) report one error per branch; the
+    // first error for each location is the readable one
+    return toViolations(instance.errors).filter(
+      (violation, index, all) =>
+        all.findIndex((other) => other.path === violation.path) === index
+    );
+  }
+
+  const violations: SchemaViolation[] = [];
+  if ((parameters as Record<string, any>).type !== "object") {
+    violations.push({ path: "/type", message: 'must be "object"' });
+  }
+
+  // The meta-schema does not resolve references, compiling does
+  const { error } = compileSchema(parameters as object);
+  if (error) {
+    violations.push({ path: "", message: error });
+  }
+
+  return violations;
+};
+
+/**
+ * Validates the arguments the model produced for a tool call against the
+ * called tool's schema. Returns an empty list when the call is valid.
+ */
+export const validateToolCall = (
+  toolCall: ToolCall,
+  tools: Tool[]
+): SchemaViolation[] => {
+  const tool = tools.find((t) => t.name === toolCall.name);
+  if (!tool) {
+    return [{ path: "", message: `tool "${toolCall.name}" is not defined` }];
+  }
+
+  let args: Record<string, any>;
+  try {
+    args = parseToolArguments(toolCall.arguments);
+  } catch (error) {
+    return [
+      {
+        path: "",
+        message: `arguments are not a JSON object (${
+          error instanceof Error ? error.message : String(error)
+        })`,
+      },
+    ];
+  }
+
+  // Schemas that fail to compile are reported in the tool editor
+  const { validate } = compileSchema(tool.parameters);
+  if (!validate || validate(args)) return [];
+  return toViolations(validate.errors);
+};
+
+/**
+ * Validates any JSON value against a schema. Returns an empty list when the
+ * value matches; throws when the schema does not compile.
+ */
+export const validateJSONValue = (
+  schema: object,
+  value: unknown
+): SchemaViolation[] => {
+  const { validate, error } = compileSchema(schema);
+  if (!validate) throw new Error(error ?? "Schema does not compile");
+  return validate(value) ? [] : toViolations(validate.errors);
+};
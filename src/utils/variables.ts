@@ -0,0 +1,238 @@
+import type {
+  Message,
+  VariableDefinition,
+  VariableType,
+} from "../store/useAppStore";
+import {
+  collectTemplateVariables,
+  type TemplateVariables,
+} from "./templateEngine";
+
+const VARIABLE_NAME_PATTERN = /^[A-Za-z_][\w-]*$/;
+
+export const defaultVariableDefinition: VariableDefinition = {
+  type: "text",
+  defaultValue: "",
+  description: "",
+  options: [],
+};
+
+export const variableTypeLabels: Record<VariableType, string> = {
+  text: "Text",
+  multiline: "Multiline text",
+  number: "Number",
+  boolean: "Boolean",
+  enum: "Choice",
+  json: "JSON",
+  file: "File contents",
+};
+
+/**
+ * Explains why a value does not fit its declared type, or returns null.
+ * Empty values are always accepted; the default applies to them.
+ */
+export const validateVariableValue = (
+  value: string,
+  definition: VariableDefinition
+): string | null => {
+  if (!value.trim()) return null;
+
+  switch (definition.type) {
+    case "number":
+      return isNaN(Number(value)) ? "Must be a number" : null;
+    case "boolean":
+      return value === "true" || value === "false"
+        ? null
+        : 'Must be "true" or "false"';
+    case "enum":
+      return definition.options.length > 0 &&
+        !definition.options.includes(value)
+        ? `Must be one of: ${definition.options.join(", ")}`
+        : null;
+    case "json":
+      try {
+        JSON.parse(value);
+        return null;
+      } catch (error) {
+        return `Invalid JSON: ${
+          error instanceof Error ? error.message : String(error)
+        }`;
+      }
+    default:
+      return null;
+  }
+};
+
+// Invalid values fall back to their text so the prompt still renders
+const toTypedValue = (value: string, type: VariableType): unknown => {
+  switch (type) {
+    case "number":
+      return value.trim() && !isNaN(Number(value)) ? Number(value) : value;
+    case "boolean":
+      return value === "true" ? true : value === "false" ? false : value;
+    case "json":
+      try {
+        return JSON.parse(value);
+      } catch (error) {
+        return value;
+      }
+    default:
+      return value;
+  }
+};
+
+/**
+ * Layers a session's own values over its environment's. Empty session values
+ * do not count as overrides, so clearing an input falls back to the
+ * environment.
+ */
+export const layerVariableValues = (
+  environmentValues: Record<string, string>,
+  sessionValues: Record<string, string>
+): Record<string, string> => {
+  const layered = { ...environmentValues };
+  for (const [name, value] of Object.entries(sessionValues)) {
+    if (value !== "" || !(name in layered)) layered[name] = value;
+  }
+  return layered;
+};
+
+/**
+ * Builds the values a template is rendered with: empty values take their
+ * declared default, and numbers, booleans and JSON are converted so that
+ * `{{#if flag}}` and `{{#each list}}` behave as the type suggests.
+ */
+export const resolveVariableValues = (
+  values: Record<string, string>,
+  definitions: Record<string, VariableDefinition>
+): Record<string, unknown> => {
+  const resolved: Record<string, unknown> = {};
+  const names = new Set([...Object.keys(values), ...Object.keys(definitions)]);
+
+  for (const name of names) {
+    const definition = definitions[name];
+    const raw = values[name] ?? "";
+    const value = raw === "" && definition ? definition.defaultValue : raw;
+
+    // Never-set variables without a default stay undefined
+    if (values[name] === undefined && !definition?.defaultValue) continue;
+
+    resolved[name] = definition ? toTypedValue(value, definition.type) : value;
+  }
+
+  return resolved;
+};
+
+export const validateVariableName = (name: string): string | null => {
+  if (!name) return "Enter a variable name";
+  if (!VARIABLE_NAME_PATTERN.test(name)) {
+    return "Use letters, digits, _ and -, not starting with a digit";
+  }
+  return null;
+};
+
+export const detectVariables = (
+  text: string,
+  snippets: Record<string, string> = {}
+): TemplateVariables => {
+  try {
+    return collectTemplateVariables(text, snippets);
+  } catch (error) {
+    // Half-written templates still show their plain placeholders
+    const matches = text.match(/\{\{\s*([\w.-]+)\s*\}\}/g) || [];
+    return {
+      variables: Array.from(
+        new Set(matches.map((match) => match.slice(2, -2).trim().split(".")[0]))
+      ),
+      loopVariables: [],
+    };
+  }
+};
+
+const promptSources = (
+  systemPrompt: string,
+  messages: Pick<Message, "content">[]
+) => [
+  { label: "System prompt", text: systemPrompt },
+  ...messages.map((message, index) => ({
+    label: `Message ${index + 1}`,
+    text: message.content,
+  })),
+];
+
+/**
+ * Maps each variable the prompt reads to where it is read, e.g.
+ * `{ topic: ["System prompt", "Message 2"] }`, in order of first use.
+ * Variables read by an included snippet count as read where it is included,
+ * and names read inside {{#each}} bodies count too.
+ */
+export const findVariableUsages = (
+  systemPrompt: string,
+  messages: Pick<Message, "content">[],
+  snippets: Record<string, string> = {}
+): Record<string, string[]> => {
+  const usages: Record<string, string[]> = {};
+
+  for (const { label, text } of promptSources(systemPrompt, messages)) {
+    const { variables, loopVariables } = detectVariables(text, snippets);
+    for (const name of [...variables, ...loopVariables]) {
+      usages[name] = [...(usages[name] ?? []), label];
+    }
+  }
+
+  return usages;
+};
+
+/**
+ * Variables the prompt reads only inside {{#each}} bodies. A field of the
+ * loop item may stand in for them, so an empty one is not reported missing.
+ */
+export const findLoopOnlyVariables = (
+  systemPrompt: string,
+  messages: Pick<Message, "content">[],
+  snippets: Record<string, string> = {}
+): string[] => {
+  const variables = new Set<string>();
+  const loopVariables = new Set<string>();
+
+  for (const { text } of promptSources(systemPrompt, messages)) {
+    const detected = detectVariables(text, snippets);
+    detected.variables.forEach((name) => variables.add(name));
+    detected.loopVariables.forEach((name) => loopVariables.add(name));
+  }
+
+  return [...loopVariables].filter((name) => !variables.has(name));
+};
+
+/**
+ * Every variable the manager shows: used ones first, then manually added
+ * ones, then any that only have a leftover value or definition.
+ */
+export const listVariableNames = (
+  usedVariables: string[],
+  customVariables: string[],
+  values: Record<string, string>,
+  definitions: Record<string, VariableDefinition>
+): string[] => [
+  ...new Set([
+    ...usedVariables,
+    ...customVariables,
+    ...Object.keys(values),
+    ...Object.keys(definitions),
+  ]),
+];
+
+/**
+ * Used variables that would render as an empty string: no value and no
+ * default. Booleans are left out since an unset switch reads as false.
+ */
+export const findMissingVariables = (
+  usedVariables: string[],
+  values: Record<string, string>,
+  definitions: Record<string, VariableDefinition>
+): string[] =>
+  usedVariables.filter((name) => {
+    const definition = definitions[name];
+    if (definition?.type === "boolean") return false;
+    return !values[name]?.trim() && !definition?.defaultValue;
+  });
@@ -0,0 +1,76 @@
+// Runs a tool's JavaScript implementation off the main thread. Workers have
+// no DOM access, and the usual network and storage APIs are hidden so that
+// well-behaved implementations stay deterministic.
+//
+// This is best-effort isolation, not a security boundary: dynamic import()
+// of a remote module cannot be blocked from inside the worker, and code
+// determined to reach the network will find a way. Only run tool code you
+// trust.
+const blockedGlobals = [
+  "fetch",
+  "XMLHttpRequest",
+  "WebSocket",
+  "EventSource",
+  "indexedDB",
+  "caches",
+];
+
+// Most of these live on WorkerGlobalScope.prototype rather than on `self`,
+// so every object in the chain is covered; otherwise
+// Object.getPrototypeOf(self).fetch would still reach the original.
+for (const name of blockedGlobals) {
+  for (
+    let target: object | null = self;
+    target;
+    target = Object.getPrototypeOf(target)
+  ) {
+    if (!Object.prototype.hasOwnProperty.call(target, name)) continue;
+    try {
+      Object.defineProperty(target, name, {
+        value: undefined,
+        writable: false,
+        configurable: false,
+      });
+    } catch (error) {
+      // Not every property is redefinable; those are left as they are
+    }
+  }
+}
+
+export interface ToolSandboxRequest {
+  code: string;
+  args: Record<string, any>;
+}
+
+export interface ToolSandboxResponse {
+  ok: boolean;
+  result?: unknown;
+  error?: string;
+}
+
+const AsyncFunction = Object.getPrototypeOf(async function () {})
+  .constructor as new (...params: string[]) => (
+  args: Record<string, any>
+) => Promise<unknown>;
+
+self.addEventListener(
+  "message",
+  async (event: MessageEvent<ToolSandboxRequest>) => {
+    const { code, args } = event.data;
+    let response: ToolSandboxResponse;
+
+    try {
+      const implementation = new AsyncFunction("args", code);
+      const result = await implementation(args);
+      // Round-trip through JSON so only plain data crosses back
+      response = { ok: true, result: JSON.parse(JSON.stringify(result ?? null)) };
+    } catch (error) {
+      response = {
+        ok: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+
+    self.postMessage(response);
+  }
+);